@@ -3,483 +3,423 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Header from './components/Header';
-
-// --- Simulation Constants (Real Lab Setup) ---
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 400;
-const CENTER_Y = CANVAS_HEIGHT / 2;
-const FLOOR_Y = CANVAS_HEIGHT - 20;
-
-// Scale: 4 pixels = 1 cm
-const PX_PER_CM = 4;
-
-const SOURCE_X = 80; // Left side
-const SOURCE_TO_PMMA_CM = 15;
-const PMMA_X = SOURCE_X + (SOURCE_TO_PMMA_CM * PX_PER_CM); // Gap between source and PMMA
-
-const PMMA_THICKNESS = 5 * (PX_PER_CM / 10); // 5mm scaled (2 pixels - strictly visual, made slightly thicker for visibility)
-const PMMA_VISUAL_THICKNESS = 10; 
-const PMMA_HEIGHT = 150;
-
-const DETECTOR_WIDTH = 30;
-const DETECTOR_HEIGHT = 60;
-const MAX_DISTANCE_CM = 150;
-
-// Physics Constants provided by user
-const K_CONST = 0.170; // m^2 * uSv/h
-const K_ERROR = 0.024;
-const MU_CONST = 0.02; // m^-1
-const B_CONST = 0.15; // uSv/h (Background)
-
-interface Particle {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  type: 'beta' | 'photon' | 'background_photon';
-  life: number;
-  history: {x: number, y: number}[];
+import MeasurementLog from './components/MeasurementLog';
+import FitPanel from './components/FitPanel';
+import DosePlot from './components/DosePlot';
+import CountingPlanner from './components/CountingPlanner';
+import GeometrySettings from './components/GeometrySettings';
+import ShieldingPanel from './components/ShieldingPanel';
+import HeatmapLegend from './components/HeatmapLegend';
+import NumberField from './components/NumberField';
+import DosimeterPanel from './components/DosimeterPanel';
+import AreaClassificationPanel from './components/AreaClassificationPanel';
+import SourcePanel from './components/SourcePanel';
+import PolarScanPanel from './components/PolarScanPanel';
+import AnalysisPanel from './components/AnalysisPanel';
+import LabReportPanel from './components/LabReportPanel';
+import RecordingPanel from './components/RecordingPanel';
+import { useI18n } from './components/I18nProvider';
+import { B_CONST } from './services/doseModel';
+import {
+  COUNTING_TIME_OPTIONS_S, SAMPLE_INTERVAL_S, CountSample, trimWindow, readingFromSamples,
+} from './services/countingStatistics';
+import { DETECTORS, DETECTOR_LIST, DetectorId, observedCountRate } from './services/detectors';
+import { LabGeometry, REFERENCE_GEOMETRY, computeLayout } from './services/geometry';
+import { MATERIALS, MATERIAL_LIST, REFERENCE_MATERIAL_ID, MaterialId } from './services/materials';
+import { ShieldSlab, clampSlab } from './services/shielding';
+import { RandomSource, DEFAULT_SEED, MAX_SEED, createRandom, normaliseSeed, randomSeed } from './services/random';
+import {
+  DeadTimeCorrectionMode, sourceDoseAtProbe as setupSourceDose, probeCountRate,
+  deadTimeCorrectionFor, sampleCountSlice, setupModelParams, setupKError, sourceTransmission, photonOriginCm,
+  sourcePhotonEnergyKeV, probeDistanceCm, probeAngleDeg, probeIncidenceDeg, probeResponseDose,
+} from './services/simulation';
+import {
+  CANVAS_WIDTH, CANVAS_HEIGHT, CENTER_Y, FLOOR_Y, detectorGeometry, slabGeometry, experimenterGeometry, fieldOffsetAt,
+  probeCanvasPosition,
+} from './services/benchRenderer';
+import {
+  DEFAULT_ISODOSE_LEVELS_USVH, fieldDoseRate, parseIsodoseLevels, formatDoseLevel, formatIsodoseLevels, usesDecimalComma,
+} from './services/doseField';
+import { SimulationStats, TimeControl, DEFAULT_TIME_CONTROL, SPEED_OPTIONS } from './services/simulationLoop';
+import { SimulationHandle, attachSimulation } from './services/simulationHost';
+import {
+  ExperimenterPosition, DosimeterAlarms, DosimeterReading, DEFAULT_EXPERIMENTER, DEFAULT_DOSIMETER_ALARMS,
+  EMPTY_DOSIMETER, experimenterDoseRate, accumulateDose, dosimeterAlarmState,
+} from './services/dosimeter';
+import { AlarmTone, createAlarmTone } from './services/alarmTone';
+import {
+  RegulatoryPreset, REGULATORY_PRESETS, DEFAULT_PRESET_ID, AREA_CLASS_COLORS, areaThresholds, classifyDoseRate,
+} from './services/areaClassification';
+import {
+  SourceCertificate, DEFAULT_SOURCE_CERTIFICATE, decayedActivityMBq, todayIso,
+} from './services/sourceActivity';
+import { IsotopeId, ISOTOPES, DEFAULT_ISOTOPE_ID, isGammaSource } from './services/isotopes';
+import { Probe, DEFAULT_PROBE, MAX_PROBES, BenchSetup, probeColor, probeSetup, addProbe } from './services/probes';
+import {
+  PolarScanSettings, PolarScanPoint, DEFAULT_POLAR_SCAN, polarScanAngles, polarScanPlacement,
+} from './services/polarScan';
+import { AnalysisProvider, readingContext } from './services/labAssistant';
+import { offlineAnalyser } from './services/offlineAnalyser';
+import { createGeminiProvider } from './services/geminiService';
+import { LabReportMeta, LabReportInput, modelFormula, serialiseChart, blobToDataUrl } from './services/labReport';
+import { FixedParamFlags, DEFAULT_FIXED_PARAMS, measurementsForSetup, readingBench } from './services/fitting';
+import { OverlayLine } from './services/canvasRecording';
+import { localeText } from './services/locales';
+import {
+  UnitSettings, DoseRateUnitId, DistanceUnitId, DEFAULT_UNITS, DOSE_RATE_UNIT_IDS, DISTANCE_UNIT_IDS, displayUnits,
+  modelParamFactors, modelUnitSymbols,
+} from './services/units';
+import { Measurement, DetectorReading } from './types';
+
+// What the pointer is currently moving on the bench
+type DragTarget =
+  | { kind: 'detector'; id: number; grabDxCm: number; grabDyCm: number }
+  | { kind: 'slab'; id: number; grabOffsetCm: number }
+  | { kind: 'experimenter'; grabDxCm: number; grabDyCm: number };
+
+// The offline analyser comes first: classrooms are often without internet
+const ANALYSIS_PROVIDERS: AnalysisProvider[] = [offlineAnalyser, createGeminiProvider(process.env.API_KEY)];
+
+const EMPTY_READING: DetectorReading = { doseRate: 0, doseRateError: 0, counts: 0, timeS: 0 };
+
+// Rate-meter slices of one probe; `key` identifies what it measured, so a change starts a fresh window
+interface CountWindow {
+  key: string;
+  samples: CountSample[];
 }
 
 const App: React.FC = () => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const decimalComma = usesDecimalComma(i18n);
+
   // State
-  const [distanceCm, setDistanceCm] = useState<number>(80); // cm from PMMA
-  const [counts, setCounts] = useState<number>(0); // Visual counts
+  const [probes, setProbes] = useState<Probe[]>([DEFAULT_PROBE]);
+  const [selectedProbeId, setSelectedProbeId] = useState<number>(DEFAULT_PROBE.id); // Controls and plots follow it
+  const [counts, setCounts] = useState<Record<number, number>>({}); // Visual counts, by probe id
   const [sourceOpen, setSourceOpen] = useState<boolean>(true);
-  const [doseRate, setDoseRate] = useState<string>("0.150");
+  const [readings, setReadings] = useState<Record<number, DetectorReading>>({});
+  const [countingTimeS, setCountingTimeS] = useState<number>(10);
+  const [deadTimeCorrection, setDeadTimeCorrection] = useState<DeadTimeCorrectionMode>('non-paralyzable');
+  const [geometry, setGeometry] = useState<LabGeometry>(REFERENCE_GEOMETRY);
+  const [targetMaterialId, setTargetMaterialId] = useState<MaterialId>(REFERENCE_MATERIAL_ID);
   const [showHeatmap, setShowHeatmap] = useState<boolean>(false);
-  const [isDraggingDetector, setIsDraggingDetector] = useState<boolean>(false);
+  // The levels as typed, with the number format and the dose-rate unit they were typed in
+  const [isodoseInput, setIsodoseInput] = useState(() => ({
+    text: formatIsodoseLevels(DEFAULT_ISODOSE_LEVELS_USVH, i18n),
+    decimalComma,
+    perUSvH: 1,
+  }));
+  const [hoverDose, setHoverDose] = useState<{ x: number; y: number; doseRate: number } | null>(null); // Canvas px
+  const [slabs, setSlabs] = useState<ShieldSlab[]>([]);
+  const [dragTarget, setDragTarget] = useState<DragTarget | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [seed, setSeed] = useState<number>(DEFAULT_SEED);
+  const [showPerfOverlay, setShowPerfOverlay] = useState<boolean>(false);
+  const [perfStats, setPerfStats] = useState<SimulationStats | null>(null);
+  const [experimenter, setExperimenter] = useState<ExperimenterPosition>(DEFAULT_EXPERIMENTER);
+  const [dosimeter, setDosimeter] = useState<DosimeterReading>(EMPTY_DOSIMETER);
+  const [dosimeterAlarms, setDosimeterAlarms] = useState<DosimeterAlarms>(DEFAULT_DOSIMETER_ALARMS);
+  const [alarmSoundOn, setAlarmSoundOn] = useState<boolean>(false);
+  const [showAreas, setShowAreas] = useState<boolean>(false);
+  const [regulation, setRegulation] = useState<RegulatoryPreset>(
+    REGULATORY_PRESETS.find(p => p.id === DEFAULT_PRESET_ID) ?? REGULATORY_PRESETS[0]
+  );
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [elapsedS, setElapsedS] = useState<number>(0); // Simulated time since the last reset
+  const [isotopeId, setIsotopeId] = useState<IsotopeId>(DEFAULT_ISOTOPE_ID);
+  const [sourceCertificate, setSourceCertificate] = useState<SourceCertificate>(DEFAULT_SOURCE_CERTIFICATE);
+  const [activityDate, setActivityDate] = useState<string>(todayIso()); // "Today" for the decay
+  const [polarScan, setPolarScan] = useState<PolarScanSettings>(DEFAULT_POLAR_SCAN);
+  const [polarRun, setPolarRun] = useState<{ probeId: number; angles: number[] } | null>(null); // Angles still to measure
+  const [polarPoints, setPolarPoints] = useState<PolarScanPoint[]>([]);
+  const [fixedParams, setFixedParams] = useState<FixedParamFlags>(DEFAULT_FIXED_PARAMS);
+  const [units, setUnits] = useState<UnitSettings>(DEFAULT_UNITS);
+
+  const selectedIndex = Math.max(0, probes.findIndex(p => p.id === selectedProbeId));
+  const selectedProbe = probes[selectedIndex];
+  const { distanceCm, probeOffsetCm, probeRotationDeg, detectorId } = selectedProbe;
+  const reading = readings[selectedProbe.id] ?? EMPTY_READING;
+  const detector = DETECTORS[detectorId];
+  const targetMaterial = MATERIALS[targetMaterialId];
+  const layout = useMemo(() => computeLayout(geometry, CANVAS_WIDTH, CANVAS_HEIGHT), [geometry]);
+  const isotope = ISOTOPES[isotopeId];
+  const activityMBq = useMemo(
+    () => decayedActivityMBq(sourceCertificate, activityDate, isotope.halfLifeY),
+    [sourceCertificate, activityDate, isotope]
+  );
+  const benchSetup = useMemo<BenchSetup>(
+    () => ({ geometry, targetMaterialId, slabs, sourceOpen, isotopeId, activityMBq }),
+    [geometry, targetMaterialId, slabs, sourceOpen, isotopeId, activityMBq]
+  );
+  const probeSetups = useMemo(() => probes.map(p => probeSetup(benchSetup, p)), [benchSetup, probes]);
+  const setup = probeSetups[selectedIndex]; // The bench as the selected probe sees it
+  const modelParams = useMemo(() => setupModelParams(setup), [setup]);
+  // e^(-μx) of every absorber between the photons' origin and a probe at d
+  const transmissionAt = useCallback((dCm: number) => sourceTransmission(setup, dCm, 0), [setup]);
+  const photonOrigin = photonOriginCm(setup);
+  const gammaSource = isGammaSource(isotope);
+  const probeDistance = probeDistanceCm(setup);
+  const probeIncidence = probeIncidenceDeg(setup);
+  // Only what the canvas labels need goes to the worker
+  const benchText = useMemo(() => localeText(i18n.localeId, ['bench.', 'area.']), [i18n.localeId]);
+  // The field, the footer and the sliders follow the selected probe's detector; each readout its own
+  const benchUnits = useMemo(() => displayUnits(units, detector), [units, detector]);
+  const isodoseLevels = useMemo( // µSv/h
+    () => parseIsodoseLevels(isodoseInput.text, isodoseInput.decimalComma).map(v => v / isodoseInput.perUSvH),
+    [isodoseInput]
+  );
+  // Switching to a language with the other decimal separator, or to another dose-rate unit, rewrites the levels in it
+  const isodosePerUSvH = benchUnits.doseRate.perUSvH;
+  if (isodoseInput.decimalComma !== decimalComma || isodoseInput.perUSvH !== isodosePerUSvH) {
+    setIsodoseInput({
+      text: formatIsodoseLevels(isodoseLevels.map(v => v * isodosePerUSvH), i18n),
+      decimalComma,
+      perUSvH: isodosePerUSvH,
+    });
+  }
+  const lengthUnit = benchUnits.distance;
+  const formatLength = (cm: number, digits = lengthUnit.digits) =>
+    `${i18n.number(cm * lengthUnit.perCm, digits)} ${lengthUnit.symbol}`;
+  const modelFactors = modelParamFactors(benchUnits);
+  const modelUnits = modelUnitSymbols(benchUnits);
+  const experimenterRate = experimenterDoseRate(setup, modelParams, experimenter);
+  const dosimeterAlarm = dosimeterAlarmState(dosimeter, experimenterRate, dosimeterAlarms);
+  const dosimeterAlarming = dosimeterAlarm.dose || dosimeterAlarm.rate;
+  const regulatoryThresholds = useMemo(() => areaThresholds(regulation), [regulation]);
 
   // Refs for simulation
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const particlesRef = useRef<Particle[]>([]);
-  const requestRef = useRef<number>();
-  const countsRef = useRef<number>(0);
+  const dosePlotSvgRef = useRef<SVGSVGElement>(null);
+  // The readouts as shown, for recordings that burn them in; the recorder reads it at every frame
+  const overlayLinesRef = useRef<OverlayLine[]>([]);
+  overlayLinesRef.current = probes.map((probe, i) => {
+    const probeReading = readings[probe.id] ?? EMPTY_READING;
+    const { doseRate } = displayUnits(units, DETECTORS[probe.detectorId]);
+    return {
+      label: probe.label,
+      color: probeColor(i),
+      text: `${i18n.fixed(probeReading.doseRate * doseRate.perUSvH, doseRate.digits)} ± ${
+        i18n.fixed(probeReading.doseRateError * doseRate.perUSvH, doseRate.digits)} ${doseRate.symbol}`,
+    };
+  });
+  const simulationRef = useRef<SimulationHandle | null>(null);
+  const countsRef = useRef<Record<number, number>>({});
+  const elapsedRef = useRef<number>(0);
+  const meterClockRef = useRef<number>(0); // Simulated time not yet turned into rate-meter slices
+  const sampleCountsRef = useRef<() => void>(() => {}); // One rate-meter slice for every probe
+  const dosimeterRef = useRef<DosimeterReading>(EMPTY_DOSIMETER);
+  const exposureRef = useRef({ rateUSvH: 0, sourceOpen: true }); // What the dosimeter sees between renders
+  const alarmToneRef = useRef<AlarmTone | null>(null);
+  const nextMeasurementIdRef = useRef<number>(1);
+  const countWindowsRef = useRef<Record<number, CountWindow>>({}); // Detector counts within the counting time
+  // All randomness comes from these seeded streams, so a seed plus the same actions replays a run exactly
+  const particleSeedRef = useRef<number>(DEFAULT_SEED); // The particle stream lives with the simulation loop
+  const meterRandomRef = useRef<RandomSource>(createRandom(DEFAULT_SEED, 'rateMeter'));
+  const polarSeenReadingRef = useRef<DetectorReading | null>(null); // Last reading the polar scan has looked at
 
   // --- Physics Calculation (The Formula) ---
   useEffect(() => {
-    // Formula: H*(d) = K * e^(-mu * d) / d^2 + b
-    const calculateDose = () => {
-        let currentDose = B_CONST; // Base background radiation
-
-        if (sourceOpen) {
-            // d is distance in meters
-            // Prevent division by zero. clamp min distance to 1cm
-            const d = Math.max(distanceCm, 1) / 100; 
-            
-            const attenuation = Math.exp(-MU_CONST * d);
-            const geometricLoss = d * d;
-            
-            const sourceContribution = (K_CONST * attenuation) / geometricLoss;
-            currentDose += sourceContribution;
-        }
+    // Moving a probe, toggling the source or swapping its instrument starts a fresh counting run for it;
+    // the other probes keep counting
+    const previous = countWindowsRef.current;
+    const restarted = new Set<number>();
+    countWindowsRef.current = {};
+    probeSetups.forEach((ps, i) => {
+      const id = probes[i].id;
+      const key = JSON.stringify([ps, countingTimeS, deadTimeCorrection]);
+      if (previous[id]?.key !== key) restarted.add(id);
+      countWindowsRef.current[id] = previous[id]?.key === key ? previous[id] : { key, samples: [] };
+    });
 
-        // Add +/- 2% noise for realism (simulating detector fluctuation)
-        const noise = 1 + (Math.random() * 0.04 - 0.02);
-        
-        setDoseRate((currentDose * noise).toFixed(3));
-    };
+    const meters = probeSetups.map((ps, i) => {
+      const probeDetector = DETECTORS[ps.detectorId];
+      return {
+        id: probes[i].id,
+        meanCps: probeCountRate(ps, modelParams),
+        calibration: probeDetector.calibrationCpsPerUSvH,
+        correction: deadTimeCorrectionFor(probeDetector, deadTimeCorrection),
+      };
+    });
 
-    // Update dose rate every 500ms to show fluctuation
-    const interval = setInterval(calculateDose, 500);
-    calculateDose(); // Immediate update on slide
-    return () => clearInterval(interval);
-
-  }, [distanceCm, sourceOpen]);
-
-
-  // --- Simulation Logic (Visuals) ---
-  const spawnParticle = () => {
-    // 20 MBq source simulation (scaled down for browser performance)
-    // Beta particles emit in a cone towards the PMMA
-    const spreadY = (Math.random() - 0.5) * 2; 
-    
-    const p: Particle = {
-      id: Math.random(),
-      x: SOURCE_X + 10,
-      y: CENTER_Y, 
-      vx: 6 + Math.random() * 2, // Fast Beta
-      vy: spreadY,
-      type: 'beta',
-      life: 200,
-      history: []
+    // Rate meter: every slice samples Poisson counts from each detector's expected count rate
+    // for H*(d) = K * e^(-mu * d) / d^2 * Π e^(-mu_i * x_i) + b, and the reading integrates the last
+    // `countingTimeS` seconds of slices. Slices follow simulated time, so pausing or speeding up the
+    // bench does the same to the meter.
+    const sampleCounts = (only?: Set<number>) => {
+        const next: Record<number, DetectorReading> = {};
+        meters.forEach(meter => {
+          if (only && !only.has(meter.id)) return;
+          const countWindow = countWindowsRef.current[meter.id];
+          countWindow.samples = trimWindow(
+            [...countWindow.samples, sampleCountSlice(meter.meanCps, meterRandomRef.current)],
+            countingTimeS
+          );
+          next[meter.id] = readingFromSamples(countWindow.samples, meter.calibration, meter.correction);
+        });
+        setReadings(prev => ({ ...prev, ...next }));
     };
-    particlesRef.current.push(p);
-  };
 
-  const spawnBackgroundParticle = () => {
-    // Background photons appear from random directions (ambient radiation)
-    const speed = 3 + Math.random(); 
-    let startX, startY, vx, vy;
-    
-    const edge = Math.floor(Math.random() * 4);
-    switch(edge) {
-        case 0: // Top
-            startX = Math.random() * CANVAS_WIDTH;
-            startY = -10;
-            vx = (Math.random() - 0.5) * speed;
-            vy = Math.random() * speed;
-            break;
-        case 1: // Right
-            startX = CANVAS_WIDTH + 10;
-            startY = Math.random() * CANVAS_HEIGHT;
-            vx = -Math.random() * speed;
-            vy = (Math.random() - 0.5) * speed;
-            break;
-        case 2: // Bottom
-            startX = Math.random() * CANVAS_WIDTH;
-            startY = CANVAS_HEIGHT + 10;
-            vx = (Math.random() - 0.5) * speed;
-            vy = -Math.random() * speed;
-            break;
-        case 3: // Left
-            startX = -10;
-            startY = Math.random() * CANVAS_HEIGHT;
-            vx = Math.random() * speed;
-            vy = (Math.random() - 0.5) * speed;
-            break;
-        default:
-            startX = 0; startY=0; vx=1; vy=1;
-    }
+    sampleCountsRef.current = () => sampleCounts();
+    if (restarted.size > 0) sampleCounts(restarted); // Immediate update on slide
 
-    const p: Particle = {
-        id: Math.random(),
-        x: startX!,
-        y: startY!,
-        vx: vx!,
-        vy: vy!,
-        type: 'background_photon',
-        life: 400, // Long life to cross screen
-        history: []
-    };
-    particlesRef.current.push(p);
-  };
-
-  const updateParticles = () => {
-    // Calculate detector position in pixels
-    const detectorX = PMMA_X + PMMA_VISUAL_THICKNESS + (distanceCm * PX_PER_CM);
-    const detectorYMin = CENTER_Y - DETECTOR_HEIGHT / 2;
-    const detectorYMax = CENTER_Y + DETECTOR_HEIGHT / 2;
+  }, [probeSetups, probes, countingTimeS, deadTimeCorrection, modelParams]);
 
-    particlesRef.current.forEach(p => {
-      p.x += p.vx;
-      p.y += p.vy;
 
-      // Update history for trails
-      p.history.push({x: p.x, y: p.y});
-      if (p.history.length > 10) {
-        p.history.shift();
+  // --- Simulation Loop (Visuals) ---
+  // Particle transport and drawing run in a worker where the browser allows it; the UI only
+  // forwards the set-up and collects the counts.
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const simulation = attachSimulation(canvasRef.current, particleSeedRef.current, stats => {
+      const hits = Object.entries(stats.detected);
+      if (hits.length > 0) {
+        hits.forEach(([id, n]) => {
+          countsRef.current[Number(id)] = (countsRef.current[Number(id)] ?? 0) + n;
+        });
+        setCounts({ ...countsRef.current });
       }
+      elapsedRef.current += stats.simulatedS;
+      setElapsedS(elapsedRef.current);
 
-      // Interaction with PMMA (Only for Source Betas)
-      if (p.type === 'beta' && 
-          p.x >= PMMA_X && 
-          p.x <= PMMA_X + PMMA_VISUAL_THICKNESS && 
-          p.y > CENTER_Y - PMMA_HEIGHT/2 && 
-          p.y < CENTER_Y + PMMA_HEIGHT/2) {
-        
-        // Beta -> Bremsstrahlung (Photon)
-        // Physics: Beta hits PMMA, stops, emits X-rays/Photons in various directions
-        p.type = 'photon';
-        p.history = []; // Clear trail so blue doesn't bleed into yellow
-        
-        // Scattering: Photons are emitted forward but with significant spread
-        const angle = (Math.random() - 0.5) * (Math.PI / 1.5); 
-        const speed = 4; // Photons constant speed
-        p.vx = Math.cos(angle) * speed;
-        p.vy = Math.sin(angle) * speed;
-      }
+      const exposure = exposureRef.current;
+      dosimeterRef.current = accumulateDose(dosimeterRef.current, exposure.rateUSvH, stats.simulatedS, exposure.sourceOpen);
+      setDosimeter(dosimeterRef.current);
 
-      // Interaction with Detector (Source Photons + Background Photons)
-      if (p.type === 'photon' || p.type === 'background_photon') {
-        if (
-          p.x >= detectorX &&
-          p.x <= detectorX + DETECTOR_WIDTH &&
-          p.y >= detectorYMin &&
-          p.y <= detectorYMax
-        ) {
-          // Hit!
-          countsRef.current += 1;
-          setCounts(countsRef.current);
-          p.life = 0; // Absorb particle
-        }
+      meterClockRef.current += stats.simulatedS;
+      while (meterClockRef.current >= SAMPLE_INTERVAL_S) {
+        sampleCountsRef.current();
+        meterClockRef.current -= SAMPLE_INTERVAL_S;
       }
+      setPerfStats(stats);
+    });
+    simulationRef.current = simulation;
+    return () => simulation.release();
+  }, []);
 
-      // Cleanup boundaries
-      if (p.x < -20 || p.x > CANVAS_WIDTH + 20 || p.y < -20 || p.y > CANVAS_HEIGHT + 20) {
-        p.life = 0;
-      }
+  const highlightedSlabId = dragTarget?.kind === 'slab' ? dragTarget.id : null;
+  useEffect(() => {
+    simulationRef.current?.configure({
+      setup,
+      probes,
+      selectedProbeId: selectedProbe.id,
+      showHeatmap,
+      isodoseLevels,
+      areaThresholds: showAreas ? regulatoryThresholds : null,
+      highlightedSlabId,
+      experimenter: { position: experimenter, alarm: dosimeterAlarming },
+      text: benchText,
+      units: benchUnits,
     });
+  }, [
+    setup, probes, selectedProbe.id, showHeatmap, isodoseLevels, showAreas, regulatoryThresholds, highlightedSlabId,
+    experimenter, dosimeterAlarming, benchText, benchUnits,
+  ]);
 
-    // Remove dead particles
-    particlesRef.current = particlesRef.current.filter(p => p.life > 0);
-  };
+  // --- Personal Dosimeter ---
+  useEffect(() => {
+    exposureRef.current = { rateUSvH: experimenterRate, sourceOpen };
+  }, [experimenterRate, sourceOpen]);
 
-  const drawHeatmap = (ctx: CanvasRenderingContext2D) => {
-    // Optimisation: Draw low-res blocks
-    const blockSize = 8;
-    const cols = Math.ceil(CANVAS_WIDTH / blockSize);
-    const rows = Math.ceil(CANVAS_HEIGHT / blockSize);
+  useEffect(() => {
+    alarmToneRef.current?.setSounding(alarmSoundOn && dosimeterAlarming);
+  }, [alarmSoundOn, dosimeterAlarming]);
 
-    for (let i = 0; i < cols; i++) {
-        for (let j = 0; j < rows; j++) {
-            const x = i * blockSize;
-            const y = j * blockSize;
-            
-            // Calculate field at center of block
-            let fieldValue = B_CONST;
-
-            if (sourceOpen) {
-                // Distance from PMMA Center (Source of Bremsstrahlung)
-                // PMMA is roughly the emission point for H(10) photons
-                const pmmaCenterX = PMMA_X + PMMA_VISUAL_THICKNESS / 2;
-                const pmmaCenterY = CENTER_Y;
-                
-                const dx = x - pmmaCenterX;
-                const dy = y - pmmaCenterY;
-                const distPx = Math.sqrt(dx*dx + dy*dy);
-                
-                // Convert to meters
-                const distM = Math.max(distPx / PX_PER_CM / 100, 0.01); // Avoid singularity
-                
-                const attenuation = Math.exp(-MU_CONST * distM);
-                const geometricLoss = distM * distM;
-                
-                // Add source component
-                fieldValue += (K_CONST * attenuation) / geometricLoss;
-            }
-
-            // Map value to Color (Heatmap)
-            // Scale: 0.15 (blue) -> ~5.0 (green) -> >20 (red)
-            // Logarithmic mapping helps visualize inverse square better
-            const logVal = Math.log10(fieldValue);
-            const minLog = Math.log10(B_CONST);
-            const maxLog = Math.log10(50); // Cap at reasonably high dose for visual
-            
-            let t = (logVal - minLog) / (maxLog - minLog);
-            t = Math.max(0, Math.min(1, t)); // Clamp 0-1
-            
-            // HSL: Blue (240) -> Cyan (180) -> Green (120) -> Yellow (60) -> Red (0)
-            const hue = 240 - (t * 240);
-            
-            ctx.fillStyle = `hsla(${hue}, 100%, 50%, 0.4)`;
-            ctx.fillRect(x, y, blockSize, blockSize);
-        }
-    }
-  };
+  useEffect(() => () => alarmToneRef.current?.close(), []);
 
-  const draw = (ctx: CanvasRenderingContext2D) => {
-    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  useEffect(() => {
+    simulationRef.current?.setTimeControl(timeControl);
+  }, [timeControl]);
 
-    // OPTIONAL: Draw Heatmap layer
-    if (showHeatmap) {
-        drawHeatmap(ctx);
-    }
+  // --- Handlers ---
 
-    // 0. Draw Floor Line
-    ctx.strokeStyle = '#333';
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-    ctx.moveTo(0, FLOOR_Y);
-    ctx.lineTo(CANVAS_WIDTH, FLOOR_Y);
-    ctx.stroke();
-
-    // 1. Draw "Percha" (Floor Stand) - Left Side
-    ctx.strokeStyle = '#aaa';
-    ctx.lineWidth = 5;
-    ctx.beginPath();
-    
-    // Base on floor
-    ctx.moveTo(SOURCE_X - 30, FLOOR_Y);
-    ctx.lineTo(SOURCE_X + 30, FLOOR_Y);
-    
-    // Vertical stand
-    ctx.moveTo(SOURCE_X, FLOOR_Y);
-    ctx.lineTo(SOURCE_X, CENTER_Y);
-    
-    // Holder Arm (Curve or clamp)
-    ctx.moveTo(SOURCE_X, CENTER_Y);
-    ctx.lineTo(SOURCE_X + 15, CENTER_Y); // Little arm holding source
-    ctx.stroke();
-
-    // 2. Draw Source (Sr-90 20MBq)
-    ctx.fillStyle = '#222';
-    // Housing
-    ctx.fillRect(SOURCE_X + 15, CENTER_Y - 8, 20, 16);
-    
-    // Active element
-    ctx.fillStyle = sourceOpen ? '#00ffaa' : '#333'; 
-    ctx.beginPath();
-    ctx.arc(SOURCE_X + 35, CENTER_Y, 4, 0, Math.PI * 2); 
-    ctx.fill();
-    
-    // Label Source
-    ctx.fillStyle = '#888';
-    ctx.font = '10px Inter';
-    ctx.fillText("Sr-90 (20 MBq)", SOURCE_X - 20, CENTER_Y - 20);
-
-    // 3. Draw PMMA (Target)
-    ctx.fillStyle = 'rgba(200, 230, 255, 0.3)'; // Glassy
-    ctx.strokeStyle = 'rgba(200, 230, 255, 0.6)';
-    ctx.lineWidth = 1;
-    
-    const pmmaTop = CENTER_Y - PMMA_HEIGHT / 2;
-    ctx.fillRect(PMMA_X, pmmaTop, PMMA_VISUAL_THICKNESS, PMMA_HEIGHT);
-    ctx.strokeRect(PMMA_X, pmmaTop, PMMA_VISUAL_THICKNESS, PMMA_HEIGHT);
-    
-    // Label PMMA
-    ctx.fillStyle = '#aaddee';
-    ctx.textAlign = 'center';
-    ctx.fillText("PMMA (5mm)", PMMA_X + 5, pmmaTop - 10);
-    
-    // Draw 10cm marker arrow
-    ctx.strokeStyle = '#555';
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    ctx.moveTo(SOURCE_X + 35, CENTER_Y + 50);
-    ctx.lineTo(PMMA_X, CENTER_Y + 50);
-    ctx.stroke();
-    ctx.fillStyle = '#555';
-    ctx.fillText(`${SOURCE_TO_PMMA_CM} cm`, SOURCE_X + 35 + ((PMMA_X - (SOURCE_X+35))/2), CENTER_Y + 65);
-
-    // 4. Draw Detector
-    const detectorX = PMMA_X + PMMA_VISUAL_THICKNESS + (distanceCm * PX_PER_CM);
-    const detectorTop = CENTER_Y - DETECTOR_HEIGHT / 2;
-
-    // Stand for detector
-    ctx.strokeStyle = '#444';
-    ctx.lineWidth = 3;
-    ctx.beginPath();
-    ctx.moveTo(detectorX + DETECTOR_WIDTH/2, FLOOR_Y);
-    ctx.lineTo(detectorX + DETECTOR_WIDTH/2, detectorTop + DETECTOR_HEIGHT);
-    ctx.stroke();
-
-    // Detector Head
-    ctx.fillStyle = '#222';
-    ctx.fillRect(detectorX, detectorTop, DETECTOR_WIDTH, DETECTOR_HEIGHT);
-    ctx.strokeStyle = '#666';
-    ctx.lineWidth = 2;
-    ctx.strokeRect(detectorX, detectorTop, DETECTOR_WIDTH, DETECTOR_HEIGHT);
-
-    // Sensor Face
-    ctx.fillStyle = '#114411';
-    ctx.fillRect(detectorX, detectorTop + 2, 4, DETECTOR_HEIGHT - 4);
-    
-    // Label Detector
-    ctx.fillStyle = '#fff';
-    ctx.fillText("Probe", detectorX + 15, detectorTop - 10);
-
-    // Distance Marker (from PMMA)
-    ctx.fillStyle = '#fff';
-    ctx.fillText(`${distanceCm} cm`, detectorX + 15, FLOOR_Y - 5);
-
-    // 5. Draw Particles (Only if heatmap is OFF)
-    if (!showHeatmap) {
-        particlesRef.current.forEach(p => {
-            if (p.type === 'beta') {
-            // Beta: Blue fast streaks with trail
-            if (p.history.length > 1) {
-                ctx.beginPath();
-                ctx.moveTo(p.x, p.y);
-                // Draw backward through history
-                for (let i = p.history.length - 1; i >= 0; i--) {
-                    ctx.lineTo(p.history[i].x, p.history[i].y);
-                }
-                ctx.strokeStyle = `rgba(0, 136, 255, ${p.life/200})`; 
-                ctx.lineWidth = 1.5;
-                ctx.stroke();
-            } else {
-                // Fallback for new particles
-                ctx.strokeStyle = '#0088ff';
-                ctx.lineWidth = 1.5;
-                ctx.beginPath();
-                ctx.moveTo(p.x - p.vx*1.5, p.y - p.vy*1.5); 
-                ctx.lineTo(p.x, p.y);
-                ctx.stroke();
-            }
-            } else if (p.type === 'photon') {
-            // Bremsstrahlung Photon: Yellow dots/waves with subtle trail
-            if (p.history.length > 1) {
-                ctx.beginPath();
-                ctx.moveTo(p.x, p.y);
-                for (let i = p.history.length - 1; i >= 0; i--) {
-                    ctx.lineTo(p.history[i].x, p.history[i].y);
-                }
-                ctx.strokeStyle = `rgba(255, 255, 0, ${p.life/400})`; // Very subtle yellow trail
-                ctx.lineWidth = 0.5;
-                ctx.stroke();
-            }
-
-            ctx.fillStyle = `rgba(255, 255, 0, ${p.life/100})`;
-            ctx.beginPath();
-            ctx.arc(p.x, p.y, 1.5, 0, Math.PI*2);
-            ctx.fill();
-            } else if (p.type === 'background_photon') {
-            // Background Photon: Trail
-            if (p.history.length > 1) {
-                ctx.beginPath();
-                ctx.moveTo(p.x, p.y);
-                for (let i = p.history.length - 1; i >= 0; i--) {
-                    ctx.lineTo(p.history[i].x, p.history[i].y);
-                }
-                ctx.strokeStyle = `rgba(255, 255, 100, ${p.life/500})`; // Faint trail
-                ctx.lineWidth = 0.5;
-                ctx.stroke();
-            }
-
-            ctx.fillStyle = `rgba(255, 255, 100, ${Math.min(0.8, p.life/100)})`;
-            ctx.beginPath();
-            ctx.arc(p.x, p.y, 1.5, 0, Math.PI*2);
-            ctx.fill();
-            }
-        });
-    }
+  // Pointer position along the bench, in cm from the target face
+  const cmFromPointer = useCallback((clientX: number) => {
+    if (!canvasRef.current) return 0;
+
+    const rect = canvasRef.current.getBoundingClientRect();
+    const canvasX = (clientX - rect.left) * (CANVAS_WIDTH / rect.width);
+    return (canvasX - layout.targetFaceX) / layout.pxPerCm;
+  }, [layout]);
+
+  const updateProbe = (id: number, changes: Partial<Probe>) => {
+    setProbes(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
   };
 
-  const tick = useCallback(() => {
-    // 1. Source Emissions
-    if (sourceOpen) {
-        // High emission rate for "20 MBq" simulation feel
-        for(let i=0; i<3; i++) spawnParticle(); 
-    }
-    
-    // 2. Background Emissions (Always active)
-    // ~0.3 probability per tick provides a nice sparse background
-    if (Math.random() < 0.3) {
-        spawnBackgroundParticle();
-    }
+  const updateSelectedProbe = (changes: Partial<Probe>) => updateProbe(selectedProbe.id, changes);
 
-    updateParticles();
-    
-    if (canvasRef.current) {
-      const ctx = canvasRef.current.getContext('2d');
-      if (ctx) draw(ctx);
-    }
-    requestRef.current = requestAnimationFrame(tick);
-  }, [distanceCm, sourceOpen, showHeatmap]);
+  // Farthest the probe may sit off the axis and stay on the canvas
+  const maxProbeOffsetFor = (pxPerCm: number) => Math.floor((CENTER_Y - 20) / pxPerCm);
+  const maxProbeOffsetCm = maxProbeOffsetFor(layout.pxPerCm);
 
-  useEffect(() => {
-    requestRef.current = requestAnimationFrame(tick);
-    return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+  const updateProbeFromPointer = useCallback((
+    id: number,
+    clientX: number,
+    clientY: number,
+    grabDxCm: number,
+    grabDyCm: number
+  ) => {
+    if (!canvasRef.current) return;
+
+    const rect = canvasRef.current.getBoundingClientRect();
+    const { dxCm, dyCm } = fieldOffsetAt(
+      layout,
+      (clientX - rect.left) * (CANVAS_WIDTH / rect.width),
+      (clientY - rect.top) * (CANVAS_HEIGHT / rect.height)
+    );
+    const position = {
+      distanceCm: Math.round(Math.min(Math.max(dxCm - grabDxCm, 0), geometry.maxDistanceCm)),
+      probeOffsetCm: Math.round(Math.min(Math.max(dyCm - grabDyCm, -maxProbeOffsetCm), maxProbeOffsetCm)),
     };
-  }, [tick]);
+    setProbes(prev => prev.map(p => (p.id === id ? { ...p, ...position } : p)));
+  }, [layout, geometry.maxDistanceCm, maxProbeOffsetCm]);
 
-  // --- Handlers ---
+  // Turns the window towards where the source photons start
+  const faceProbeToSource = () => {
+    updateSelectedProbe({
+      probeRotationDeg: Math.round(Math.atan2(probeOffsetCm, distanceCm + photonOrigin) * 180 / Math.PI),
+    });
+  };
+
+  const handleAddProbe = () => {
+    const next = addProbe(probes, maxProbeOffsetCm);
+    setProbes(next);
+    setSelectedProbeId(next[next.length - 1].id);
+  };
+
+  const handleRemoveProbe = () => {
+    if (probes.length <= 1) return;
+    const remaining = probes.filter(p => p.id !== selectedProbe.id);
+    if (polarRun?.probeId === selectedProbe.id) setPolarRun(null);
+    setProbes(remaining);
+    setSelectedProbeId(remaining[Math.max(0, selectedIndex - 1)].id);
+  };
 
-  const updateDistanceFromPointer = useCallback((clientX: number) => {
+  const updateExperimenterFromPointer = useCallback((clientX: number, clientY: number, grabDxCm: number, grabDyCm: number) => {
     if (!canvasRef.current) return;
 
     const rect = canvasRef.current.getBoundingClientRect();
-    const canvasX = (clientX - rect.left) * (CANVAS_WIDTH / rect.width);
-    const cmFromPMMA = (canvasX - (PMMA_X + PMMA_VISUAL_THICKNESS)) / PX_PER_CM;
+    const { dxCm, dyCm } = fieldOffsetAt(
+      layout,
+      (clientX - rect.left) * (CANVAS_WIDTH / rect.width),
+      (clientY - rect.top) * (CANVAS_HEIGHT / rect.height)
+    );
+    // Keep the whole figure on the bench, downstream of the target
+    const body = experimenterGeometry({ xCm: 0, yCm: 0 }, layout);
+    const minY = (16 + (body.y - body.top) - CENTER_Y) / layout.pxPerCm;
+    const maxY = (FLOOR_Y - (body.bottom - body.y) - CENTER_Y) / layout.pxPerCm;
+    setExperimenter({
+      xCm: Math.round(Math.min(Math.max(dxCm - grabDxCm, 0), geometry.maxDistanceCm)),
+      yCm: Math.round(Math.min(Math.max(dyCm - grabDyCm, minY), maxY)),
+    });
+  }, [layout, geometry.maxDistanceCm]);
 
-    const clamped = Math.min(Math.max(Math.round(cmFromPMMA), 0), MAX_DISTANCE_CM);
-    setDistanceCm(clamped);
-  }, []);
+  const updateSlabFromPointer = useCallback((clientX: number, id: number, grabOffsetCm: number) => {
+    const positionCm = Math.round((cmFromPointer(clientX) - grabOffsetCm) * 2) / 2;
+    setSlabs(prev => prev.map(s => (s.id === id ? clampSlab({ ...s, positionCm }, geometry.maxDistanceCm) : s)));
+  }, [cmFromPointer, geometry.maxDistanceCm]);
 
   const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!canvasRef.current) return;
@@ -488,25 +428,68 @@ const App: React.FC = () => {
     const canvasX = (e.clientX - rect.left) * (CANVAS_WIDTH / rect.width);
     const canvasY = (e.clientY - rect.top) * (CANVAS_HEIGHT / rect.height);
 
-    const detectorX = PMMA_X + PMMA_VISUAL_THICKNESS + (distanceCm * PX_PER_CM);
-    const detectorTop = CENTER_Y - DETECTOR_HEIGHT / 2;
+    // Hit test in each probe's own frame: depth from the window along its axis, height across it.
+    // The selected probe is drawn on top, so it is tried first, then the others topmost first.
+    const probeHit = [selectedProbe, ...probes.filter(p => p.id !== selectedProbe.id).reverse()].find(p => {
+      const position = probeCanvasPosition(p, layout);
+      const head = detectorGeometry(DETECTORS[p.detectorId], layout.pxPerCm);
+      const rotationRad = p.probeRotationDeg * Math.PI / 180;
+      const relX = canvasX - position.x;
+      const relY = canvasY - position.y;
+      const depth = relX * Math.cos(rotationRad) + relY * Math.sin(rotationRad);
+      const across = relY * Math.cos(rotationRad) - relX * Math.sin(rotationRad);
+      return depth >= -12 && depth <= head.housingWidth + 12 && Math.abs(across) <= head.housingHeight / 2 + 12;
+    });
+    if (probeHit) {
+      const { dxCm, dyCm } = fieldOffsetAt(layout, canvasX, canvasY);
+      setSelectedProbeId(probeHit.id);
+      setDragTarget({
+        kind: 'detector', id: probeHit.id, grabDxCm: dxCm - probeHit.distanceCm, grabDyCm: dyCm - probeHit.probeOffsetCm,
+      });
+      if (polarRun?.probeId === probeHit.id) setPolarRun(null); // Moving the probe by hand ends its polar scan
+      canvasRef.current.setPointerCapture(e.pointerId);
+      return;
+    }
 
-    const hitBoxXMin = detectorX - 12;
-    const hitBoxXMax = detectorX + DETECTOR_WIDTH + 12;
-    const hitBoxYMin = detectorTop - 12;
-    const hitBoxYMax = detectorTop + DETECTOR_HEIGHT + 12;
+    const body = experimenterGeometry(experimenter, layout);
+    if (canvasX >= body.left && canvasX <= body.right && canvasY >= body.top && canvasY <= body.bottom) {
+      const { dxCm, dyCm } = fieldOffsetAt(layout, canvasX, canvasY);
+      setDragTarget({ kind: 'experimenter', grabDxCm: dxCm - experimenter.xCm, grabDyCm: dyCm - experimenter.yCm });
+      canvasRef.current.setPointerCapture(e.pointerId);
+      return;
+    }
 
-    const isHit = canvasX >= hitBoxXMin && canvasX <= hitBoxXMax && canvasY >= hitBoxYMin && canvasY <= hitBoxYMax;
-    if (isHit) {
-      setIsDraggingDetector(true);
+    // Slabs are thin, so their hit box is padded; the topmost (last drawn) wins
+    const slabHit = [...slabs].reverse().find(slab => {
+      const slabRect = slabGeometry(slab, layout);
+      return canvasX >= slabRect.x - 6 && canvasX <= slabRect.x + slabRect.visualWidth + 6 &&
+             canvasY >= slabRect.top && canvasY <= slabRect.top + slabRect.height;
+    });
+    if (slabHit) {
+      setDragTarget({ kind: 'slab', id: slabHit.id, grabOffsetCm: cmFromPointer(e.clientX) - slabHit.positionCm });
       canvasRef.current.setPointerCapture(e.pointerId);
-      updateDistanceFromPointer(e.clientX);
     }
   };
 
+  // Dose-rate readout under the cursor while the heatmap is shown
+  const updateHoverDose = (clientX: number, clientY: number) => {
+    if (!canvasRef.current) return;
+
+    const rect = canvasRef.current.getBoundingClientRect();
+    const x = (clientX - rect.left) * (CANVAS_WIDTH / rect.width);
+    const y = (clientY - rect.top) * (CANVAS_HEIGHT / rect.height);
+    const { dxCm, dyCm } = fieldOffsetAt(layout, x, y);
+    setHoverDose({ x, y, doseRate: fieldDoseRate(setup, modelParams, dxCm, dyCm) });
+  };
+
   const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
-    if (isDraggingDetector) {
-      updateDistanceFromPointer(e.clientX);
+    if (showHeatmap) updateHoverDose(e.clientX, e.clientY);
+    if (dragTarget?.kind === 'detector') {
+      updateProbeFromPointer(dragTarget.id, e.clientX, e.clientY, dragTarget.grabDxCm, dragTarget.grabDyCm);
+    } else if (dragTarget?.kind === 'slab') {
+      updateSlabFromPointer(e.clientX, dragTarget.id, dragTarget.grabOffsetCm);
+    } else if (dragTarget?.kind === 'experimenter') {
+      updateExperimenterFromPointer(e.clientX, e.clientY, dragTarget.grabDxCm, dragTarget.grabDyCm);
     }
   };
 
@@ -514,15 +497,133 @@ const App: React.FC = () => {
     if (canvasRef.current?.hasPointerCapture(e.pointerId)) {
       canvasRef.current.releasePointerCapture(e.pointerId);
     }
-    setIsDraggingDetector(false);
+    setDragTarget(null);
+  };
+
+  const handleGeometryChange = (next: LabGeometry) => {
+    setGeometry(next);
+    const nextMaxOffset = maxProbeOffsetFor(computeLayout(next, CANVAS_WIDTH, CANVAS_HEIGHT).pxPerCm);
+    setProbes(prev => prev.map(p => ({
+      ...p,
+      distanceCm: Math.min(p.distanceCm, next.maxDistanceCm),
+      probeOffsetCm: Math.min(Math.max(p.probeOffsetCm, -nextMaxOffset), nextMaxOffset),
+    })));
+    setSlabs(prev => prev.map(s => clampSlab(s, next.maxDistanceCm)));
+    setExperimenter(prev => ({ ...prev, xCm: Math.min(prev.xCm, next.maxDistanceCm) }));
+    simulationRef.current?.clearParticles();
   };
 
-  const handleReset = () => {
-    setCounts(0);
-    countsRef.current = 0;
-    particlesRef.current = [];
+  // Clears the counters and particles and restarts every random stream from the seed
+  const restartRun = (runSeed: number) => {
+    setCounts({});
+    countsRef.current = {};
+    elapsedRef.current = 0;
+    meterClockRef.current = 0;
+    setElapsedS(0);
+    Object.values<CountWindow>(countWindowsRef.current).forEach(countWindow => {
+      countWindow.samples = [];
+    });
+    particleSeedRef.current = runSeed;
+    simulationRef.current?.reset(runSeed);
+    resetDosimeter();
+    meterRandomRef.current = createRandom(runSeed, 'rateMeter');
+  };
+
+  const handleReset = () => restartRun(seed);
+
+  const resetDosimeter = () => {
+    dosimeterRef.current = EMPTY_DOSIMETER;
+    setDosimeter(EMPTY_DOSIMETER);
+  };
+
+  // The audio context has to be created inside the click that enables sound
+  const handleAlarmSoundChange = (on: boolean) => {
+    if (on && !alarmToneRef.current) alarmToneRef.current = createAlarmTone();
+    setAlarmSoundOn(on);
+  };
+
+  const handleSeedChange = (next: number) => {
+    const normalised = normaliseSeed(next);
+    setSeed(normalised);
+    restartRun(normalised);
+  };
+
+  // Every probe's reading at the same instant, one row each
+  const handleRecordReading = () => {
+    const timestamp = new Date().toISOString();
+    const recorded = probes.map((probe): Measurement => {
+      const probeReading = readings[probe.id] ?? EMPTY_READING;
+      return {
+        id: nextMeasurementIdRef.current++,
+        timestamp,
+        probeLabel: probe.label,
+        distanceCm: Math.round(probeDistanceCm(probe) * 10) / 10,
+        angleDeg: Math.round(probeAngleDeg(probe)),
+        sourceOpen,
+        detectorId: probe.detectorId,
+        doseRate: probeReading.doseRate,
+        doseRateError: probeReading.doseRateError,
+        integrationTimeS: probeReading.timeS,
+        counts: countsRef.current[probe.id] ?? 0,
+        countingTimeS: elapsedRef.current,
+        bench: readingBench(setup),
+        photonOriginCm: photonOrigin,
+      };
+    });
+    setMeasurements(prev => [...prev, ...recorded]);
   };
 
+  const handleDeleteMeasurement = (id: number) => {
+    setMeasurements(prev => prev.filter(m => m.id !== id));
+  };
+
+  // Everything the report shows, with the bench and the plot captured as they are right now
+  const buildLabReport = async (meta: LabReportMeta): Promise<LabReportInput> => {
+    const snapshot = simulationRef.current ? await simulationRef.current.snapshot() : null;
+    return {
+      meta,
+      createdAt: new Date(),
+      setup,
+      probes,
+      certificate: sourceCertificate,
+      activityDate,
+      countingTimeS,
+      deadTimeCorrection,
+      seed,
+      measurements,
+      fixedParams,
+      units,
+      benchImage: snapshot ? await blobToDataUrl(snapshot) : null,
+      chartSvg: dosePlotSvgRef.current ? serialiseChart(dosePlotSvgRef.current) : null,
+    };
+  };
+
+  // --- Polar Scan ---
+  // The selected probe does the scan; the others keep counting where they are
+  const startPolarScan = () => {
+    const angles = polarScanAngles(polarScan);
+    polarSeenReadingRef.current = readings[selectedProbe.id] ?? null; // Taken before the probe moved
+    setPolarPoints([]);
+    setPolarRun({ probeId: selectedProbe.id, angles });
+    updateSelectedProbe(polarScanPlacement(polarScan.radiusCm, angles[0]));
+  };
+
+  // Moving the probe restarts its counting window, but the restarted reading only arrives on a later render;
+  // readings seen before a move are skipped so one taken at the previous angle is never recorded at the new one
+  useEffect(() => {
+    const scanReading = polarRun && readings[polarRun.probeId];
+    if (!scanReading || scanReading === polarSeenReadingRef.current) return;
+    if (scanReading.timeS < countingTimeS - 1e-9) return;
+    polarSeenReadingRef.current = scanReading;
+    const [angleDeg, ...rest] = polarRun.angles;
+    setPolarPoints(prev => [
+      ...prev,
+      { angleDeg, doseRate: scanReading.doseRate, doseRateError: scanReading.doseRateError },
+    ]);
+    setPolarRun(rest.length > 0 ? { ...polarRun, angles: rest } : null);
+    if (rest.length > 0) updateProbe(polarRun.probeId, polarScanPlacement(polarScan.radiusCm, rest[0]));
+  }, [readings, polarRun, countingTimeS, polarScan.radiusCm]);
+
   return (
     <div className="min-h-screen text-gray-100 flex flex-col font-sans">
       <Header />
@@ -531,25 +632,75 @@ const App: React.FC = () => {
         
         {/* Left Column: Simulation Canvas */}
         <div className="flex-grow w-full xl:w-2/3 bg-black/40 border border-gray-700 rounded-xl overflow-hidden shadow-2xl relative backdrop-blur-sm flex flex-col">
-            <div className="absolute top-4 right-4 z-10 bg-gray-900/90 p-4 rounded-lg border border-gray-500 shadow-lg min-w-[160px]">
-                <div className="text-xs text-gray-400 uppercase tracking-wider mb-1">Dose Rate (H*(10))</div>
-                <div className="text-3xl font-mono text-yellow-400 font-bold tracking-tighter">
-                  {doseRate} <span className="text-sm font-normal text-gray-400">µSv/h</span>
-                </div>
-                <div className="text-xs text-gray-500 mt-2 pt-2 border-t border-gray-800">
-                   Particles Detected: {counts}
-                </div>
+            {/* One readout per probe; clicking one selects that probe */}
+            <div className="absolute top-4 right-4 z-10 flex flex-col gap-2 max-h-[calc(100%-2rem)] overflow-y-auto">
+              {probeSetups.map((ps, i) => {
+                const probe = probes[i];
+                const probeReading = readings[probe.id] ?? EMPTY_READING;
+                const { doseRate } = displayUnits(units, DETECTORS[probe.detectorId]);
+                const area = classifyDoseRate(sourceOpen ? setupSourceDose(ps, modelParams) : 0, regulatoryThresholds);
+                const compact = probes.length > 1;
+                return (
+                  <div
+                    key={probe.id}
+                    onClick={() => setSelectedProbeId(probe.id)}
+                    className={`bg-gray-900/90 ${compact ? 'p-3' : 'p-4'} rounded-lg border shadow-lg min-w-[160px] cursor-pointer`}
+                    style={{ borderColor: compact && probe.id === selectedProbe.id ? probeColor(i) : '#6b7280' }}
+                  >
+                    <div className="text-xs text-gray-400 uppercase tracking-wider mb-1">
+                      {compact && <span className="font-bold mr-1" style={{ color: probeColor(i) }}>{probe.label}</span>}
+                      {t(`readout.quantity.${doseRate.quantity}`)}
+                    </div>
+                    <div className={`${compact ? 'text-xl' : 'text-3xl'} font-mono text-yellow-400 font-bold tracking-tighter`}>
+                      {i18n.fixed(probeReading.doseRate * doseRate.perUSvH, doseRate.digits)}{' '}
+                      <span className="text-sm font-normal text-gray-400">{doseRate.symbol}</span>
+                    </div>
+                    <div className="text-xs font-mono text-gray-400">
+                      ± {i18n.fixed(probeReading.doseRateError * doseRate.perUSvH, doseRate.digits)} ({t('readout.counts', {
+                        counts: String(probeReading.counts), time: i18n.fixed(probeReading.timeS, 1),
+                      })})
+                    </div>
+                    <div className="text-xs text-gray-500 mt-2 pt-2 border-t border-gray-800">
+                       {t('readout.particles', { count: String(counts[probe.id] ?? 0) })}{' '}
+                       <span className="font-mono">{t('readout.in', { time: i18n.fixed(elapsedS, 1) })}</span>
+                       <span className="float-right font-mono">{t('readout.seed', { seed: String(seed) })}</span>
+                    </div>
+                    <div className="text-xs mt-1 font-semibold" style={{ color: AREA_CLASS_COLORS[area] }}>
+                       {t(`area.${area}`)}
+                       <span className="font-normal text-gray-500"> · {t(`preset.${regulation.id}`)}</span>
+                    </div>
+                  </div>
+                );
+              })}
             </div>
 
+            {/* Performance Overlay (debugging) */}
+            {showPerfOverlay && perfStats && (
+                <div className="absolute top-4 left-4 z-10 bg-gray-900/80 px-3 py-2 rounded border border-gray-700 text-[11px] font-mono text-gray-300 leading-relaxed pointer-events-none">
+                    <div>{t('perf.frame', { fps: i18n.fixed(perfStats.fps, 0), ms: i18n.fixed(perfStats.frameMs, 1) })}</div>
+                    <div>{t('perf.particles', { particles: String(perfStats.particles), budget: String(perfStats.budget) })}</div>
+                    <div className="text-gray-500">{t(simulationRef.current?.inWorker ? 'perf.worker' : 'perf.mainThread')}</div>
+                </div>
+            )}
+
              {/* Heatmap Legend (Only visible if heatmap is on) */}
              {showHeatmap && (
-                <div className="absolute bottom-20 right-4 z-10 bg-gray-900/80 p-3 rounded border border-gray-700 backdrop-blur text-xs flex flex-col gap-2">
-                    <div className="text-gray-300 font-bold mb-1">Dose Intensity</div>
-                    <div className="h-24 w-4 rounded-full bg-gradient-to-t from-[hsl(240,100%,50%)] via-[hsl(120,100%,50%)] to-[hsl(0,100%,50%)] mx-auto"></div>
-                    <div className="flex flex-col justify-between h-24 absolute left-10 top-8 text-[10px] text-gray-400">
-                        <span>High</span>
-                        <span>Low</span>
-                    </div>
+                <div className="absolute bottom-20 right-4 z-10">
+                    <HeatmapLegend isodoseLevels={isodoseLevels} doseRate={benchUnits.doseRate} />
+                </div>
+            )}
+
+            {/* Dose at the cursor */}
+            {showHeatmap && hoverDose && (
+                <div
+                    className="absolute z-20 pointer-events-none bg-gray-900/90 border border-gray-600 rounded px-2 py-1 text-[11px] font-mono text-yellow-300 whitespace-nowrap"
+                    style={{
+                        left: `${(hoverDose.x / CANVAS_WIDTH) * 100}%`,
+                        top: `${(hoverDose.y / CANVAS_HEIGHT) * 100}%`,
+                        transform: `translate(${hoverDose.x > CANVAS_WIDTH / 2 ? 'calc(-100% - 12px)' : '12px'}, -50%)`,
+                    }}
+                >
+                    {formatDoseLevel(hoverDose.doseRate * benchUnits.doseRate.perUSvH, i18n)} {benchUnits.doseRate.symbol}
                 </div>
             )}
 
@@ -562,18 +713,34 @@ const App: React.FC = () => {
                 onPointerMove={handlePointerMove}
                 onPointerUp={stopDragging}
                 onPointerCancel={stopDragging}
-                onPointerLeave={stopDragging}
+                onPointerLeave={(e) => { stopDragging(e); setHoverDose(null); }}
             />
             
             <div className="p-4 bg-gray-900/50 border-t border-gray-800 grid grid-cols-1 md:grid-cols-2 gap-2 text-xs text-gray-500 font-mono">
                 <div>
-                  <span className="block text-gray-400 font-bold mb-1">FORMULA</span>
-                  H*(d) = K · e^(-μd) / d² + b
+                  <span className="block text-gray-400 font-bold mb-1">{t('footer.formula')}</span>
+                  {modelFormula(setup)}
+                  {gammaSource && (
+                    <span className="block mt-1">
+                      {t('footer.origin', { origin: formatLength(photonOrigin), isotope: isotope.name })}
+                    </span>
+                  )}
+                  {(slabs.length > 0 || gammaSource) && (
+                    <span className="block mt-1">
+                      {t(gammaSource ? 'footer.targetTransmission' : 'footer.slabTransmission', {
+                        percent: i18n.fixed(sourceTransmission(setup, distanceCm, probeOffsetCm) * 100, 1),
+                      })}
+                    </span>
+                  )}
+
                 </div>
                 <div className="md:text-right">
-                   <span className="block text-blue-400/80">K = {K_CONST.toFixed(3)} ± {K_ERROR} m²·µSv/h</span>
-                   <span className="block text-blue-400/80">μ = {MU_CONST} m⁻¹</span>
-                   <span className="block text-blue-400/80">b = {B_CONST} µSv/h (Background)</span>
+                   <span className="block text-blue-400/80">
+                     K = {i18n.fixed(modelParams.K * modelFactors.K, benchUnits.doseRate.digits)} ± {
+                       i18n.fixed(setupKError(setup) * modelFactors.K, benchUnits.doseRate.digits)} {modelUnits.K}
+                   </span>
+                   <span className="block text-blue-400/80">μ = {i18n.significant(modelParams.mu * modelFactors.mu, 2, true)} {modelUnits.mu}</span>
+                   <span className="block text-blue-400/80">b = {i18n.number(B_CONST * modelFactors.b)} {modelUnits.b} {t('footer.background')}</span>
                 </div>
             </div>
         </div>
@@ -588,39 +755,283 @@ const App: React.FC = () => {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                     </svg>
-                    Lab Controls
+                    {t('controls.title')}
                 </h2>
 
+                <div className="mb-6 flex flex-col gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                        {probes.map((probe, i) => (
+                            <button
+                                key={probe.id}
+                                onClick={() => setSelectedProbeId(probe.id)}
+                                className={`text-sm font-mono py-1 px-3 rounded border transition-colors ${
+                                    probe.id === selectedProbe.id ? 'bg-gray-700 text-white' : 'bg-gray-900/40 text-gray-400 hover:bg-gray-700/60'
+                                }`}
+                                style={{ borderColor: probeColor(i) }}
+                            >
+                                {probe.label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleAddProbe}
+                            disabled={probes.length >= MAX_PROBES}
+                            className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-3 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            {t('controls.addProbe')}
+                        </button>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                            <span>{t('controls.label')}</span>
+                            <input
+                                type="text"
+                                maxLength={12}
+                                value={selectedProbe.label}
+                                onChange={(e) => updateSelectedProbe({ label: e.target.value })}
+                                className="w-24 bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-gray-200"
+                            />
+                        </label>
+                        <button
+                            onClick={handleRemoveProbe}
+                            disabled={probes.length <= 1}
+                            className="text-xs bg-red-500/20 text-red-300 border border-red-500/50 hover:bg-red-500/30 py-1 px-2 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                            {t('controls.removeProbe')}
+                        </button>
+                    </div>
+                </div>
+
                 <div className="mb-8">
                     <label className="flex justify-between text-sm font-medium text-gray-300 mb-4">
-                        <span>Detector Position (d from PMMA)</span>
-                        <span className="text-blue-400 font-mono">{distanceCm} cm</span>
+                        <span>{t('controls.position')}</span>
+                        <span className="text-blue-400 font-mono">{formatLength(distanceCm)}</span>
                     </label>
                     <input
                         type="range"
                         min="0"
-                        max={MAX_DISTANCE_CM}
+                        max={geometry.maxDistanceCm}
                         value={distanceCm}
-                        onChange={(e) => setDistanceCm(parseInt(e.target.value))}
+                        onChange={(e) => updateSelectedProbe({ distanceCm: parseInt(e.target.value) })}
                         className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
                     />
                     <div className="flex justify-between text-xs text-gray-500 mt-2 font-mono">
-                        <span>| 0 cm</span>
-                        <span>| 75 cm</span>
-                        <span>| 150 cm</span>
+                        <span>| {formatLength(0)}</span>
+                        <span>| {formatLength(geometry.maxDistanceCm / 2)}</span>
+                        <span>| {formatLength(geometry.maxDistanceCm)}</span>
+                    </div>
+
+                    <label className="flex justify-between text-sm font-medium text-gray-300 mt-4 mb-2">
+                        <span>{t('controls.offset')}</span>
+                        <span className="text-blue-400 font-mono">{formatLength(probeOffsetCm)}</span>
+                    </label>
+                    <input
+                        type="range"
+                        min={-maxProbeOffsetCm}
+                        max={maxProbeOffsetCm}
+                        value={probeOffsetCm}
+                        onChange={(e) => updateSelectedProbe({ probeOffsetCm: parseInt(e.target.value) })}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+
+                    <label className="flex justify-between items-center text-sm font-medium text-gray-300 mt-4 mb-2">
+                        <span>{t('controls.rotation')}</span>
+                        <span className="flex items-center gap-2">
+                            <button
+                                onClick={faceProbeToSource}
+                                className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-0.5 px-2 rounded transition-colors"
+                            >
+                                {t('controls.faceSource')}
+                            </button>
+                            <span className="text-blue-400 font-mono w-12 text-right">{probeRotationDeg}°</span>
+                        </span>
+                    </label>
+                    <input
+                        type="range"
+                        min="-180"
+                        max="180"
+                        value={probeRotationDeg}
+                        onChange={(e) => updateSelectedProbe({ probeRotationDeg: parseInt(e.target.value) })}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                    <div className="text-xs text-gray-500 mt-2 font-mono">
+                        {t('controls.polar', {
+                            distance: `${i18n.fixed(probeDistance * lengthUnit.perCm, lengthUnit.digits)} ${lengthUnit.symbol}`,
+                            angle: i18n.fixed(probeAngleDeg(setup), 0),
+                            incidence: i18n.fixed(probeIncidence, 0),
+                        })}
                     </div>
                 </div>
 
                 <div className="flex flex-col gap-3">
-                     <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 mb-2">
-                        <span className="text-sm font-medium text-gray-300">View Mode</span>
+                     <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                        <span className="text-sm font-medium text-gray-300">{t('controls.targetMaterial')}</span>
+                        <select
+                            value={targetMaterialId}
+                            onChange={(e) => { setTargetMaterialId(e.target.value as MaterialId); simulationRef.current?.clearParticles(); }}
+                            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                        >
+                            {MATERIAL_LIST.map(m => (
+                                <option key={m.id} value={m.id}>
+                                    {m.name} (Z≈{i18n.number(m.effectiveZ)}, {i18n.number(m.density)} g/cm³)
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                     <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                        <span className="text-sm font-medium text-gray-300">{t('controls.countingTime')}</span>
+                        <select
+                            value={countingTimeS}
+                            onChange={(e) => setCountingTimeS(parseInt(e.target.value))}
+                            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm font-mono text-gray-200"
+                        >
+                            {COUNTING_TIME_OPTIONS_S.map(s => <option key={s} value={s}>{i18n.number(s)} s</option>)}
+                        </select>
+                    </div>
+
+                    <div className="flex flex-col gap-2 bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-300">{t('controls.detector')}</span>
+                            <select
+                                value={detectorId}
+                                onChange={(e) => updateSelectedProbe({ detectorId: e.target.value as DetectorId })}
+                                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                            >
+                                {DETECTOR_LIST.map(d => <option key={d.id} value={d.id}>{t(`detector.${d.id}`)}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-300">{t('controls.deadTime')}</span>
+                            <select
+                                value={deadTimeCorrection}
+                                onChange={(e) => setDeadTimeCorrection(e.target.value as DeadTimeCorrectionMode)}
+                                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                            >
+                                <option value="none">{t('deadTime.none')}</option>
+                                <option value="non-paralyzable">{t('deadTime.non-paralyzable')}</option>
+                                <option value="paralyzable">{t('deadTime.paralyzable')}</option>
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-3 gap-2 text-[11px] font-mono text-gray-500">
+                            <span>ε = {i18n.fixed(detector.intrinsicEfficiency * 100, 0)}%</span>
+                            <span>τ = {i18n.fixed(detector.deadTimeS * 1e6, 0)} µs</span>
+                            <span>
+                                {i18n.number(detector.sensitiveWidthCm * lengthUnit.perCm, lengthUnit.digits + 1)}×{formatLength(detector.sensitiveHeightCm, lengthUnit.digits + 1)}
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col gap-2 bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-300">{t('controls.doseRateUnit')}</span>
+                            <select
+                                value={units.doseRate}
+                                onChange={(e) => setUnits({ ...units, doseRate: e.target.value as DoseRateUnitId })}
+                                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                            >
+                                {DOSE_RATE_UNIT_IDS.map(id => <option key={id} value={id}>{t(`units.${id}`)}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-300">{t('controls.distanceUnit')}</span>
+                            <select
+                                value={units.distance}
+                                onChange={(e) => setUnits({ ...units, distance: e.target.value as DistanceUnitId })}
+                                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                            >
+                                {DISTANCE_UNIT_IDS.map(id => <option key={id} value={id}>{t(`units.${id}`)}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <CountingPlanner
+                        grossCps={observedCountRate(detector, probeResponseDose(setup, modelParams), B_CONST, sourcePhotonEnergyKeV(setup))}
+                        backgroundCps={observedCountRate(detector, 0, B_CONST)}
+                    />
+
+                     <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                        <span className="text-sm font-medium text-gray-300">{t('controls.viewMode')}</span>
                         <label className="inline-flex items-center cursor-pointer">
                             <input type="checkbox" checked={showHeatmap} onChange={() => setShowHeatmap(!showHeatmap)} className="sr-only peer" />
                             <div className="relative w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500 rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
-                            <span className="ms-3 text-sm font-medium text-gray-400">{showHeatmap ? "Heatmap" : "Particles"}</span>
+                            <span className="ms-3 text-sm font-medium text-gray-400">{t(showHeatmap ? 'controls.heatmap' : 'controls.particles')}</span>
                         </label>
                     </div>
 
+                    {showHeatmap && (
+                        <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                            <span className="text-sm font-medium text-gray-300">{t('controls.isodose', { unit: benchUnits.doseRate.symbol })}</span>
+                            <input
+                                type="text"
+                                value={isodoseInput.text}
+                                onChange={(e) => setIsodoseInput({ text: e.target.value, decimalComma, perUSvH: isodosePerUSvH })}
+                                placeholder={t('controls.isodoseNone')}
+                                className="w-40 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-sm font-mono text-gray-200"
+                                title={t('controls.isodoseHint', { example: formatIsodoseLevels([0.5, 1, 2.5, 10], i18n) })}
+                            />
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                        <span className="text-sm font-medium text-gray-300">{t('controls.perfOverlay')}</span>
+                        <input
+                            type="checkbox"
+                            checked={showPerfOverlay}
+                            onChange={() => setShowPerfOverlay(!showPerfOverlay)}
+                            className="h-4 w-4 accent-blue-500"
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 mb-2">
+                        <span className="text-sm font-medium text-gray-300">{t('controls.seed')}</span>
+                        <span className="flex items-center gap-2">
+                            <NumberField
+                                min={0}
+                                max={MAX_SEED}
+                                step={1}
+                                value={seed}
+                                onCommit={handleSeedChange}
+                                className="w-32 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-sm font-mono text-gray-200"
+                                title={t('controls.seedHint')}
+                            />
+                            <button
+                                onClick={() => handleSeedChange(randomSeed())}
+                                className="bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-2 rounded text-sm transition-colors"
+                                aria-label={t('controls.newSeed')}
+                            >
+                                🎲
+                            </button>
+                        </span>
+                    </div>
+
+                    <div className="flex items-center justify-between bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 mb-2">
+                        <span className="text-sm font-medium text-gray-300">{t('controls.clock')}</span>
+                        <span className="flex items-center gap-2">
+                            <button
+                                onClick={() => setTimeControl(prev => ({ ...prev, paused: !prev.paused }))}
+                                className="bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-2 rounded text-sm transition-colors w-20"
+                            >
+                                {timeControl.paused ? `▶ ${t('controls.run')}` : `⏸ ${t('controls.pause')}`}
+                            </button>
+                            <button
+                                onClick={() => simulationRef.current?.stepOnce()}
+                                disabled={!timeControl.paused}
+                                className="bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-2 rounded text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                title={t('controls.stepHint')}
+                            >
+                                {t('controls.step')}
+                            </button>
+                            <select
+                                value={timeControl.speed}
+                                onChange={(e) => setTimeControl(prev => ({ ...prev, speed: parseFloat(e.target.value) }))}
+                                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm font-mono text-gray-200"
+                                aria-label={t('controls.speed')}
+                            >
+                                {SPEED_OPTIONS.map(v => <option key={v} value={v}>{i18n.number(v)}×</option>)}
+                            </select>
+                        </span>
+                    </div>
+
                     <div className="flex gap-3">
                         <button 
                             onClick={() => setSourceOpen(!sourceOpen)}
@@ -630,17 +1041,127 @@ const App: React.FC = () => {
                                 : 'bg-red-500/20 text-red-300 border border-red-500/50 hover:bg-red-500/30'
                             }`}
                         >
-                            {sourceOpen ? '● Source OPEN' : '○ Source SHIELDED'}
+                            {sourceOpen ? `● ${t('controls.sourceOpen')}` : `○ ${t('controls.sourceShielded')}`}
                         </button>
                         <button 
                             onClick={handleReset}
                             className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-3 px-4 rounded-lg font-semibold transition-colors"
                         >
-                            Reset
+                            {t('common.reset')}
                         </button>
                     </div>
                 </div>
             </div>
+
+            <SourcePanel
+                isotopeId={isotopeId}
+                certificate={sourceCertificate}
+                onDate={activityDate}
+                onIsotopeChange={setIsotopeId}
+                onCertificateChange={setSourceCertificate}
+                onDateChange={setActivityDate}
+            />
+
+            <GeometrySettings
+                geometry={geometry}
+                targetMaterial={targetMaterial}
+                onChange={handleGeometryChange}
+                distance={lengthUnit}
+            />
+
+            <ShieldingPanel
+                slabs={slabs}
+                maxDistanceCm={geometry.maxDistanceCm}
+                photonEnergyKeV={sourcePhotonEnergyKeV(setup)}
+                onChange={setSlabs}
+                distance={lengthUnit}
+            />
+
+            <AreaClassificationPanel
+                enabled={showAreas}
+                preset={regulation}
+                onEnabledChange={setShowAreas}
+                onPresetChange={setRegulation}
+                units={units}
+            />
+
+            <DosimeterPanel
+                reading={dosimeter}
+                rateUSvH={experimenterRate}
+                distanceCm={Math.hypot(experimenter.xCm + photonOrigin, experimenter.yCm)}
+                rateAtDoubleDistanceUSvH={experimenterDoseRate(setup, modelParams, {
+                  xCm: 2 * (experimenter.xCm + photonOrigin) - photonOrigin,
+                  yCm: experimenter.yCm * 2,
+                })}
+                shieldingTransmission={sourceTransmission(setup, experimenter.xCm, experimenter.yCm)}
+                alarms={dosimeterAlarms}
+                alarm={dosimeterAlarm}
+                soundOn={alarmSoundOn}
+                onAlarmsChange={setDosimeterAlarms}
+                onSoundChange={handleAlarmSoundChange}
+                onReset={resetDosimeter}
+                units={units}
+            />
+
+            <DosePlot
+                params={modelParams}
+                measurements={measurements}
+                distanceCm={probeDistance}
+                maxDistanceCm={geometry.maxDistanceCm}
+                sourceOpen={sourceOpen}
+                transmissionAt={transmissionAt}
+                originCm={photonOrigin}
+                svgRef={dosePlotSvgRef}
+                units={benchUnits}
+                unitSettings={units}
+            />
+
+            <PolarScanPanel
+                setup={setup}
+                params={modelParams}
+                settings={polarScan}
+                points={polarPoints}
+                remaining={polarRun ? polarRun.angles.length : null}
+                countingTimeS={countingTimeS}
+                onSettingsChange={setPolarScan}
+                onStart={startPolarScan}
+                onStop={() => setPolarRun(null)}
+                onClear={() => setPolarPoints([])}
+                units={benchUnits}
+            />
+
+            <AnalysisPanel
+                providers={ANALYSIS_PROVIDERS}
+                probeLabel={selectedProbe.label}
+                getContext={() => readingContext(setup, selectedProbe.label, reading, countingTimeS, deadTimeCorrection)}
+            />
+
+            <MeasurementLog
+                measurements={measurements}
+                onRecord={handleRecordReading}
+                onDelete={handleDeleteMeasurement}
+                units={units}
+            />
+
+            <FitPanel
+                measurements={measurementsForSetup(measurements, setup)}
+                totalReadings={measurements.length}
+                referenceParams={modelParams}
+                referenceKError={setupKError(setup)}
+                fixedParams={fixedParams}
+                onFixedParamsChange={setFixedParams}
+                units={benchUnits}
+            />
+
+            <LabReportPanel
+                measurementCount={measurements.length}
+                buildReport={buildLabReport}
+            />
+
+            <RecordingPanel
+                simulation={() => simulationRef.current}
+                overlayLines={() => overlayLinesRef.current}
+            />
         </div>
       </main>
     </div>
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ * @vitest-environment jsdom
+*/
+
+import React from 'react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { AnalysisOptions, AnalysisProvider, readingContext, streamChunks } from '../services/labAssistant';
+import { createMockProvider } from '../services/mockAnalysisProvider';
+import { REFERENCE_SETUP } from '../services/simulation';
+import AnalysisPanel from './AnalysisPanel';
+import I18nProvider from './I18nProvider';
+
+const context = readingContext(REFERENCE_SETUP, 'A', { doseRate: 1, doseRateError: 0.1, counts: 50, timeS: 10 }, 10, 'none');
+
+const renderPanel = (provider: AnalysisProvider) =>
+  render(
+    <I18nProvider>
+      <AnalysisPanel providers={[provider]} probeLabel="A" getContext={() => context} />
+    </I18nProvider>
+  );
+
+const start = () => fireEvent.click(screen.getByRole('button', { name: 'Analyse reading' }));
+
+afterEach(cleanup);
+
+describe('AnalysisPanel', () => {
+  it('shows the streamed text once the provider is done', async () => {
+    const provider = createMockProvider({ chunks: ['First line. ', 'Second line.'] });
+    renderPanel(provider);
+    start();
+    await screen.findByText(/First line\. Second line\./);
+    expect(screen.getByRole('button', { name: 'Analyse reading' })).toBeTruthy();
+    expect(provider.calls).toBe(1);
+  });
+
+  it('keeps what arrived and marks it stopped when cancelled', async () => {
+    renderPanel(createMockProvider({ chunks: ['Partial. ', 'Never shown.'], delayMs: 50 }));
+    start();
+    await screen.findByText(/Partial\./);
+    fireEvent.click(screen.getByRole('button', { name: 'Stop' }));
+    await screen.findByText('(stopped)');
+    expect(screen.queryByText(/Never shown/)).toBeNull();
+    expect(screen.queryByText(/failed/)).toBeNull();
+  });
+
+  it('shows the error a provider fails with', async () => {
+    renderPanel(createMockProvider({ chunks: [], failWith: 'rate-limited' }));
+    start();
+    await screen.findByText('Mock provider failed with rate-limited');
+    expect(screen.queryByText('(stopped)')).toBeNull();
+  });
+
+  it('reports unexpected errors as a provider failure', async () => {
+    renderPanel({
+      id: 'broken',
+      name: 'Broken',
+      needsNetwork: false,
+      analyse: async () => {
+        throw new Error('boom');
+      },
+    });
+    start();
+    await screen.findByText('Error: boom');
+  });
+
+  it('cancels a running analysis when it goes away', async () => {
+    let signal: AbortSignal | undefined;
+    const { unmount } = renderPanel({
+      id: 'slow',
+      name: 'Slow',
+      needsNetwork: false,
+      analyse: (_, options: AnalysisOptions = {}) => {
+        signal = options.signal;
+        return streamChunks(['never'], options, 10_000);
+      },
+    });
+    start();
+    await waitFor(() => expect(signal).toBeDefined());
+    unmount();
+    expect(signal!.aborted).toBe(true);
+  });
+});
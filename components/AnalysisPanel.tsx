@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisProvider, LabAssistantError, ReadingContext, isCancellation } from '../services/labAssistant';
+import { useI18n } from './I18nProvider';
+
+interface AnalysisPanelProps {
+  providers: AnalysisProvider[]; // The first one is selected to begin with
+  probeLabel: string;
+  getContext: () => ReadingContext; // Snapshot of the selected probe's reading, taken when the analysis starts
+}
+
+type AnalysisStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'failed';
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ providers, probeLabel, getContext }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [providerId, setProviderId] = useState<string>(providers[0].id);
+  const [text, setText] = useState<string>('');
+  const [status, setStatus] = useState<AnalysisStatus>('idle');
+  const [error, setError] = useState<LabAssistantError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const provider = providers.find(p => p.id === providerId) ?? providers[0];
+  const running = status === 'running';
+
+  // Nothing may stream into an unmounted panel
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const analyse = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setText('');
+    setError(null);
+    setStatus('running');
+    try {
+      await provider.analyse(getContext(), {
+        signal: controller.signal,
+        i18n,
+        onText: (chunk) => setText(prev => prev + chunk),
+      });
+      setStatus('done');
+    } catch (e) {
+      if (isCancellation(e)) {
+        setStatus('cancelled');
+      } else {
+        setError(e instanceof LabAssistantError ? e : new LabAssistantError('provider-failed', String(e), { cause: e }));
+        setStatus('failed');
+      }
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  };
+
+  const stop = () => controllerRef.current?.abort();
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">{t('analysis.title')}</h2>
+        <select
+          value={provider.id}
+          disabled={running}
+          onChange={(e) => setProviderId(e.target.value)}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 disabled:opacity-50"
+        >
+          {providers.map(p => (
+            <option key={p.id} value={p.id}>{i18n.has(`analysis.provider.${p.id}`) ? t(`analysis.provider.${p.id}`) : p.name}{p.needsNetwork ? ` ${t('analysis.online')}` : ''}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <span className="text-xs text-gray-500">
+          {t('analysis.hint', { probe: probeLabel })}
+        </span>
+        <button
+          onClick={running ? stop : analyse}
+          className={`shrink-0 text-sm py-1 px-3 rounded border transition-colors ${
+            running
+              ? 'bg-red-500/20 text-red-300 border-red-500/50 hover:bg-red-500/30'
+              : 'bg-blue-600 hover:bg-blue-500 text-white border-blue-500'
+          }`}
+        >
+          {running ? t('common.stop') : t('analysis.start')}
+        </button>
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-300 bg-red-500/10 border border-red-500/40 rounded p-2 mb-3">
+          {t(`analysis.error.${error.code}`, { detail: error.message })}
+        </div>
+      )}
+
+      {(text || running) && (
+        <div className="max-h-80 overflow-y-auto bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 text-xs font-mono text-gray-300 whitespace-pre-wrap">
+          {text}
+          {running && <span className="animate-pulse text-blue-400">▍</span>}
+          {status === 'cancelled' && <span className="block mt-2 text-gray-500">{t('analysis.stopped')}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
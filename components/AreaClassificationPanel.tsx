@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import {
+  RegulatoryPreset, REGULATORY_PRESETS, CUSTOM_PRESET_ID, AREA_CLASS_COLORS, areaThresholds,
+} from '../services/areaClassification';
+import { NumberFormat } from '../services/i18n';
+import { DoseRateScale, UnitSettings, doseUnits } from '../services/units';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface AreaClassificationPanelProps {
+  enabled: boolean; // Overlay on the canvas
+  preset: RegulatoryPreset;
+  onEnabledChange: (enabled: boolean) => void;
+  onPresetChange: (preset: RegulatoryPreset) => void;
+  units: UnitSettings; // Presets are kept in mSv/y and µSv/h and only shown in these
+}
+
+type NumericField = Exclude<keyof RegulatoryPreset, 'id' | 'name'>;
+
+type FieldKind = 'annual' | 'hours' | 'rate';
+
+const FIELDS: { key: NumericField; kind: FieldKind; optional?: boolean }[] = [
+  { key: 'controlledAnnualMSv', kind: 'annual', optional: true },
+  { key: 'supervisedAnnualMSv', kind: 'annual', optional: true },
+  { key: 'workingHoursPerYear', kind: 'hours' },
+  { key: 'controlledRateUSvH', kind: 'rate', optional: true },
+  { key: 'supervisedRateUSvH', kind: 'rate', optional: true },
+];
+
+const formatThreshold = (rateUSvH: number, scale: DoseRateScale, numbers: NumberFormat) =>
+  (isFinite(rateUSvH) ? `${numbers.fixed(rateUSvH * scale.perUSvH, scale.digits - 1)} ${scale.symbol}` : '—');
+
+const AreaClassificationPanel: React.FC<AreaClassificationPanelProps> = ({
+  enabled,
+  preset,
+  onEnabledChange,
+  onPresetChange,
+  units,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const thresholds = areaThresholds(preset);
+  const { dose, doseRate } = doseUnits(units.doseRate);
+  const fieldUnits: Record<FieldKind, { symbol: string; factor: number }> = {
+    annual: { symbol: dose.annualSymbol, factor: dose.annualPerMSv },
+    hours: { symbol: 'h/y', factor: 1 },
+    rate: { symbol: doseRate.symbol, factor: doseRate.perUSvH },
+  };
+
+  const selectPreset = (id: string) => {
+    const next = REGULATORY_PRESETS.find(p => p.id === id);
+    if (next) onPresetChange(next);
+  };
+
+  // Editing any value turns the preset into a custom one; clearing an optional criterion removes it
+  const updateField = (key: NumericField, value: number | undefined) => {
+    if (value === undefined) {
+      onPresetChange({ ...preset, id: CUSTOM_PRESET_ID, name: 'Custom', [key]: undefined });
+    } else if (isFinite(value) && value > 0) {
+      onPresetChange({ ...preset, id: CUSTOM_PRESET_ID, name: 'Custom', [key]: value });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">{t('areas.title')}</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          {t('areas.overlay')}
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={() => onEnabledChange(!enabled)}
+            className="h-4 w-4 accent-blue-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-300 mb-3">
+        <span>{t('areas.regulation')}</span>
+        <select
+          value={preset.id}
+          onChange={(e) => selectPreset(e.target.value)}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+        >
+          {REGULATORY_PRESETS.map(p => <option key={p.id} value={p.id}>{t(`preset.${p.id}`)}</option>)}
+          {preset.id === CUSTOM_PRESET_ID && <option value={CUSTOM_PRESET_ID}>{t(`preset.${CUSTOM_PRESET_ID}`)}</option>}
+        </select>
+      </div>
+
+      <div className="flex flex-col gap-2 text-sm mb-3">
+        {FIELDS.map(field => {
+          const { symbol, factor } = fieldUnits[field.kind];
+          const value = preset[field.key];
+          return (
+            <label key={field.key} className="flex items-center justify-between text-gray-300">
+              <span>{t(`areas.${field.key}`)}</span>
+              <span className="flex items-center gap-1 font-mono">
+                <NumberField
+                  min={0}
+                  step="any"
+                  value={value === undefined ? undefined : value * factor}
+                  placeholder="—"
+                  onCommit={(entered) => updateField(field.key, entered / factor)}
+                  onClear={field.optional ? () => updateField(field.key, undefined) : undefined}
+                  className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+                />
+                <span className="w-12 text-xs text-gray-500">{symbol}</span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+        <span style={{ color: AREA_CLASS_COLORS.controlled }}>
+          {t('areas.controlledAt', { rate: formatThreshold(thresholds.controlledUSvH, doseRate, i18n) })}
+        </span>
+        <span className="text-right" style={{ color: AREA_CLASS_COLORS.supervised }}>
+          {t('areas.supervisedAt', { rate: formatThreshold(thresholds.supervisedUSvH, doseRate, i18n) })}
+        </span>
+      </div>
+      <p className="text-[11px] text-gray-500 mt-2">{t('areas.netNote')}</p>
+    </div>
+  );
+};
+
+export default AreaClassificationPanel;
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { timeForRelativeUncertainty, netCountingTimes, formatDuration } from '../services/countingStatistics';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface CountingPlannerProps {
+  grossCps: number; // Expected count rate at the probe with the source open
+  backgroundCps: number; // Expected count rate with the source shielded
+}
+
+// Relative uncertainty the planner aims for, in per cent
+const TARGET_PERCENT_LIMITS = { min: 0.1, max: 100, step: 0.5 };
+
+const CountingPlanner: React.FC<CountingPlannerProps> = ({ grossCps, backgroundCps }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [targetPercent, setTargetPercent] = useState<number>(5);
+
+  const relative = targetPercent / 100;
+  const grossTime = timeForRelativeUncertainty(grossCps, relative);
+  const netPlan = netCountingTimes(grossCps, backgroundCps, relative);
+
+  return (
+    <div className="bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 text-sm">
+      <label className="flex items-center justify-between text-gray-300 mb-2">
+        <span className="font-medium">{t('planner.timeFor')}</span>
+        <span className="flex items-center gap-1 font-mono">
+          <NumberField
+            min={TARGET_PERCENT_LIMITS.min}
+            max={TARGET_PERCENT_LIMITS.max}
+            step={TARGET_PERCENT_LIMITS.step}
+            value={targetPercent}
+            onCommit={(value) =>
+              setTargetPercent(Math.min(Math.max(value, TARGET_PERCENT_LIMITS.min), TARGET_PERCENT_LIMITS.max))
+            }
+            className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+          />
+          {t('planner.relativeUncertainty')}
+        </span>
+      </label>
+      <div className="flex flex-col gap-1 text-xs font-mono text-gray-400">
+        <div className="flex justify-between">
+          <span>{t('planner.gross', { rate: i18n.fixed(grossCps, 2) })}</span>
+          <span className="text-blue-400">{formatDuration(grossTime, i18n)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>{t('planner.net')}</span>
+          <span className="text-blue-400">{formatDuration(netPlan.totalS, i18n)}</span>
+        </div>
+        {isFinite(netPlan.totalS) && (
+          <div className="flex justify-between text-gray-500 pl-2">
+            <span>{t('planner.split')}</span>
+            <span>{formatDuration(netPlan.grossS, i18n)} / {formatDuration(netPlan.backgroundS, i18n)}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CountingPlanner;
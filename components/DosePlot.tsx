@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useId, useMemo, useState } from 'react';
+import { Measurement } from '../types';
+import { DoseModelParams, doseRateAt, sourceDoseRate } from '../services/doseModel';
+import { NumberFormat } from '../services/i18n';
+import { measurementUnits } from '../services/measurementLog';
+import { DisplayUnits, QUANTITY_SYMBOLS, UnitSettings } from '../services/units';
+import { useI18n } from './I18nProvider';
+
+interface DosePlotProps {
+  params: DoseModelParams;
+  measurements: Measurement[];
+  distanceCm: number;
+  maxDistanceCm: number;
+  sourceOpen: boolean;
+  transmissionAt?: (distanceCm: number) => number; // Fraction of the source photons reaching d through the shielding
+  originCm?: number; // Where the inverse square law counts from, upstream of the target face (gamma sources)
+  svgRef?: React.Ref<SVGSVGElement>; // The chart itself, for exporting it as an image
+  units: DisplayUnits; // Of the axes and the theory curve
+  unitSettings: UnitSettings; // For the readings, which are scaled by the detector that took them
+}
+
+export type PlotMode = 'linear' | 'loglog' | 'linearised';
+
+const PLOT_MODES: PlotMode[] = ['linear', 'loglog', 'linearised'];
+
+// SVG layout (viewBox units)
+const WIDTH = 480;
+const HEIGHT = 300;
+const MARGIN = { left: 56, right: 16, top: 14, bottom: 40 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+const MIN_PLOT_DISTANCE_CM = 1;
+const LINEAR_VIEW_MIN_CM = 15; // Closest distance used to size the linear y axis
+const LINEARISED_VIEW_MIN_CM = 10;
+const CURVE_SAMPLES = 200;
+
+const UNSHIELDED: (distanceCm: number) => number = () => 1;
+
+interface PlotPoint {
+  x: number;
+  y: number;
+  yLow: number;
+  yHigh: number;
+  sourceOpen: boolean;
+}
+
+// Rounds a raw tick step to 1, 2 or 5 times a power of ten
+const niceStep = (range: number, targetTicks: number): number => {
+  const raw = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const residual = raw / magnitude;
+  if (residual > 5) return 10 * magnitude;
+  if (residual > 2) return 5 * magnitude;
+  if (residual > 1) return 2 * magnitude;
+  return magnitude;
+};
+
+const linearTicks = (min: number, max: number, targetTicks = 5): number[] => {
+  const step = niceStep(max - min, targetTicks);
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    ticks.push(Math.abs(v) < step * 1e-9 ? 0 : v);
+  }
+  return ticks;
+};
+
+// Ticks for an axis already in log10 units: one per decade
+const decadeTicks = (min: number, max: number): number[] => {
+  const ticks: number[] = [];
+  for (let k = Math.ceil(min); k <= Math.floor(max); k++) ticks.push(k);
+  return ticks;
+};
+
+const formatTick = (value: number, numbers: NumberFormat): string => {
+  if (value === 0) return '0';
+  const abs = Math.abs(value);
+  if (abs >= 1e4 || abs < 1e-2) return numbers.exponential(value, 0);
+  return numbers.significant(value, 3, true);
+};
+
+const DosePlot: React.FC<DosePlotProps> = ({
+  params, measurements, distanceCm, maxDistanceCm, sourceOpen, transmissionAt = UNSHIELDED, originCm = 0, svgRef, units,
+  unitSettings,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [mode, setMode] = useState<PlotMode>('loglog');
+  // Unique per plot, as the id also travels with the SVG into lab reports; kept to characters url() takes as-is
+  const clipId = `dose-plot-area-${useId().replace(/[^\w-]/g, '')}`;
+
+  const plot = useMemo(() => {
+    const { distance } = units;
+    const perUSvH = units.doseRate.perUSvH;
+    // 1/r² in the model's length unit (m⁻² or ft⁻²), and back to cm
+    const inverseSquare = (rCm: number) => 1 / Math.pow((rCm / 100) * distance.modelPerM, 2);
+    const fromInverseSquareCm = (x: number) => 100 / (distance.modelPerM * Math.sqrt(x));
+
+    // Transform a (d in cm, H in µSv/h) pair into the current axis space and display units
+    const toAxes = (dCm: number, h: number, scale = perUSvH): [number, number] => {
+      const d = Math.max(dCm, MIN_PLOT_DISTANCE_CM);
+      switch (mode) {
+        case 'loglog':
+          return [Math.log10(d * distance.perCm), Math.log10(Math.max(h * scale, 1e-6))];
+        case 'linearised':
+          return [inverseSquare(d + originCm), (h - params.b) * scale];
+        default:
+          return [dCm * distance.perCm, h * scale];
+      }
+    };
+
+    // Model prediction, with the source term attenuated by any slab in front of d
+    const theory = (dCm: number, open: boolean): number =>
+      params.b + (open ? sourceDoseRate((dCm + originCm) / 100, params) * transmissionAt(dCm) : 0);
+
+    // Theory curve with the source open
+    const curve: [number, number][] = [];
+    for (let i = 0; i <= CURVE_SAMPLES; i++) {
+      const f = i / CURVE_SAMPLES;
+      const dCm = mode === 'loglog'
+        ? Math.pow(10, Math.log10(MIN_PLOT_DISTANCE_CM) + f * (Math.log10(maxDistanceCm) - Math.log10(MIN_PLOT_DISTANCE_CM)))
+        : MIN_PLOT_DISTANCE_CM + f * (maxDistanceCm - MIN_PLOT_DISTANCE_CM);
+      curve.push(toAxes(dCm, theory(dCm, true)));
+    }
+
+    const points: PlotPoint[] = measurements
+      .filter(m => mode !== 'linearised' || m.sourceOpen)
+      .map(m => {
+        const error = m.doseRateError;
+        const scale = measurementUnits(m, unitSettings).doseRate.perUSvH;
+        const [x, y] = toAxes(m.distanceCm, m.doseRate, scale);
+        const low = mode === 'loglog' && m.doseRate - error <= 0
+          ? y - 1 // Error bar reaches zero, draw one decade down
+          : toAxes(m.distanceCm, m.doseRate - error, scale)[1];
+        const high = toAxes(m.distanceCm, m.doseRate + error, scale)[1];
+        return { x, y, yLow: low, yHigh: high, sourceOpen: m.sourceOpen };
+      });
+
+    // Axis ranges
+    let xMin: number, xMax: number, yMin: number, yMax: number;
+    if (mode === 'loglog') {
+      xMin = Math.log10(MIN_PLOT_DISTANCE_CM * distance.perCm);
+      xMax = Math.log10(maxDistanceCm * distance.perCm);
+      yMin = Math.floor(Math.log10(params.b * 0.8 * perUSvH));
+      yMax = Math.ceil(Math.log10(doseRateAt((MIN_PLOT_DISTANCE_CM + originCm) / 100, true, params) * perUSvH));
+    } else if (mode === 'linearised') {
+      // Closest distance from the photon origin, which the x axis is in
+      const closestCm = Math.min(
+        LINEARISED_VIEW_MIN_CM + originCm,
+        ...points.map(p => fromInverseSquareCm(p.x)),
+        Math.max(distanceCm, MIN_PLOT_DISTANCE_CM) + originCm
+      );
+      xMin = 0;
+      xMax = inverseSquare(closestCm);
+      yMin = Math.min(0, ...points.map(p => p.yLow));
+      yMax = Math.max(sourceDoseRate(closestCm / 100, params) * perUSvH, ...points.map(p => p.yHigh));
+    } else {
+      xMin = 0;
+      xMax = maxDistanceCm * distance.perCm;
+      yMin = 0;
+      yMax = Math.max(doseRateAt((LINEAR_VIEW_MIN_CM + originCm) / 100, true, params) * perUSvH, ...points.map(p => p.yHigh));
+    }
+    if (mode !== 'loglog') yMax *= 1.05;
+
+    const sx = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin)) * PLOT_W;
+    const sy = (y: number) => MARGIN.top + PLOT_H - ((y - yMin) / (yMax - yMin)) * PLOT_H;
+
+    const curvePath = curve
+      .map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${sx(x).toFixed(1)},${sy(Math.min(Math.max(y, yMin - (yMax - yMin)), yMax + (yMax - yMin))).toFixed(1)}`)
+      .join(' ');
+
+    const [detectorX, detectorY] = toAxes(distanceCm, theory(distanceCm, sourceOpen));
+
+    const xTicks = mode === 'loglog' ? decadeTicks(xMin, xMax) : linearTicks(xMin, xMax);
+    const yTicks = mode === 'loglog' ? decadeTicks(yMin, yMax) : linearTicks(yMin, yMax);
+    const tickLabel = (v: number) => formatTick(mode === 'loglog' ? Math.pow(10, v) : v, i18n);
+
+    return { sx, sy, points, curvePath, detectorX, detectorY, xTicks, yTicks, tickLabel, yMin, yMax, xMin, xMax };
+  }, [mode, params, measurements, distanceCm, maxDistanceCm, sourceOpen, transmissionAt, originCm, i18n, units, unitSettings]);
+
+  const { sx, sy } = plot;
+  const xLabel = mode !== 'linearised'
+    ? t('plot.axis.distance', { unit: units.distance.symbol })
+    : t(originCm > 0 ? 'plot.axis.inverseSquareSource' : 'plot.axis.inverseSquare', { unit: units.distance.modelSymbol });
+  const rateSymbol = units.doseRate.symbol;
+  const yLabel = mode === 'linearised' ? `H − b (${rateSymbol})` : `${QUANTITY_SYMBOLS[units.doseRate.quantity]} (${rateSymbol})`;
+  const detectorVisible = plot.detectorX >= plot.xMin && plot.detectorX <= plot.xMax;
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M3 3v18h18" />
+          </svg>
+          {t('plot.title')}
+        </h2>
+        <div className="flex bg-gray-900/40 rounded-lg border border-gray-700/50 p-1 text-xs">
+          {PLOT_MODES.map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-1 rounded-md transition-colors ${mode === m ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+            >
+              {t(`plot.mode.${m}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto font-mono" role="img" aria-label={t('plot.label')}>
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} />
+          </clipPath>
+        </defs>
+
+        {/* Grid and ticks */}
+        {plot.xTicks.map(t => (
+          <g key={`x${t}`}>
+            <line x1={sx(t)} x2={sx(t)} y1={MARGIN.top} y2={MARGIN.top + PLOT_H} stroke="#374151" strokeWidth={0.5} />
+            <text x={sx(t)} y={MARGIN.top + PLOT_H + 14} fill="#9ca3af" fontSize={10} textAnchor="middle">{plot.tickLabel(t)}</text>
+          </g>
+        ))}
+        {plot.yTicks.map(t => (
+          <g key={`y${t}`}>
+            <line x1={MARGIN.left} x2={MARGIN.left + PLOT_W} y1={sy(t)} y2={sy(t)} stroke="#374151" strokeWidth={0.5} />
+            <text x={MARGIN.left - 6} y={sy(t) + 3} fill="#9ca3af" fontSize={10} textAnchor="end">{plot.tickLabel(t)}</text>
+          </g>
+        ))}
+        <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_W} height={PLOT_H} fill="none" stroke="#4b5563" />
+
+        <g clipPath={`url(#${clipId})`}>
+          {/* Theory curve */}
+          <path d={plot.curvePath} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+
+          {/* Current detector position */}
+          {detectorVisible && (
+            <g>
+              <line x1={sx(plot.detectorX)} x2={sx(plot.detectorX)} y1={MARGIN.top} y2={MARGIN.top + PLOT_H} stroke="#facc15" strokeDasharray="4 3" strokeWidth={1} />
+              <circle cx={sx(plot.detectorX)} cy={sy(plot.detectorY)} r={4} fill="#facc15" />
+            </g>
+          )}
+
+          {/* Measurements with error bars */}
+          {plot.points.map((p, i) => (
+            <g key={i} stroke={p.sourceOpen ? '#f87171' : '#9ca3af'}>
+              <line x1={sx(p.x)} x2={sx(p.x)} y1={sy(p.yLow)} y2={sy(p.yHigh)} strokeWidth={1} />
+              <line x1={sx(p.x) - 3} x2={sx(p.x) + 3} y1={sy(p.yLow)} y2={sy(p.yLow)} strokeWidth={1} />
+              <line x1={sx(p.x) - 3} x2={sx(p.x) + 3} y1={sy(p.yHigh)} y2={sy(p.yHigh)} strokeWidth={1} />
+              <circle cx={sx(p.x)} cy={sy(p.y)} r={3} fill={p.sourceOpen ? '#f87171' : 'none'} strokeWidth={1} />
+            </g>
+          ))}
+        </g>
+
+        <text x={MARGIN.left + PLOT_W / 2} y={HEIGHT - 6} fill="#d1d5db" fontSize={11} textAnchor="middle">{xLabel}</text>
+        <text x={14} y={MARGIN.top + PLOT_H / 2} fill="#d1d5db" fontSize={11} textAnchor="middle" transform={`rotate(-90 14 ${MARGIN.top + PLOT_H / 2})`}>{yLabel}</text>
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+        <span className="flex items-center gap-1"><span className="inline-block w-4 h-0.5 bg-blue-400"></span>{t('plot.legend.theory')}</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-full bg-red-400"></span>{t('plot.legend.open')}</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-full border border-gray-400"></span>{t('plot.legend.shielded')}</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-full bg-yellow-400"></span>{t('plot.legend.probe')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DosePlot;
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { DosimeterAlarms, DosimeterReading, stayTimeS } from '../services/dosimeter';
+import { formatDuration } from '../services/countingStatistics';
+import { UnitSettings, distanceScale, doseUnits } from '../services/units';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface DosimeterPanelProps {
+  reading: DosimeterReading;
+  rateUSvH: number; // At the experimenter, source open or not
+  distanceCm: number; // Experimenter to where the photons come from: the target face, or a gamma source
+  rateAtDoubleDistanceUSvH: number;
+  shieldingTransmission: number; // Of the absorbers between the photon origin and the experimenter
+  alarms: DosimeterAlarms;
+  alarm: { dose: boolean; rate: boolean };
+  soundOn: boolean;
+  onAlarmsChange: (alarms: DosimeterAlarms) => void;
+  onSoundChange: (soundOn: boolean) => void;
+  onReset: () => void;
+  units: UnitSettings; // Dosimeter values are kept in µSv and µSv/h and only shown in these
+}
+
+const DosimeterPanel: React.FC<DosimeterPanelProps> = ({
+  reading,
+  rateUSvH,
+  distanceCm,
+  rateAtDoubleDistanceUSvH,
+  shieldingTransmission,
+  alarms,
+  alarm,
+  soundOn,
+  onAlarmsChange,
+  onSoundChange,
+  onReset,
+  units,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [stayLimitUSv, setStayLimitUSv] = useState<number>(20);
+  const alarming = alarm.dose || alarm.rate;
+  const { dose, doseRate } = doseUnits(units.doseRate);
+  const distance = distanceScale(units.distance);
+  const rateDigits = doseRate.digits - 1;
+
+  const updateAlarm = (key: keyof DosimeterAlarms, value: number) => {
+    if (!isFinite(value) || value <= 0) return;
+    onAlarmsChange({ ...alarms, [key]: value });
+  };
+
+  return (
+    <div
+      className={`bg-gray-800/60 border rounded-xl p-6 backdrop-blur-md transition-colors ${
+        alarming ? 'border-red-500 shadow-[0_0_20px_rgba(239,68,68,0.4)] animate-pulse' : 'border-gray-700'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">{t('dosimeter.title')}</h2>
+        <button
+          onClick={onReset}
+          className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-2 rounded transition-colors"
+        >
+          {t('common.reset')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className={`p-3 rounded-lg border ${alarm.dose ? 'bg-red-500/20 border-red-500/60' : 'bg-gray-900/40 border-gray-700/50'}`}>
+          <div className="text-xs text-gray-400 uppercase tracking-wider">{t('dosimeter.dose')}</div>
+          <div className="text-2xl font-mono font-bold text-yellow-400">
+            {i18n.fixed(reading.doseUSv * dose.perUSv, dose.digits)} <span className="text-xs font-normal text-gray-400">{dose.symbol}</span>
+          </div>
+          <div className="text-[11px] font-mono text-gray-500">{t('dosimeter.exposed', { time: formatDuration(reading.exposedS, i18n) })}</div>
+        </div>
+        <div className={`p-3 rounded-lg border ${alarm.rate ? 'bg-red-500/20 border-red-500/60' : 'bg-gray-900/40 border-gray-700/50'}`}>
+          <div className="text-xs text-gray-400 uppercase tracking-wider">{t('dosimeter.rate')}</div>
+          <div className="text-2xl font-mono font-bold text-yellow-400">
+            {i18n.fixed(rateUSvH * doseRate.perUSvH, rateDigits)}{' '}
+            <span className="text-xs font-normal text-gray-400">{doseRate.symbol}</span>
+          </div>
+          <div className="text-[11px] font-mono text-gray-500">{t('dosimeter.peak', {
+            rate: `${i18n.fixed(reading.peakRateUSvH * doseRate.perUSvH, rateDigits)} ${doseRate.symbol}`,
+          })}</div>
+        </div>
+      </div>
+
+      {alarming && (
+        <div className="mb-4 p-2 rounded bg-red-500/20 border border-red-500/60 text-red-300 text-sm font-semibold text-center">
+          ⚠ {t(alarm.dose && alarm.rate ? 'dosimeter.alarm.both' : alarm.dose ? 'dosimeter.alarm.dose' : 'dosimeter.alarm.rate')}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 text-sm mb-4">
+        <label className="flex items-center justify-between text-gray-300">
+          <span>{t('dosimeter.doseAlarm')}</span>
+          <span className="flex items-center gap-1 font-mono">
+            <NumberField
+              min={0}
+              step="any"
+              value={alarms.doseUSv * dose.perUSv}
+              onCommit={(value) => updateAlarm('doseUSv', value / dose.perUSv)}
+              className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+            />
+            {dose.symbol}
+          </span>
+        </label>
+        <label className="flex items-center justify-between text-gray-300">
+          <span>{t('dosimeter.rateAlarm')}</span>
+          <span className="flex items-center gap-1 font-mono">
+            <NumberField
+              min={0}
+              step="any"
+              value={alarms.rateUSvH * doseRate.perUSvH}
+              onCommit={(value) => updateAlarm('rateUSvH', value / doseRate.perUSvH)}
+              className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+            />
+            {doseRate.symbol}
+          </span>
+        </label>
+        <label className="flex items-center justify-between text-gray-300">
+          <span>{t('dosimeter.audible')}</span>
+          <input
+            type="checkbox"
+            checked={soundOn}
+            onChange={() => onSoundChange(!soundOn)}
+            className="h-4 w-4 accent-blue-500"
+          />
+        </label>
+      </div>
+
+      <div className="bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 text-sm">
+        <label className="flex items-center justify-between text-gray-300 mb-2">
+          <span className="font-medium">{t('dosimeter.stayTimeFor')}</span>
+          <span className="flex items-center gap-1 font-mono">
+            <NumberField
+              min={0}
+              step="any"
+              value={stayLimitUSv * dose.perUSv}
+              onCommit={(value) => setStayLimitUSv(Math.max(0.1, value / dose.perUSv))}
+              className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+            />
+            {dose.symbol}
+          </span>
+        </label>
+        <div className="flex flex-col gap-1 text-xs font-mono text-gray-400">
+          <div className="flex justify-between">
+            <span>{t('dosimeter.stayHere')}</span>
+            <span className="text-blue-400">{formatDuration(stayTimeS(stayLimitUSv, rateUSvH), i18n)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>{t('dosimeter.stayRemaining', { dose: `${i18n.fixed(reading.doseUSv * dose.perUSv, dose.digits - 1)} ${dose.symbol}` })}</span>
+            <span className="text-blue-400">{formatDuration(stayTimeS(stayLimitUSv, rateUSvH, reading.doseUSv), i18n)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>{t('dosimeter.stayDistance', {
+              distance: `${i18n.fixed(distanceCm * 2 * distance.perCm, distance.digits - 1)} ${distance.symbol}`,
+            })}</span>
+            <span className="text-blue-400">{formatDuration(stayTimeS(stayLimitUSv, rateAtDoubleDistanceUSvH), i18n)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>{t('dosimeter.stayShielding')}</span>
+            <span className="text-blue-400">{t('dosimeter.transmitted', { percent: i18n.fixed(shieldingTransmission * 100, 1) })}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DosimeterPanel;
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { Measurement } from '../types';
+import { DoseModelParams } from '../services/doseModel';
+import {
+  fitDoseModel, compareWithReferenceK, measurementsToFitPoints, fixedParamValues, fitErrorMessage, FitParamName, FixedParamFlags,
+  FIT_PARAM_NAMES,
+} from '../services/fitting';
+import { DisplayUnits, modelParamFactors, modelUnitSymbols } from '../services/units';
+import { useI18n } from './I18nProvider';
+
+interface FitPanelProps {
+  measurements: Measurement[]; // The readings taken on the current bench
+  totalReadings: number; // In the whole log, to say when some were left out
+  referenceParams: DoseModelParams; // Values for fixed parameters and the K comparison
+  referenceKError: number;
+  fixedParams: FixedParamFlags;
+  onFixedParamsChange: (fixedParams: FixedParamFlags) => void;
+  units: DisplayUnits; // The fit runs in µSv/h and m; only what is shown is converted
+}
+
+const PARAM_SYMBOLS: Record<FitParamName, string> = { K: 'K', mu: 'μ', b: 'b' };
+
+const FitPanel: React.FC<FitPanelProps> = ({
+  measurements, totalReadings, referenceParams, referenceKError, fixedParams, onFixedParamsChange, units,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const factors = modelParamFactors(units);
+  const paramUnits = modelUnitSymbols(units);
+  const { distance, doseRate } = units;
+  const { result, error } = useMemo(() => {
+    const fixed = fixedParamValues(fixedParams, referenceParams);
+    try {
+      return { result: fitDoseModel(measurementsToFitPoints(measurements), { fixed }), error: null };
+    } catch (e) {
+      return { result: null, error: e };
+    }
+  }, [measurements, fixedParams, referenceParams]);
+
+  const comparison = result && result.freeParams.includes('K')
+    ? compareWithReferenceK(result, referenceParams.K, referenceKError)
+    : null;
+
+  const toggleFixed = (name: FitParamName) => {
+    onFixedParamsChange({ ...fixedParams, [name]: !fixedParams[name] });
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+        </svg>
+        {t('fit.title')}
+      </h2>
+
+      <div className="flex gap-3 mb-4 text-sm text-gray-300">
+        {FIT_PARAM_NAMES.map(name => (
+          <label key={name} className="flex items-center gap-2 bg-gray-900/40 px-3 py-2 rounded-lg border border-gray-700/50 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fixedParams[name]}
+              onChange={() => toggleFixed(name)}
+              className="accent-blue-500"
+            />
+            {t('fit.fix', { param: PARAM_SYMBOLS[name] })}
+          </label>
+        ))}
+      </div>
+
+      {measurements.length < totalReadings && (
+        <p className="text-xs text-gray-500 mb-3">
+          {t('fit.subset', { used: measurements.length, total: totalReadings })}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-gray-500 text-center py-4 border border-dashed border-gray-700 rounded-lg">
+          {fitErrorMessage(error, i18n)}
+        </p>
+      )}
+
+      {result && (
+        <div className="flex flex-col gap-3 text-xs font-mono text-gray-300">
+          <div className="bg-gray-900/40 rounded-lg border border-gray-700/50 p-3">
+            {FIT_PARAM_NAMES.map(name => (
+              <div key={name} className="flex justify-between">
+                <span className="text-blue-400/80">{PARAM_SYMBOLS[name]}</span>
+                <span>
+                  {i18n.significant(result.params[name] * factors[name], 4)}
+                  {result.freeParams.includes(name)
+                    ? ` ± ${i18n.significant(result.uncertainties[name] * factors[name], 2)}`
+                    : ` ${t('fit.fixed')}`}
+                  {' '}<span className="text-gray-500">{paramUnits[name]}</span>
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between mt-2 pt-2 border-t border-gray-800 text-gray-400">
+              <span>χ²/ν</span>
+              <span>
+                {i18n.fixed(result.reducedChiSquared, 3)} (ν = {result.degreesOfFreedom}
+                {result.weighted ? '' : `, ${t('fit.unweighted')}`})
+              </span>
+            </div>
+            {!result.converged && (
+              <div className="text-red-400 mt-1">{t('fit.notConverged', { iterations: result.iterations })}</div>
+            )}
+          </div>
+
+          {comparison && (
+            <div className={`rounded-lg border p-3 ${comparison.consistent ? 'border-green-500/50 text-green-300' : 'border-red-500/50 text-red-300'}`}>
+              {t('fit.comparison', {
+                reference: i18n.fixed(comparison.reference * factors.K, doseRate.digits),
+                error: i18n.fixed(comparison.referenceError * factors.K, doseRate.digits),
+                difference: i18n.fixed(comparison.difference * factors.K, doseRate.digits),
+                z: i18n.fixed(comparison.zScore, 1),
+              })}
+              {' — '}{t(comparison.consistent ? 'fit.consistent' : 'fit.inconsistent')}
+            </div>
+          )}
+
+          <details className="bg-gray-900/40 rounded-lg border border-gray-700/50 p-3">
+            <summary className="cursor-pointer text-gray-400">{t('fit.covariance')}</summary>
+            <table className="w-full mt-2">
+              <thead className="text-gray-500">
+                <tr>
+                  <th></th>
+                  {FIT_PARAM_NAMES.map(name => <th key={name} className="text-right">{PARAM_SYMBOLS[name]}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {result.covariance.map((row, i) => (
+                  <tr key={FIT_PARAM_NAMES[i]}>
+                    <td className="text-gray-500">{PARAM_SYMBOLS[FIT_PARAM_NAMES[i]]}</td>
+                    {row.map((value, j) => (
+                      <td key={j} className="text-right">
+                        {i18n.exponential(value * factors[FIT_PARAM_NAMES[i]] * factors[FIT_PARAM_NAMES[j]], 2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+
+          <details className="bg-gray-900/40 rounded-lg border border-gray-700/50 p-3">
+            <summary className="cursor-pointer text-gray-400">{t('fit.residuals')}</summary>
+            <table className="w-full mt-2">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="text-left">d ({distance.symbol})</th>
+                  <th className="text-right">H</th>
+                  <th className="text-right">{t('fit.model')}</th>
+                  <th className="text-right">{result.weighted ? 'r/σ' : 'r'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.residuals.map((r, i) => (
+                  <tr key={i}>
+                    <td>{i18n.fixed(measurements[i].distanceCm * distance.perCm, distance.digits - 1)}{r.sourceOpen ? '' : ' ○'}</td>
+                    <td className="text-right">{i18n.fixed(r.measured * doseRate.perUSvH, doseRate.digits)}</td>
+                    <td className="text-right">{i18n.fixed(r.predicted * doseRate.perUSvH, doseRate.digits)}</td>
+                    <td className={`text-right ${Math.abs(r.normalized) > 2 && result.weighted ? 'text-red-400' : ''}`}>
+                      {result.weighted ? i18n.fixed(r.normalized, 3) : i18n.fixed(r.normalized * doseRate.perUSvH, doseRate.digits)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FitPanel;
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { LabGeometry, GEOMETRY_LIMITS, REFERENCE_GEOMETRY, clampGeometry, setupYieldFactor } from '../services/geometry';
+import { Material } from '../services/materials';
+import { DistanceScale } from '../services/units';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface GeometrySettingsProps {
+  geometry: LabGeometry;
+  targetMaterial: Material;
+  onChange: (geometry: LabGeometry) => void;
+  distance: DistanceScale; // Lengths are kept in cm and only shown in this unit
+}
+
+// The target thickness stays in mm whatever distance unit is picked
+const FIELDS: { key: keyof LabGeometry; length: boolean }[] = [
+  { key: 'sourceToTargetCm', length: true },
+  { key: 'targetThicknessMm', length: false },
+  { key: 'targetHeightCm', length: true },
+  { key: 'maxDistanceCm', length: true },
+];
+
+const GeometrySettings: React.FC<GeometrySettingsProps> = ({ geometry, targetMaterial, onChange, distance }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  // Clamped only once a value is entered: limits applied per keystroke would turn "300" into 50 at the "3"
+  const handleFieldCommit = (key: keyof LabGeometry, value: number) => {
+    onChange(clampGeometry({ ...geometry, [key]: value }));
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-xl font-bold text-white"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+          </svg>
+          {t('geometry.title')}
+        </span>
+        <span className="text-sm text-gray-400">{isOpen ? '▲' : '▼'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-3 mt-4">
+          {FIELDS.map(({ key, length }) => {
+            const limits = GEOMETRY_LIMITS[key];
+            const factor = length ? distance.perCm : 1;
+            return (
+              <label key={key} className="flex items-center justify-between text-sm text-gray-300">
+                <span>{t(`geometry.${key}`)}</span>
+                <span className="flex items-center gap-2 font-mono">
+                  <NumberField
+                    min={limits.min * factor}
+                    max={limits.max * factor}
+                    step={length && factor !== 1 ? 'any' : limits.step}
+                    value={geometry[key] * factor}
+                    onCommit={(value) => handleFieldCommit(key, value / factor)}
+                    className="w-20 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+                  />
+                  <span className="w-6 text-gray-500">{length ? distance.symbol : 'mm'}</span>
+                </span>
+              </label>
+            );
+          })}
+
+          <div className="flex items-center justify-between text-xs font-mono text-gray-500 pt-2 border-t border-gray-700/50">
+            <span>{t('geometry.yield')}</span>
+            <span className="text-blue-400">× {i18n.fixed(setupYieldFactor(geometry, targetMaterial), 3)}</span>
+          </div>
+
+          <button
+            onClick={() => onChange(REFERENCE_GEOMETRY)}
+            className="bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-2 px-4 rounded-lg text-sm font-semibold transition-colors"
+          >
+            {t('geometry.restore')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeometrySettings;
@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { useI18n } from './I18nProvider';
+import { LOCALES } from '../services/locales';
 
 const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg className={className} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -11,13 +13,23 @@ const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
 );
 
 const Header: React.FC = () => {
+  const { t, localeId, setLocaleId } = useI18n();
+
   return (
     <header className="w-full py-4 px-8 border-b border-gray-700 bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50">
-      <div className="flex items-center justify-center gap-3">
+      <div className="relative flex items-center justify-center gap-3">
           <SparkleIcon className="w-6 h-6 text-blue-400" />
           <h1 className="text-xl font-bold tracking-tight text-gray-100">
-            Sr-90 Experiment
+            {t('header.title')}
           </h1>
+          <select
+            value={localeId}
+            onChange={(e) => setLocaleId(e.target.value)}
+            className="absolute right-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+            aria-label={t('header.language')}
+          >
+            {LOCALES.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+          </select>
       </div>
     </header>
   );
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { HEATMAP_LEGEND_TICKS_USVH, heatmapFraction, heatmapHue, formatDoseLevel } from '../services/doseField';
+import { DoseRateScale, QUANTITY_SYMBOLS } from '../services/units';
+import { useI18n } from './I18nProvider';
+
+interface HeatmapLegendProps {
+  isodoseLevels: number[]; // Marked on the scale as well, µSv/h
+  doseRate: DoseRateScale; // What the ticks are labelled in; the colours stay on the µSv/h scale
+}
+
+const BAR_HEIGHT_PX = 144;
+const GRADIENT_STOPS = [0, 0.25, 0.5, 0.75, 1];
+
+// Same hue ramp as the canvas, sampled at a few stops so the CSS gradient follows it
+const gradient = `linear-gradient(to top, ${GRADIENT_STOPS.map(t => `hsl(${heatmapHue(t)}, 100%, 50%) ${t * 100}%`).join(', ')})`;
+
+const HeatmapLegend: React.FC<HeatmapLegendProps> = ({ isodoseLevels, doseRate }) => {
+  const i18n = useI18n();
+
+  return (
+    <div className="bg-gray-900/80 p-3 rounded border border-gray-700 backdrop-blur text-xs">
+      <div className="text-gray-300 font-bold mb-2">{QUANTITY_SYMBOLS[doseRate.quantity]} {doseRate.symbol}</div>
+      <div className="relative flex" style={{ height: BAR_HEIGHT_PX }}>
+        <div className="w-4 h-full rounded-full" style={{ background: gradient }}></div>
+        <div className="relative w-12 ml-1 font-mono text-[10px] text-gray-400">
+          {HEATMAP_LEGEND_TICKS_USVH.map(v => (
+            <span
+              key={v}
+              className="absolute left-0 flex items-center gap-1"
+              style={{ bottom: `${heatmapFraction(v) * 100}%`, transform: 'translateY(50%)' }}
+            >
+              <span className="inline-block w-1.5 border-t border-gray-400"></span>
+              {formatDoseLevel(v * doseRate.perUSvH, i18n)}
+            </span>
+          ))}
+          {isodoseLevels.map(v => (
+            <span
+              key={`iso-${v}`}
+              className="absolute -left-5 w-4 border-t border-dashed border-white"
+              style={{ bottom: `${heatmapFraction(v) * 100}%` }}
+              title={i18n.t('legend.isodose', { level: `${formatDoseLevel(v * doseRate.perUSvH, i18n)} ${doseRate.symbol}` })}
+            ></span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HeatmapLegend;
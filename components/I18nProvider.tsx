@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Translator } from '../services/i18n';
+import { DEFAULT_LOCALE_ID, preferredLocaleId, saveLocaleId, translatorFor } from '../services/locales';
+
+export interface I18nValue extends Translator {
+  setLocaleId: (id: string) => void;
+}
+
+// English until a provider says otherwise, so components also render on their own
+const I18nContext = createContext<I18nValue>({ ...translatorFor(DEFAULT_LOCALE_ID), setLocaleId: () => {} });
+
+export const useI18n = (): I18nValue => useContext(I18nContext);
+
+const I18nProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const [localeId, setLocaleId] = useState<string>(preferredLocaleId);
+
+  // Only an explicit choice is remembered; otherwise the browser's languages keep deciding
+  const chooseLocale = useCallback((id: string) => {
+    saveLocaleId(id);
+    setLocaleId(id);
+  }, []);
+
+  const value = useMemo<I18nValue>(() => ({ ...translatorFor(localeId), setLocaleId: chooseLocale }), [localeId, chooseLocale]);
+
+  useEffect(() => {
+    document.documentElement.lang = value.localeId;
+  }, [value.localeId]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
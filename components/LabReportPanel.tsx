@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { LabReportInput, LabReportMeta, labReportHtml, labReportMarkdown } from '../services/labReport';
+import { downloadTextFile, exportFileStem } from '../services/measurementLog';
+import { useI18n } from './I18nProvider';
+
+interface LabReportPanelProps {
+  measurementCount: number;
+  buildReport: (meta: LabReportMeta) => Promise<LabReportInput>; // Collects the session, snapshots included
+}
+
+type ReportFormat = 'html' | 'markdown' | 'print';
+
+const LabReportPanel: React.FC<LabReportPanelProps> = ({ measurementCount, buildReport }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [meta, setMeta] = useState<LabReportMeta>(() => ({ title: t('report.defaultTitle'), author: '' }));
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async (format: ReportFormat) => {
+    // The print window has to open inside the click, before anything is awaited, or it gets blocked
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    setBusy(true);
+    setError(null);
+    try {
+      const report = await buildReport(meta);
+      const stem = exportFileStem(report.createdAt, 'report');
+      if (format === 'markdown') {
+        downloadTextFile(`${stem}.md`, labReportMarkdown(report, i18n), 'text/markdown');
+      } else if (format === 'html') {
+        downloadTextFile(`${stem}.html`, labReportHtml(report, i18n), 'text/html');
+      } else {
+        if (!printWindow) throw new Error(t('report.printBlocked'));
+        printWindow.document.open();
+        printWindow.document.write(labReportHtml(report, i18n));
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      }
+    } catch (e) {
+      printWindow?.close();
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonClass = 'text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-3 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <h2 className="text-xl font-bold text-white mb-4">{t('report.title')}</h2>
+
+      <div className="flex flex-col gap-2 text-sm mb-3">
+        <label className="flex items-center justify-between gap-2 text-gray-300">
+          <span>{t('report.reportTitle')}</span>
+          <input
+            type="text"
+            value={meta.title}
+            onChange={(e) => setMeta({ ...meta, title: e.target.value })}
+            className="flex-grow max-w-[70%] bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          />
+        </label>
+        <label className="flex items-center justify-between gap-2 text-gray-300">
+          <span>{t('report.author')}</span>
+          <input
+            type="text"
+            value={meta.author}
+            onChange={(e) => setMeta({ ...meta, author: e.target.value })}
+            className="flex-grow max-w-[70%] bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          />
+        </label>
+      </div>
+
+      <p className="text-[11px] text-gray-500 mb-3">
+        {i18n.plural('report.contents', measurementCount)}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => generate('html')} disabled={busy} className={buttonClass}>HTML</button>
+        <button onClick={() => generate('markdown')} disabled={busy} className={buttonClass}>Markdown</button>
+        <button onClick={() => generate('print')} disabled={busy} className={buttonClass}>{t('report.print')}</button>
+      </div>
+
+      {error && <p className="text-xs text-red-300 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default LabReportPanel;
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Measurement } from '../types';
+import { measurementsToCsv, measurementsToJson, downloadTextFile, exportFileStem, measurementUnits } from '../services/measurementLog';
+import { DETECTORS } from '../services/detectors';
+import { UnitSettings, displayUnits, distanceScale } from '../services/units';
+import { useI18n } from './I18nProvider';
+
+interface MeasurementLogProps {
+  measurements: Measurement[];
+  onRecord: () => void;
+  onDelete: (id: number) => void;
+  units: UnitSettings; // For the table and the exported files
+}
+
+const MeasurementLog: React.FC<MeasurementLogProps> = ({ measurements, onRecord, onDelete, units }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const hasData = measurements.length > 0;
+  const distance = distanceScale(units.distance);
+  // Only counts per second differ between detectors, and the column symbol is the same for all of them
+  const doseRateSymbol = displayUnits(units, DETECTORS.gm).doseRate.symbol;
+
+  const handleExportCsv = () => {
+    downloadTextFile(`${exportFileStem()}.csv`, measurementsToCsv(measurements, units), 'text/csv');
+  };
+
+  const handleExportJson = () => {
+    downloadTextFile(`${exportFileStem()}.json`, measurementsToJson(measurements, units), 'application/json');
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+          </svg>
+          {t('log.title')}
+        </h2>
+        <button
+          onClick={onRecord}
+          className="bg-blue-600/30 hover:bg-blue-600/50 text-blue-200 border border-blue-500/50 py-2 px-3 rounded-lg text-sm font-semibold transition-colors"
+        >
+          {t('log.record')}
+        </button>
+      </div>
+
+      {hasData ? (
+        <div className="max-h-64 overflow-y-auto border border-gray-700/50 rounded-lg">
+          <table className="w-full text-xs font-mono text-gray-300">
+            <thead className="bg-gray-900/60 text-gray-400 sticky top-0">
+              <tr>
+                <th className="p-2 text-left">#</th>
+                <th className="p-2 text-left">{t('log.probe')}</th>
+                <th className="p-2 text-right">d ({distance.symbol})</th>
+                <th className="p-2 text-right">θ</th>
+                <th className="p-2 text-center">{t('log.source')}</th>
+                <th className="p-2 text-right">{doseRateSymbol}</th>
+                <th className="p-2 text-right">{t('log.counts')}</th>
+                <th className="p-2 text-right">t (s)</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {measurements.map((m, index) => {
+                const { doseRate } = measurementUnits(m, units);
+                return (
+                <tr key={m.id} className="border-t border-gray-800" title={new Date(m.timestamp).toLocaleString(i18n.numberLocale)}>
+                  <td className="p-2 text-gray-500">{index + 1}</td>
+                  <td className="p-2">{m.probeLabel}</td>
+                  <td className="p-2 text-right">{i18n.number(m.distanceCm * distance.perCm, distance.digits + 1)}</td>
+                  <td className="p-2 text-right">{m.angleDeg}°</td>
+                  <td className={`p-2 text-center ${m.sourceOpen ? 'text-green-400' : 'text-red-400'}`}>
+                    {m.sourceOpen ? '●' : '○'}
+                  </td>
+                  <td className="p-2 text-right text-yellow-400">
+                    {i18n.fixed(m.doseRate * doseRate.perUSvH, doseRate.digits)}
+                    <span className="text-gray-500"> ± {i18n.fixed(m.doseRateError * doseRate.perUSvH, doseRate.digits)}</span>
+                  </td>
+                  <td className="p-2 text-right">{m.counts}</td>
+                  <td className="p-2 text-right">{i18n.fixed(m.countingTimeS, 1)}</td>
+                  <td className="p-2 text-right">
+                    <button
+                      onClick={() => onDelete(m.id)}
+                      className="text-gray-500 hover:text-red-400 transition-colors"
+                      aria-label={t('log.delete', { index: index + 1 })}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 text-center py-6 border border-dashed border-gray-700 rounded-lg">
+          {t('log.empty')}
+        </p>
+      )}
+
+      <div className="flex gap-3 mt-4">
+        <button
+          onClick={handleExportCsv}
+          disabled={!hasData}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-2 px-4 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('log.exportCsv')}
+        </button>
+        <button
+          onClick={handleExportJson}
+          disabled={!hasData}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-2 px-4 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('log.exportJson')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementLog;
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+
+interface NumberFieldProps {
+  value: number | undefined; // Shown empty when undefined
+  onCommit: (value: number) => void; // Once editing ends with a number in the field
+  onClear?: () => void; // Once editing ends with the field empty; without it an empty field is undone
+  min?: number;
+  max?: number;
+  step?: number | string;
+  disabled?: boolean;
+  className?: string;
+  ariaLabel?: string;
+  title?: string;
+  placeholder?: string;
+}
+
+// Converted values such as 0.1 × 30 would otherwise show as 3.0000000000000004
+const shown = (value: number | undefined): string => (value === undefined ? '' : String(Number(value.toPrecision(12))));
+
+/**
+ * A number input that keeps what is typed as a draft and only hands the value over on blur or
+ * Enter, so a half-typed "3" on the way to "300" is never clamped or acted on. Escape, or leaving
+ * the field without a number, puts the current value back.
+ */
+const NumberField: React.FC<NumberFieldProps> = ({
+  value, onCommit, onClear, min, max, step, disabled, className, ariaLabel, title, placeholder,
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const parsed = parseFloat(draft);
+    setDraft(null);
+    if (draft.trim() === '' && onClear) onClear();
+    else if (!isNaN(parsed) && shown(parsed) !== shown(value)) onCommit(parsed);
+  };
+
+  return (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={draft ?? shown(value)}
+      disabled={disabled}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className={className}
+      aria-label={ariaLabel}
+      title={title}
+    />
+  );
+};
+
+export default NumberField;
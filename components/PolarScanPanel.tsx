@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { DoseModelParams } from '../services/doseModel';
+import { SimulationSetup } from '../services/simulation';
+import {
+  PolarScanSettings, PolarScanPoint, POLAR_SCAN_LIMITS, polarModelDoseRate,
+} from '../services/polarScan';
+import { DisplayUnits } from '../services/units';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface PolarScanPanelProps {
+  setup: SimulationSetup;
+  params: DoseModelParams;
+  settings: PolarScanSettings;
+  points: PolarScanPoint[];
+  remaining: number | null; // Angles still to measure while a scan runs
+  countingTimeS: number; // Each angle waits for a full reading
+  onSettingsChange: (settings: PolarScanSettings) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClear: () => void;
+  units: DisplayUnits; // Scans are kept in cm and µSv/h and only shown in these
+}
+
+// SVG layout (viewBox units): the forward half-plane, beam axis to the right as on the bench
+const WIDTH = 220;
+const HEIGHT = 300;
+const CX = 24;
+const CY = HEIGHT / 2;
+const RADIUS = 130;
+const RING_FRACTIONS = [0.25, 0.5, 0.75, 1];
+const SPOKES_DEG = [-90, -60, -30, 0, 30, 60, 90];
+
+const FIELDS: { key: keyof PolarScanSettings; length: boolean }[] = [
+  { key: 'radiusCm', length: true },
+  { key: 'fromDeg', length: false },
+  { key: 'toDeg', length: false },
+  { key: 'stepDeg', length: false },
+];
+
+const limitsFor = (key: keyof PolarScanSettings) =>
+  key === 'radiusCm' ? POLAR_SCAN_LIMITS.radiusCm : key === 'stepDeg' ? POLAR_SCAN_LIMITS.stepDeg : POLAR_SCAN_LIMITS.angleDeg;
+
+const polarPoint = (angleDeg: number, r: number): [number, number] => {
+  const angleRad = angleDeg * Math.PI / 180;
+  return [CX + r * Math.cos(angleRad), CY + r * Math.sin(angleRad)];
+};
+
+const PolarScanPanel: React.FC<PolarScanPanelProps> = ({
+  setup,
+  params,
+  settings,
+  points,
+  remaining,
+  countingTimeS,
+  onSettingsChange,
+  onStart,
+  onStop,
+  onClear,
+  units,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const running = remaining !== null;
+
+  const plot = useMemo(() => {
+    const curve: [number, number][] = [];
+    for (let angle = POLAR_SCAN_LIMITS.angleDeg.min; angle <= POLAR_SCAN_LIMITS.angleDeg.max; angle++) {
+      curve.push([angle, polarModelDoseRate(setup, params, settings.radiusCm, angle)]);
+    }
+    const maxValue = Math.max(
+      ...curve.map(([, h]) => h),
+      ...points.map(p => p.doseRate + p.doseRateError)
+    );
+    const scale = (h: number) => (Math.max(h, 0) / maxValue) * RADIUS;
+    const curvePath = curve
+      .map(([angle, h], i) => {
+        const [x, y] = polarPoint(angle, scale(h));
+        return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+    return { maxValue, scale, curvePath };
+  }, [setup, params, settings.radiusCm, points]);
+
+  const updateField = (key: keyof PolarScanSettings, value: number) => {
+    if (!isFinite(value)) return;
+    const { min, max } = limitsFor(key);
+    onSettingsChange({ ...settings, [key]: Math.min(Math.max(value, min), max) });
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">{t('polar.title')}</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={running ? onStop : onStart}
+            className={`text-sm py-1 px-3 rounded border transition-colors ${
+              running
+                ? 'bg-red-500/20 text-red-300 border-red-500/50 hover:bg-red-500/30'
+                : 'bg-blue-600 hover:bg-blue-500 text-white border-blue-500'
+            }`}
+          >
+            {running ? t('common.stop') : t('polar.start')}
+          </button>
+          <button
+            onClick={onClear}
+            disabled={running || points.length === 0}
+            className="text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-3 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t('common.clear')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+        {FIELDS.map(field => {
+          const factor = field.length ? units.distance.perCm : 1;
+          return (
+            <label key={field.key} className="flex items-center justify-between text-gray-300">
+              <span>{t(`polar.${field.key}`)}</span>
+              <span className="flex items-center gap-1 font-mono">
+                <NumberField
+                  step="any"
+                  min={limitsFor(field.key).min * factor}
+                  max={limitsFor(field.key).max * factor}
+                  value={settings[field.key] * factor}
+                  disabled={running}
+                  onCommit={(value) => updateField(field.key, value / factor)}
+                  className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200 disabled:opacity-50"
+                />
+                <span className="w-6 text-xs text-gray-500">{field.length ? units.distance.symbol : '°'}</span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+
+      <p className="text-[11px] text-gray-500 mb-2">
+        {running
+          ? i18n.plural('polar.measuring', remaining, { time: countingTimeS })
+          : t('polar.hint')}
+      </p>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-h-80 h-auto font-mono" role="img" aria-label={t('polar.plotLabel')}>
+        {/* Rings and spokes */}
+        {RING_FRACTIONS.map(f => (
+          <g key={f}>
+            <path
+              d={`M${CX},${CY - f * RADIUS} A${f * RADIUS},${f * RADIUS} 0 0 1 ${CX},${CY + f * RADIUS}`}
+              fill="none"
+              stroke="#374151"
+              strokeWidth={0.5}
+            />
+            <text x={CX + 2} y={CY - f * RADIUS - 2} fill="#9ca3af" fontSize={9}>
+              {i18n.significant(f * plot.maxValue * units.doseRate.perUSvH, 2, true)}
+            </text>
+          </g>
+        ))}
+        {SPOKES_DEG.map(angle => {
+          const [x, y] = polarPoint(angle, RADIUS);
+          const [lx, ly] = polarPoint(angle, RADIUS + 12);
+          return (
+            <g key={angle}>
+              <line x1={CX} y1={CY} x2={x} y2={y} stroke="#374151" strokeWidth={0.5} />
+              <text x={lx} y={ly + 3} fill="#9ca3af" fontSize={9} textAnchor="middle">{angle}°</text>
+            </g>
+          );
+        })}
+
+        {/* Model */}
+        <path d={plot.curvePath} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+
+        {/* Readings with radial error bars */}
+        {points.map(p => {
+          const [x1, y1] = polarPoint(p.angleDeg, plot.scale(p.doseRate - p.doseRateError));
+          const [x2, y2] = polarPoint(p.angleDeg, plot.scale(p.doseRate + p.doseRateError));
+          const [x, y] = polarPoint(p.angleDeg, plot.scale(p.doseRate));
+          return (
+            <g key={p.angleDeg} stroke="#f87171">
+              <line x1={x1} y1={y1} x2={x2} y2={y2} strokeWidth={1} />
+              <circle cx={x} cy={y} r={3} fill="#f87171" strokeWidth={1} />
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+        <span className="flex items-center gap-1"><span className="inline-block w-4 h-0.5 bg-blue-400"></span>{t('polar.model')}</span>
+        <span className="flex items-center gap-1"><span className="inline-block w-2 h-2 rounded-full bg-red-400"></span>{t('polar.readings', { unit: units.doseRate.symbol })}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PolarScanPanel;
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { SimulationHandle } from '../services/simulationHost';
+import {
+  CanvasRecorder, OverlayLine, RecordingFormat, RECORDING_FPS_OPTIONS, DEFAULT_RECORDING_FPS, STILL_SCALES, MAX_PNG_FRAMES,
+  createCanvasRecorder, composeStill, webmMimeType,
+} from '../services/canvasRecording';
+import { downloadBlob, exportFileStem } from '../services/measurementLog';
+import { useI18n } from './I18nProvider';
+
+interface RecordingPanelProps {
+  simulation: () => SimulationHandle | null;
+  overlayLines: () => OverlayLine[]; // The probe readings as currently shown
+}
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ simulation, overlayLines }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const webmSupported = webmMimeType() !== null;
+  const [format, setFormat] = useState<RecordingFormat>(webmSupported ? 'webm' : 'png-zip');
+  const [fps, setFps] = useState<number>(DEFAULT_RECORDING_FPS);
+  const [burnInReadings, setBurnInReadings] = useState<boolean>(true);
+  const [stillScale, setStillScale] = useState<number>(STILL_SCALES[0]);
+  const [recording, setRecording] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false); // Encoding a file
+  const [frames, setFrames] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const burnInRef = useRef<boolean>(burnInReadings);
+  burnInRef.current = burnInReadings;
+
+  // Frame counter while recording; the recorder itself runs off the simulation's frame tap
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => {
+      setFrames(recorderRef.current?.frameCount() ?? 0);
+      if (recorderRef.current?.full()) stopRecording();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  // Leaving the page mid-recording drops the clip rather than leaving the tap running
+  useEffect(() => () => {
+    simulation()?.setFrameTap(null);
+    recorderRef.current?.cancel();
+  }, []);
+
+  const overlay = () => (burnInRef.current ? overlayLines() : null);
+
+  const startRecording = () => {
+    const handle = simulation();
+    if (!handle) return;
+    setError(null);
+    try {
+      const recorder = createCanvasRecorder({ format, fps, overlay });
+      recorderRef.current = recorder;
+      handle.setFrameTap(image => recorder.addFrame(image));
+      setFrames(0);
+      setRecording(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    simulation()?.setFrameTap(null);
+    recorderRef.current = null;
+    setRecording(false);
+    if (!recorder) return;
+    setBusy(true);
+    try {
+      const file = await recorder.stop();
+      const stem = exportFileStem(new Date(), recorder.format === 'webm' ? 'recording' : 'frames');
+      downloadBlob(`${stem}.${recorder.format === 'webm' ? 'webm' : 'zip'}`, file);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveStill = async () => {
+    const handle = simulation();
+    if (!handle) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const rendered = await createImageBitmap(await handle.snapshot(stillScale));
+      const still = await composeStill(rendered, stillScale, overlay());
+      downloadBlob(`${exportFileStem(new Date(), `still-${stillScale}x`)}.png`, still);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectClass = 'bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 disabled:opacity-50';
+  const buttonClass = 'text-sm bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-3 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">{t('recording.title')}</h2>
+        <button
+          onClick={recording ? stopRecording : startRecording}
+          disabled={busy}
+          className={`text-sm py-1 px-3 rounded border transition-colors disabled:opacity-40 ${
+            recording
+              ? 'bg-red-500/20 text-red-300 border-red-500/50 hover:bg-red-500/30'
+              : 'bg-blue-600 hover:bg-blue-500 text-white border-blue-500'
+          }`}
+        >
+          {recording ? `■ ${t('common.stop')}` : `● ${t('recording.record')}`}
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 text-sm text-gray-300 mb-3">
+        <label className="flex items-center justify-between">
+          <span>{t('recording.format')}</span>
+          <select value={format} disabled={recording} onChange={(e) => setFormat(e.target.value as RecordingFormat)} className={selectClass}>
+            <option value="webm" disabled={!webmSupported}>{t(webmSupported ? 'recording.webm' : 'recording.webmUnsupported')}</option>
+            <option value="png-zip">{t('recording.pngZip')}</option>
+          </select>
+        </label>
+        <label className="flex items-center justify-between">
+          <span>{t('recording.frameRate')}</span>
+          <select value={fps} disabled={recording} onChange={(e) => setFps(parseInt(e.target.value))} className={`${selectClass} font-mono`}>
+            {RECORDING_FPS_OPTIONS.map(f => <option key={f} value={f}>{f} fps</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between">
+          <span>{t('recording.burnIn')}</span>
+          <input
+            type="checkbox"
+            checked={burnInReadings}
+            onChange={(e) => setBurnInReadings(e.target.checked)}
+            className="accent-blue-500"
+          />
+        </label>
+      </div>
+
+      {(recording || frames > 0) && (
+        <p className="text-xs font-mono text-gray-400 mb-3">
+          {recording ? '● ' : ''}{i18n.plural('recording.frames', frames)}
+          {format === 'png-zip' && ` ${t('recording.framesLimit', { max: MAX_PNG_FRAMES })}`}
+          {busy && ` · ${t('recording.encoding')}`}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 pt-3 border-t border-gray-700/50 text-sm text-gray-300">
+        <span>{t('recording.still')}</span>
+        <span className="flex items-center gap-2">
+          <select value={stillScale} onChange={(e) => setStillScale(parseInt(e.target.value))} className={`${selectClass} font-mono`}>
+            {STILL_SCALES.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+          <button onClick={saveStill} disabled={busy} className={buttonClass}>{t('recording.savePng')}</button>
+        </span>
+      </div>
+
+      {error && <p className="text-xs text-red-300 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default RecordingPanel;
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MATERIALS, MATERIAL_LIST, MaterialId, halfValueLayerMm } from '../services/materials';
+import { ShieldSlab, SLAB_THICKNESS_LIMITS, DEFAULT_SLAB_HEIGHT_CM, clampSlab, slabTransmission } from '../services/shielding';
+import { DistanceScale } from '../services/units';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface ShieldingPanelProps {
+  slabs: ShieldSlab[];
+  maxDistanceCm: number;
+  photonEnergyKeV: number; // Of the source photons, which the HVL and transmission are quoted at
+  onChange: (slabs: ShieldSlab[]) => void;
+  distance: DistanceScale; // Positions are kept in cm and only shown in this unit
+}
+
+const ShieldingPanel: React.FC<ShieldingPanelProps> = ({ slabs, maxDistanceCm, photonEnergyKeV, onChange, distance }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  const updateSlab = (id: number, changes: Partial<ShieldSlab>) => {
+    onChange(slabs.map(s => (s.id === id ? clampSlab({ ...s, ...changes }, maxDistanceCm) : s)));
+  };
+
+  const handleAdd = () => {
+    const slab: ShieldSlab = {
+      id: slabs.reduce((max, s) => Math.max(max, s.id), 0) + 1,
+      materialId: 'lead',
+      thicknessMm: 1, // About 1.6 HVL of lead at the bremsstrahlung energy
+      positionCm: Math.round(maxDistanceCm / 4),
+      heightCm: DEFAULT_SLAB_HEIGHT_CM,
+    };
+    onChange([...slabs, clampSlab(slab, maxDistanceCm)]);
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+          </svg>
+          {t('shielding.title')}
+        </h2>
+        <button
+          onClick={handleAdd}
+          className="bg-blue-600/30 hover:bg-blue-600/50 text-blue-200 border border-blue-500/50 py-1 px-3 rounded-lg text-sm font-semibold transition-colors"
+        >
+          {t('shielding.add')}
+        </button>
+      </div>
+
+      {slabs.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {t('shielding.empty')}
+        </p>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {slabs.map(slab => {
+            const material = MATERIALS[slab.materialId];
+            return (
+              <div key={slab.id} className="flex flex-col gap-2 bg-gray-900/40 p-3 rounded-lg border border-gray-700/50">
+                <div className="flex items-center justify-between gap-2">
+                  <select
+                    value={slab.materialId}
+                    onChange={(e) => updateSlab(slab.id, { materialId: e.target.value as MaterialId })}
+                    className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                  >
+                    {MATERIAL_LIST.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                  </select>
+                  <label className="flex items-center gap-1 text-sm font-mono text-gray-300">
+                    <NumberField
+                      min={SLAB_THICKNESS_LIMITS.min}
+                      max={SLAB_THICKNESS_LIMITS.max}
+                      step={SLAB_THICKNESS_LIMITS.step}
+                      value={slab.thicknessMm}
+                      onCommit={(value) => updateSlab(slab.id, { thicknessMm: value })}
+                      className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+                    />
+                    <span className="text-gray-500">mm</span>
+                  </label>
+                  <label className="flex items-center gap-1 text-sm font-mono text-gray-300">
+                    <span className="text-gray-500">{t('shielding.at')}</span>
+                    <NumberField
+                      min={0}
+                      max={maxDistanceCm * distance.perCm}
+                      step="any"
+                      value={slab.positionCm * distance.perCm}
+                      onCommit={(value) => updateSlab(slab.id, { positionCm: value / distance.perCm })}
+                      className="w-16 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+                    />
+                    <span className="text-gray-500">{distance.symbol}</span>
+                  </label>
+                  <button
+                    onClick={() => onChange(slabs.filter(s => s.id !== slab.id))}
+                    className="text-gray-500 hover:text-red-400 transition-colors"
+                    aria-label={t('shielding.remove', { material: material.name })}
+                  >
+                    ✕
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-[11px] font-mono text-gray-500">
+                  <span>{t('shielding.hvl')} = {i18n.fixed(halfValueLayerMm(material, photonEnergyKeV), 1)} mm</span>
+                  <span className="text-right">T = {i18n.fixed(slabTransmission(slab, photonEnergyKeV) * 100, 1)}%</span>
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-xs text-gray-500">{t('shielding.dragHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShieldingPanel;
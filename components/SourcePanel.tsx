@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { IsotopeId, ISOTOPES, ISOTOPE_LIST, isGammaSource, gammaEmissions } from '../services/isotopes';
+import { SourceCertificate, decayedActivityMBq, formatActivity, todayIso, yearsSince } from '../services/sourceActivity';
+import { useI18n } from './I18nProvider';
+import NumberField from './NumberField';
+
+interface SourcePanelProps {
+  isotopeId: IsotopeId;
+  certificate: SourceCertificate;
+  onDate: string; // YYYY-MM-DD the activity is decayed to
+  onIsotopeChange: (isotopeId: IsotopeId) => void;
+  onCertificateChange: (certificate: SourceCertificate) => void;
+  onDateChange: (date: string) => void;
+}
+
+const SourcePanel: React.FC<SourcePanelProps> = ({
+  isotopeId,
+  certificate,
+  onDate,
+  onIsotopeChange,
+  onCertificateChange,
+  onDateChange,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const isotope = ISOTOPES[isotopeId];
+  const elapsedY = yearsSince(certificate.referenceDate, onDate);
+  const activityMBq = decayedActivityMBq(certificate, onDate, isotope.halfLifeY);
+  const lines = gammaEmissions(isotope).map(g => `${i18n.fixed(g.energyKeV, 0)} keV`).join(', ');
+
+  // A source without activity makes no sense, so zero or less is undone rather than committed
+  const updateActivity = (value: number) => {
+    if (value > 0) onCertificateChange({ ...certificate, activityMBq: value });
+  };
+
+  // Date inputs report '' while a date is being typed or cleared
+  const updateReferenceDate = (date: string) => {
+    if (date) onCertificateChange({ ...certificate, referenceDate: date });
+  };
+
+  return (
+    <div className="bg-gray-800/60 border border-gray-700 rounded-xl p-6 backdrop-blur-md">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">{t('source.title')}</h2>
+        <select
+          value={isotopeId}
+          onChange={(e) => onIsotopeChange(e.target.value as IsotopeId)}
+          className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+        >
+          {ISOTOPE_LIST.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        {isGammaSource(isotope)
+          ? t('source.gamma', { lines, gamma: isotope.gammaConstant })
+          : t('source.beta')}
+      </p>
+
+      <div className="flex flex-col gap-2 text-sm mb-4">
+        <label className="flex items-center justify-between text-gray-300">
+          <span>{t('source.certifiedActivity')}</span>
+          <span className="flex items-center gap-1 font-mono">
+            <NumberField
+              min={0}
+              step="any"
+              value={certificate.activityMBq}
+              onCommit={updateActivity}
+              className="w-24 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-gray-200"
+            />
+            <span className="w-10 text-xs text-gray-500">MBq</span>
+          </span>
+        </label>
+        <label className="flex items-center justify-between text-gray-300">
+          <span>{t('source.referenceDate')}</span>
+          <input
+            type="date"
+            value={certificate.referenceDate}
+            onChange={(e) => updateReferenceDate(e.target.value)}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-gray-200"
+          />
+        </label>
+        <label className="flex items-center justify-between text-gray-300">
+          <span>{t('source.activityOn')}</span>
+          <span className="flex items-center gap-2">
+            <input
+              type="date"
+              value={onDate}
+              onChange={(e) => e.target.value && onDateChange(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 font-mono text-gray-200"
+            />
+            <button
+              onClick={() => onDateChange(todayIso())}
+              className="text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 border border-gray-600 py-1 px-2 rounded transition-colors"
+            >
+              {t('source.today')}
+            </button>
+          </span>
+        </label>
+      </div>
+
+      <div className="bg-gray-900/40 p-3 rounded-lg border border-gray-700/50 flex flex-col gap-1 text-xs font-mono text-gray-400">
+        <div className="flex justify-between">
+          <span>{t('source.elapsed')}</span>
+          <span>{i18n.fixed(elapsedY, 2)} y</span>
+        </div>
+        <div className="flex justify-between">
+          <span>{t('source.decayFactor', { halfLife: isotope.halfLifeY })}</span>
+          <span>× {i18n.fixed(activityMBq / certificate.activityMBq, 3)}</span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-300">{t('source.currentActivity')}</span>
+          <span className="text-yellow-400 font-bold">{formatActivity(activityMBq, i18n)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePanel;
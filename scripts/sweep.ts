@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Headless parameter sweep, e.g.
+ *   npm run sweep -- --distances 10:150:10 --seeds 1,2,3 --times 10,60 --out key.csv
+ * Runs entirely offline; results go to stdout unless --out is given.
+ */
+
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { DETECTORS, DetectorId } from '../services/detectors';
+import { GEOMETRY_LIMITS, REFERENCE_GEOMETRY, clampGeometry } from '../services/geometry';
+import { ISOTOPES, IsotopeId } from '../services/isotopes';
+import { MATERIALS, MaterialId } from '../services/materials';
+import { DeadTimeCorrectionMode } from '../services/simulation';
+import { DEFAULT_SWEEP, SweepOptions, runSweep, sweepRowsToCsv, sweepRowsToJson } from '../services/sweep';
+
+const USAGE = `Usage: npm run sweep -- [options]
+
+  --distances <list>     Probe distances in cm, "10,20,50" or "start:end:step" (default ${DEFAULT_SWEEP.distancesCm.join(',')})
+  --source <list>        open, shielded or both (default both)
+  --seeds <list>         PRNG seeds (default ${DEFAULT_SWEEP.seeds.join(',')})
+  --times <list>         Counting times in s (default ${DEFAULT_SWEEP.countingTimesS.join(',')})
+  --detector <id>        ${Object.keys(DETECTORS).join(' | ')} (default ${DEFAULT_SWEEP.base.detectorId})
+  --material <id>        ${Object.keys(MATERIALS).join(' | ')} (default ${DEFAULT_SWEEP.base.targetMaterialId})
+  --source-to-target <cm>, --thickness <mm>, --target-height <cm>
+                         Bench geometry (default reference set-up)
+  --isotope <id>         ${Object.keys(ISOTOPES).join(' | ')} (default ${DEFAULT_SWEEP.base.isotopeId})
+  --activity <MBq>       Current source activity (default ${DEFAULT_SWEEP.base.activityMBq})
+  --dead-time <mode>     none | non-paralyzable | paralyzable (default ${DEFAULT_SWEEP.deadTimeCorrection})
+  --transport-steps <n>  Also run the particle transport for n steps per row (default 0)
+  --format <fmt>         csv | json (default csv, or from the --out extension)
+  --out <file>           Write to a file instead of stdout
+  --help                 Show this message
+`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseNumber = (text: string, name: string): number => {
+  const value = Number(text);
+  if (!Number.isFinite(value)) fail(`Invalid number for --${name}: "${text}"`);
+  return value;
+};
+
+// "10,20,50" or "10:150:10" (inclusive)
+const parseNumberList = (text: string, name: string): number[] => {
+  if (text.includes(':')) {
+    const [start, end, step = '1'] = text.split(':').map(part => part.trim());
+    const [a, b, s] = [parseNumber(start, name), parseNumber(end, name), parseNumber(step, name)];
+    if (s <= 0 || b < a) fail(`Invalid range for --${name}: "${text}"`);
+    const values: number[] = [];
+    for (let v = a; v <= b + s * 1e-9; v += s) values.push(parseFloat(v.toFixed(6)));
+    return values;
+  }
+  return text.split(',').filter(part => part.trim() !== '').map(part => parseNumber(part, name));
+};
+
+const parseSourceStates = (text: string): boolean[] => {
+  switch (text) {
+    case 'open': return [true];
+    case 'shielded': return [false];
+    case 'both': return [true, false];
+    default: return fail(`Invalid --source: "${text}"`);
+  }
+};
+
+const { values } = parseArgs({
+  options: {
+    distances: { type: 'string' },
+    source: { type: 'string', default: 'both' },
+    seeds: { type: 'string' },
+    times: { type: 'string' },
+    detector: { type: 'string', default: DEFAULT_SWEEP.base.detectorId },
+    material: { type: 'string', default: DEFAULT_SWEEP.base.targetMaterialId },
+    'source-to-target': { type: 'string' },
+    thickness: { type: 'string' },
+    'target-height': { type: 'string' },
+    isotope: { type: 'string', default: DEFAULT_SWEEP.base.isotopeId },
+    activity: { type: 'string' },
+    'dead-time': { type: 'string', default: DEFAULT_SWEEP.deadTimeCorrection },
+    'transport-steps': { type: 'string', default: '0' },
+    format: { type: 'string' },
+    out: { type: 'string' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+if (!(values.detector! in DETECTORS)) fail(`Unknown detector: "${values.detector}"`);
+if (!(values.material! in MATERIALS)) fail(`Unknown material: "${values.material}"`);
+if (!(values.isotope! in ISOTOPES)) fail(`Unknown isotope: "${values.isotope}"`);
+const deadTime = values['dead-time'] as DeadTimeCorrectionMode;
+if (!['none', 'non-paralyzable', 'paralyzable'].includes(deadTime)) fail(`Invalid --dead-time: "${deadTime}"`);
+
+const geometry = clampGeometry({
+  ...REFERENCE_GEOMETRY,
+  ...(values['source-to-target'] && { sourceToTargetCm: parseNumber(values['source-to-target'], 'source-to-target') }),
+  ...(values.thickness && { targetThicknessMm: parseNumber(values.thickness, 'thickness') }),
+  ...(values['target-height'] && { targetHeightCm: parseNumber(values['target-height'], 'target-height') }),
+});
+
+const distancesCm = values.distances ? parseNumberList(values.distances, 'distances') : DEFAULT_SWEEP.distancesCm;
+geometry.maxDistanceCm = Math.min(
+  Math.max(geometry.maxDistanceCm, ...distancesCm),
+  GEOMETRY_LIMITS.maxDistanceCm.max
+);
+if (distancesCm.some(d => d < 0 || d > geometry.maxDistanceCm)) {
+  fail(`Distances must lie between 0 and ${geometry.maxDistanceCm} cm`);
+}
+
+const options: SweepOptions = {
+  base: {
+    ...DEFAULT_SWEEP.base,
+    geometry,
+    detectorId: values.detector as DetectorId,
+    targetMaterialId: values.material as MaterialId,
+    isotopeId: values.isotope as IsotopeId,
+    ...(values.activity && { activityMBq: parseNumber(values.activity, 'activity') }),
+  },
+  distancesCm,
+  sourceStates: parseSourceStates(values.source!),
+  seeds: values.seeds ? parseNumberList(values.seeds, 'seeds') : DEFAULT_SWEEP.seeds,
+  countingTimesS: values.times ? parseNumberList(values.times, 'times') : DEFAULT_SWEEP.countingTimesS,
+  deadTimeCorrection: deadTime,
+  transportSteps: Math.max(0, Math.floor(parseNumber(values['transport-steps']!, 'transport-steps'))),
+};
+
+const format = values.format ?? (values.out?.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+if (format !== 'csv' && format !== 'json') fail(`Invalid --format: "${format}"`);
+
+const rows = runSweep(options);
+const output = format === 'json' ? sweepRowsToJson(rows) : sweepRowsToCsv(rows);
+
+if (values.out) {
+  writeFileSync(values.out, output);
+  process.stderr.write(`Wrote ${rows.length} rows to ${values.out}\n`);
+} else {
+  process.stdout.write(output);
+}
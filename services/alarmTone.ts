@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * The dosimeter's audible alarm: a beeping tone made with Web Audio. Browsers only allow sound after a
+ * user gesture, so the audio context is created when the user switches sound on.
+ */
+
+const BEEP_HZ = 2800; // Near the resonance of the piezo buzzers in electronic dosimeters
+const BEEP_ON_S = 0.12;
+const BEEP_PERIOD_S = 0.3;
+const VOLUME = 0.08;
+
+export interface AlarmTone {
+  setSounding: (sounding: boolean) => void;
+  close: () => void;
+}
+
+export const createAlarmTone = (): AlarmTone | null => {
+  const AudioContextClass = typeof window !== 'undefined' ? window.AudioContext : undefined;
+  if (!AudioContextClass) return null;
+
+  const audio = new AudioContextClass();
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const beep = () => {
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = BEEP_HZ;
+    gain.gain.value = VOLUME;
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start();
+    oscillator.stop(audio.currentTime + BEEP_ON_S);
+  };
+
+  return {
+    setSounding: sounding => {
+      if (sounding && timer === undefined) {
+        audio.resume();
+        beep();
+        timer = setInterval(beep, BEEP_PERIOD_S * 1000);
+      } else if (!sounding && timer !== undefined) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+    },
+    close: () => {
+      if (timer !== undefined) clearInterval(timer);
+      audio.close();
+    },
+  };
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { REGULATORY_PRESETS, RegulatoryPreset, areaThresholds, classifyDoseRate } from './areaClassification';
+
+const preset = (id: string): RegulatoryPreset => REGULATORY_PRESETS.find(p => p.id === id)!;
+
+describe('areaThresholds', () => {
+  it('spreads the annual dose over the working year', () => {
+    // 6 mSv and 1 mSv over 2000 h
+    expect(areaThresholds(preset('eu-bss'))).toEqual({ controlledUSvH: 3, supervisedUSvH: 0.5 });
+  });
+
+  it('takes the stricter of the annual and instantaneous criteria', () => {
+    // The annual limits give 3 and 0.5 µSv/h, below the 7.5 and 2.5 µSv/h rate thresholds
+    expect(areaThresholds(preset('uk-irr17'))).toEqual({ controlledUSvH: 3, supervisedUSvH: 0.5 });
+    expect(areaThresholds({ ...preset('uk-irr17'), controlledAnnualMSv: 20 })).toEqual({
+      controlledUSvH: 7.5,
+      supervisedUSvH: 0.5,
+    });
+  });
+
+  it('falls back to the rate threshold when no annual dose is set', () => {
+    expect(areaThresholds(preset('us-nrc'))).toEqual({ controlledUSvH: 50, supervisedUSvH: 0.5 });
+  });
+
+  it('never classifies when a preset sets no criterion', () => {
+    const thresholds = areaThresholds({ id: 'none', name: 'None', workingHoursPerYear: 2000 });
+    expect(thresholds).toEqual({ controlledUSvH: Infinity, supervisedUSvH: Infinity });
+    expect(classifyDoseRate(1e6, thresholds)).toBe('unclassified');
+  });
+});
+
+describe('classifyDoseRate', () => {
+  const thresholds = { controlledUSvH: 3, supervisedUSvH: 0.5 };
+
+  it('classifies at and above each threshold', () => {
+    expect(classifyDoseRate(0.49, thresholds)).toBe('unclassified');
+    expect(classifyDoseRate(0.5, thresholds)).toBe('supervised');
+    expect(classifyDoseRate(2.99, thresholds)).toBe('supervised');
+    expect(classifyDoseRate(3, thresholds)).toBe('controlled');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Designation of controlled and supervised areas around the bench. An area is classified from the dose
+ * rate the practice adds (background excluded), against either an annual dose spread over the working
+ * year or an instantaneous dose-rate threshold, whichever is stricter.
+ */
+
+export type AreaClass = 'controlled' | 'supervised' | 'unclassified';
+
+export interface RegulatoryPreset {
+  id: string;
+  name: string;
+  // Each criterion is optional; an area is classified as soon as any one that is set is exceeded
+  controlledAnnualMSv?: number; // Annual dose above which an area is controlled
+  supervisedAnnualMSv?: number;
+  workingHoursPerYear: number;
+  controlledRateUSvH?: number; // Instantaneous rate thresholds, where the jurisdiction sets them
+  supervisedRateUSvH?: number;
+}
+
+export const REGULATORY_PRESETS: RegulatoryPreset[] = [
+  {
+    // Euratom 2013/59 as transposed in Spain (RD 1029/2022): annual limits over 2000 working hours
+    id: 'eu-bss',
+    name: 'EU BSS / Spain',
+    controlledAnnualMSv: 6,
+    supervisedAnnualMSv: 1,
+    workingHoursPerYear: 2000,
+  },
+  {
+    // IRR17 keeps the 7.5 µSv/h time-averaged rate of the earlier regulations for controlled areas
+    id: 'uk-irr17',
+    name: 'UK IRR17',
+    controlledAnnualMSv: 6,
+    supervisedAnnualMSv: 1,
+    workingHoursPerYear: 2000,
+    controlledRateUSvH: 7.5,
+    supervisedRateUSvH: 2.5,
+  },
+  {
+    // 10 CFR 20: "radiation area" at 0.05 mSv in an hour; restricted areas where the public could get
+    // 1 mSv in a year or 0.02 mSv in any hour
+    id: 'us-nrc',
+    name: 'US NRC 10 CFR 20',
+    supervisedAnnualMSv: 1,
+    workingHoursPerYear: 2000,
+    controlledRateUSvH: 50,
+    supervisedRateUSvH: 20,
+  },
+];
+
+export const DEFAULT_PRESET_ID = 'eu-bss';
+export const CUSTOM_PRESET_ID = 'custom';
+
+// Net dose rates, µSv/h, at and above which an area is classified
+export interface AreaThresholds {
+  controlledUSvH: number;
+  supervisedUSvH: number;
+}
+
+// Continuous rate that delivers the annual dose over the working year; no criterion means no threshold
+const annualToRate = (annualMSv: number | undefined, hours: number): number =>
+  annualMSv === undefined ? Infinity : (annualMSv * 1000) / hours;
+
+export const areaThresholds = (preset: RegulatoryPreset): AreaThresholds => ({
+  controlledUSvH: Math.min(
+    annualToRate(preset.controlledAnnualMSv, preset.workingHoursPerYear),
+    preset.controlledRateUSvH ?? Infinity
+  ),
+  supervisedUSvH: Math.min(
+    annualToRate(preset.supervisedAnnualMSv, preset.workingHoursPerYear),
+    preset.supervisedRateUSvH ?? Infinity
+  ),
+});
+
+export const classifyDoseRate = (netRateUSvH: number, thresholds: AreaThresholds): AreaClass => {
+  if (netRateUSvH >= thresholds.controlledUSvH) return 'controlled';
+  if (netRateUSvH >= thresholds.supervisedUSvH) return 'supervised';
+  return 'unclassified';
+};
+
+// Red and amber, as on area warning signs
+export const AREA_CLASS_COLORS: Record<AreaClass, string> = {
+  controlled: '#ef4444',
+  supervised: '#f59e0b',
+  unclassified: '#9ca3af',
+};
@@ -0,0 +1,639 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DoseModelParams } from './doseModel';
+import { DETECTORS, DetectorType } from './detectors';
+import { CanvasLayout, LabGeometry, benchToCanvasX, canvasToBenchX } from './geometry';
+import { MATERIALS } from './materials';
+import { ShieldSlab } from './shielding';
+import { ProbeState, SceneView, SimulationSetup, probeAngleDeg, probeDistanceCm } from './simulation';
+import { Probe, probeColor } from './probes';
+import { ParticlePool, PARTICLE_KINDS, historyIndex } from './particlePool';
+import { ExperimenterPosition } from './dosimeter';
+import { formatActivity } from './sourceActivity';
+import { ISOTOPES } from './isotopes';
+import { AreaClass, AreaThresholds, AREA_CLASS_COLORS, classifyDoseRate } from './areaClassification';
+import {
+  FieldGrid, fieldDoseRate, heatmapFraction, heatmapHue, sampleFieldGrid, contourSegments, formatDoseLevel,
+} from './doseField';
+import { LocaleText, Translator } from './i18n';
+import { DisplayUnits } from './units';
+
+/*
+ * Draws the bench and the particle pool. Works on a page canvas or an OffscreenCanvas in a worker,
+ * so it only touches the 2D context it is given.
+ */
+
+// --- Simulation Constants (Real Lab Setup) ---
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 400;
+export const CENTER_Y = CANVAS_HEIGHT / 2;
+export const FLOOR_Y = CANVAS_HEIGHT - 20;
+
+export const DETECTOR_HOUSING_PADDING = 4; // Casing around the sensitive volume, pixels
+const MIN_SLAB_VISUAL_PX = 3; // Thin absorbers are drawn slightly thicker so they can be grabbed
+
+export type BenchContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface BenchFrame {
+  setup: SimulationSetup;
+  layout: CanvasLayout;
+  modelParams: DoseModelParams;
+  heatmap: HeatmapImage | null; // Drawn instead of the particles when set
+  areaOverlay: HeatmapImage | null;
+  highlightedSlabId: number | null; // Slab being dragged
+  experimenter: { position: ExperimenterPosition; alarm: boolean } | null;
+  probes: Probe[];
+  selectedProbeId: number | null; // Outlined in its colour
+  pool: ParticlePool;
+  drawLimit: number; // Most particles drawn; above it an even spread of the pool stands for the rest
+  alpha: number; // Fraction of a transport step since the last one; particles are drawn interpolated
+  i18n: Translator; // Wording and number format of the labels
+  units: DisplayUnits; // Of the distances and dose rates in the labels
+}
+
+// Canvas footprint of a detector's sensitive volume and housing
+export const detectorGeometry = (detector: DetectorType, pxPerCm: number) => {
+  const sensitiveWidth = detector.sensitiveWidthCm * pxPerCm;
+  const sensitiveHeight = detector.sensitiveHeightCm * pxPerCm;
+  return {
+    sensitiveWidth,
+    sensitiveHeight,
+    housingWidth: sensitiveWidth + 2 * DETECTOR_HOUSING_PADDING,
+    housingHeight: sensitiveHeight + 2 * DETECTOR_HOUSING_PADDING,
+  };
+};
+
+// Canvas point of the centre of the probe's window, which it turns about
+export const probeCanvasPosition = (probe: ProbeState, layout: CanvasLayout) => ({
+  x: layout.targetFaceX + probe.distanceCm * layout.pxPerCm,
+  y: CENTER_Y + probe.probeOffsetCm * layout.pxPerCm,
+});
+
+// Canvas footprint of a shielding slab, drawn at least MIN_SLAB_VISUAL_PX wide
+export const slabGeometry = (slab: ShieldSlab, layout: CanvasLayout) => {
+  const x = layout.targetFaceX + slab.positionCm * layout.pxPerCm;
+  const width = (slab.thicknessMm / 10) * layout.pxPerCm;
+  const height = slab.heightCm * layout.pxPerCm;
+  return {
+    x,
+    width,
+    visualWidth: Math.max(width, MIN_SLAB_VISUAL_PX),
+    top: CENTER_Y - height / 2,
+    height,
+  };
+};
+
+// Canvas footprint of the experimenter figure; the dosimeter sits on the chest, at the position itself
+export const experimenterGeometry = (position: ExperimenterPosition, layout: CanvasLayout) => {
+  const x = layout.targetFaceX + position.xCm * layout.pxPerCm;
+  const y = CENTER_Y + position.yCm * layout.pxPerCm;
+  return { x, y, left: x - 12, right: x + 12, top: y - 30, bottom: y + 40 };
+};
+
+// The transport region is the visible canvas plus a margin, so particles leave just off-screen
+export const canvasSceneView = (layout: CanvasLayout, geometry: LabGeometry): SceneView => {
+  const margin = 20 / layout.pxPerCm;
+  return {
+    bounds: {
+      xMin: canvasToBenchX(layout, geometry, 0) - margin,
+      xMax: canvasToBenchX(layout, geometry, CANVAS_WIDTH) + margin,
+      yMin: -CENTER_Y / layout.pxPerCm - margin,
+      yMax: (CANVAS_HEIGHT - CENTER_Y) / layout.pxPerCm + margin,
+    },
+    detectorWallCm: DETECTOR_HOUSING_PADDING / layout.pxPerCm,
+  };
+};
+
+// --- Heatmap ---
+
+const HEATMAP_BLOCK_PX = 8; // Colour blocks
+const CONTOUR_GRID_PX = 4; // Field samples for the isodose lines, every other one starts a block
+const CONTOUR_LABEL_MARGIN_PX = 14;
+
+export type HeatmapImage = OffscreenCanvas | HTMLCanvasElement;
+
+// The field image only depends on these; moving the probe or swapping detectors reuses it
+const fieldInputs = (setup: SimulationSetup) =>
+  [setup.geometry, setup.targetMaterialId, setup.slabs, setup.sourceOpen, setup.isotopeId, setup.activityMBq];
+
+export const heatmapKey = (
+  setup: SimulationSetup,
+  isodoseLevels: number[],
+  text: LocaleText,
+  units: DisplayUnits
+): string => JSON.stringify([...fieldInputs(setup), isodoseLevels, text.localeId, units.doseRate]);
+
+// A contour's dose rate as its label shows it
+const contourRate = (doseRate: number, i18n: Translator, units: DisplayUnits): string =>
+  `${formatDoseLevel(doseRate * units.doseRate.perUSvH, i18n)} ${units.doseRate.symbol}`;
+
+// Offset in cm from the centre of the target face, where the field is measured from, of a canvas point
+export const fieldOffsetAt = (layout: CanvasLayout, canvasX: number, canvasY: number) => ({
+  dxCm: (canvasX - layout.targetFaceX) / layout.pxPerCm,
+  dyCm: (canvasY - CENTER_Y) / layout.pxPerCm,
+});
+
+const createSurface = (width: number, height: number): HeatmapImage => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const surfaceContext = (image: HeatmapImage): BenchContext => {
+  const ctx = image.getContext('2d') as BenchContext | null;
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  return ctx;
+};
+
+// The dose-rate field sampled every CONTOUR_GRID_PX across the canvas
+const sampleBenchField = (setup: SimulationSetup, layout: CanvasLayout, modelParams: DoseModelParams): FieldGrid =>
+  sampleFieldGrid(
+    Math.floor(CANVAS_WIDTH / CONTOUR_GRID_PX) + 1,
+    Math.floor(CANVAS_HEIGHT / CONTOUR_GRID_PX) + 1,
+    (i, j) => {
+      const { dxCm, dyCm } = fieldOffsetAt(layout, i * CONTOUR_GRID_PX, j * CONTOUR_GRID_PX);
+      return fieldDoseRate(setup, modelParams, dxCm, dyCm);
+    }
+  );
+
+// Value the colour block with top-left corner (x, y) takes
+const blockValue = (grid: FieldGrid, x: number, y: number): number =>
+  grid.values[(y / CONTOUR_GRID_PX) * grid.cols + x / CONTOUR_GRID_PX];
+
+// Draws the contour at `level` and returns the highest point where a label fits, if any
+const strokeContour = (ctx: BenchContext, grid: FieldGrid, level: number): { x: number; y: number } | null => {
+  const segments = contourSegments(grid, level);
+  let label: { x: number; y: number } | null = null;
+  if (segments.length === 0) return label;
+
+  ctx.beginPath();
+  for (const seg of segments) {
+    const x1 = seg.x1 * CONTOUR_GRID_PX;
+    const y1 = seg.y1 * CONTOUR_GRID_PX;
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(seg.x2 * CONTOUR_GRID_PX, seg.y2 * CONTOUR_GRID_PX);
+    const fits = y1 >= CONTOUR_LABEL_MARGIN_PX &&
+      x1 >= 2 * CONTOUR_LABEL_MARGIN_PX && x1 <= CANVAS_WIDTH - 2 * CONTOUR_LABEL_MARGIN_PX;
+    if (fits && (!label || y1 < label.y)) label = { x: x1, y: y1 };
+  }
+  ctx.stroke();
+  return label;
+};
+
+// Contour label with a dark outline so it reads on any background
+const drawContourLabel = (ctx: BenchContext, text: string, at: { x: number; y: number }, color: string) => {
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.lineWidth = 3;
+  ctx.strokeText(text, at.x, at.y - 3);
+  ctx.fillStyle = color;
+  ctx.fillText(text, at.x, at.y - 3);
+};
+
+/**
+ * Renders the dose-rate field with its isodose lines into an image the size of the bench canvas.
+ * The field is sampled once on a fine grid; colour blocks and contours both come from it.
+ */
+export const renderHeatmap = (
+  setup: SimulationSetup,
+  layout: CanvasLayout,
+  modelParams: DoseModelParams,
+  isodoseLevels: number[],
+  i18n: Translator,
+  units: DisplayUnits
+): HeatmapImage => {
+  const image = createSurface(CANVAS_WIDTH, CANVAS_HEIGHT);
+  const ctx = surfaceContext(image);
+  const grid = sampleBenchField(setup, layout, modelParams);
+
+  // Low-res colour blocks, each taking the field at its top-left corner
+  for (let x = 0; x < CANVAS_WIDTH; x += HEATMAP_BLOCK_PX) {
+    for (let y = 0; y < CANVAS_HEIGHT; y += HEATMAP_BLOCK_PX) {
+      const value = blockValue(grid, x, y);
+      ctx.fillStyle = `hsla(${heatmapHue(heatmapFraction(value))}, 100%, 50%, 0.4)`;
+      ctx.fillRect(x, y, HEATMAP_BLOCK_PX, HEATMAP_BLOCK_PX);
+    }
+  }
+
+  // Isodose lines, each labelled at its highest visible point
+  ctx.font = '10px Inter';
+  ctx.textAlign = 'center';
+  ctx.lineJoin = 'round';
+  isodoseLevels.forEach(level => {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    const label = strokeContour(ctx, grid, level);
+    ctx.setLineDash([]);
+    if (label) drawContourLabel(ctx, contourRate(level, i18n, units), label, '#fff');
+  });
+
+  return image;
+};
+
+// --- Area classification ---
+
+// Zone tints, drawn at the field-sample resolution so the edges follow the boundary lines
+const AREA_FILLS: Record<Exclude<AreaClass, 'unclassified'>, string> = {
+  controlled: 'rgba(239, 68, 68, 0.18)',
+  supervised: 'rgba(245, 158, 11, 0.14)',
+};
+
+export const areaOverlayKey = (
+  setup: SimulationSetup,
+  thresholds: AreaThresholds,
+  text: LocaleText,
+  units: DisplayUnits
+): string => JSON.stringify([...fieldInputs(setup), thresholds, text.localeId, units.doseRate]);
+
+/**
+ * Renders the controlled and supervised areas with their boundaries. Thresholds apply to the dose rate
+ * the source adds, so the field is compared against them with the background taken off.
+ */
+export const renderAreaOverlay = (
+  setup: SimulationSetup,
+  layout: CanvasLayout,
+  modelParams: DoseModelParams,
+  thresholds: AreaThresholds,
+  i18n: Translator,
+  units: DisplayUnits
+): HeatmapImage => {
+  const image = createSurface(CANVAS_WIDTH, CANVAS_HEIGHT);
+  const ctx = surfaceContext(image);
+  const grid = sampleBenchField(setup, layout, modelParams);
+
+  for (let x = 0; x < CANVAS_WIDTH; x += CONTOUR_GRID_PX) {
+    for (let y = 0; y < CANVAS_HEIGHT; y += CONTOUR_GRID_PX) {
+      const area = classifyDoseRate(blockValue(grid, x, y) - modelParams.b, thresholds);
+      if (area === 'unclassified') continue;
+      ctx.fillStyle = AREA_FILLS[area];
+      ctx.fillRect(x, y, CONTOUR_GRID_PX, CONTOUR_GRID_PX);
+    }
+  }
+
+  ctx.font = '10px Inter';
+  ctx.textAlign = 'center';
+  ctx.lineJoin = 'round';
+  const boundaries: [Exclude<AreaClass, 'unclassified'>, number][] = [
+    ['controlled', thresholds.controlledUSvH],
+    ['supervised', thresholds.supervisedUSvH],
+  ];
+  boundaries.forEach(([area, netRate]) => {
+    ctx.strokeStyle = AREA_CLASS_COLORS[area];
+    ctx.lineWidth = 1.5;
+    const label = strokeContour(ctx, grid, netRate + modelParams.b);
+    if (label) {
+      const text = i18n.t('bench.areaBoundary', { area: i18n.t(`area.${area}`), rate: contourRate(netRate, i18n, units) });
+      drawContourLabel(ctx, text, label, AREA_CLASS_COLORS[area]);
+    }
+  });
+
+  return image;
+};
+
+const drawParticles = (ctx: BenchContext, frame: BenchFrame) => {
+  const { pool, layout, setup } = frame;
+  const toCanvasX = (x: number) => benchToCanvasX(layout, setup.geometry, x);
+  const toCanvasY = (y: number) => CENTER_Y + y * layout.pxPerCm;
+
+  // Trail from the head back through the ring buffer, from the last completed step to the oldest point
+  const drawTrail = (i: number, headX: number, headY: number) => {
+    ctx.beginPath();
+    ctx.moveTo(headX, headY);
+    for (let k = pool.historyLength[i] - 2; k >= 0; k--) {
+      const h = historyIndex(pool, i, k);
+      ctx.lineTo(toCanvasX(pool.historyX[h]), toCanvasY(pool.historyY[h]));
+    }
+    ctx.stroke();
+  };
+
+  // Only the drawing is thinned out; the transport and the counts still follow every particle
+  const drawn = Math.min(pool.count, frame.drawLimit);
+  const stride = drawn > 0 ? pool.count / drawn : 1;
+  for (let n = 0; n < drawn; n++) {
+    const i = Math.floor(n * stride);
+    const kind = PARTICLE_KINDS[pool.kind[i]];
+    const life = pool.life[i];
+    const hasTrail = pool.historyLength[i] > 1;
+
+    // The newest trail point is the current position; the head sits between it and the one before
+    let x = pool.x[i];
+    let y = pool.y[i];
+    if (hasTrail) {
+      const previous = historyIndex(pool, i, pool.historyLength[i] - 2);
+      x = pool.historyX[previous] + (x - pool.historyX[previous]) * frame.alpha;
+      y = pool.historyY[previous] + (y - pool.historyY[previous]) * frame.alpha;
+    }
+    const headX = toCanvasX(x);
+    const headY = toCanvasY(y);
+
+    if (kind === 'beta' || kind === 'transmitted_beta') {
+      // Beta: Blue fast streaks with trail
+      ctx.strokeStyle = `rgba(0, 136, 255, ${life / 200})`;
+      ctx.lineWidth = 1.5;
+      if (hasTrail) {
+        drawTrail(i, headX, headY);
+      } else {
+        // Fallback for new particles
+        ctx.beginPath();
+        ctx.moveTo(headX - pool.ux[i] * 10, headY - pool.uy[i] * 10);
+        ctx.lineTo(headX, headY);
+        ctx.stroke();
+      }
+    } else if (kind === 'photon') {
+      // Bremsstrahlung Photon: Yellow dots/waves with subtle trail
+      if (hasTrail) {
+        ctx.strokeStyle = `rgba(255, 255, 0, ${life / 400})`; // Very subtle yellow trail
+        ctx.lineWidth = 0.5;
+        drawTrail(i, headX, headY);
+      }
+
+      ctx.fillStyle = `rgba(255, 255, 0, ${life / 100})`;
+      ctx.beginPath();
+      ctx.arc(headX, headY, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (kind === 'gamma') {
+      // Gamma from the source capsule: Magenta dots with trail
+      if (hasTrail) {
+        ctx.strokeStyle = `rgba(236, 72, 153, ${life / 500})`;
+        ctx.lineWidth = 0.5;
+        drawTrail(i, headX, headY);
+      }
+
+      ctx.fillStyle = `rgba(236, 72, 153, ${Math.min(0.9, life / 100)})`;
+      ctx.beginPath();
+      ctx.arc(headX, headY, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    } else {
+      // Background Photon: Trail
+      if (hasTrail) {
+        ctx.strokeStyle = `rgba(255, 255, 100, ${life / 500})`; // Faint trail
+        ctx.lineWidth = 0.5;
+        drawTrail(i, headX, headY);
+      }
+
+      ctx.fillStyle = `rgba(255, 255, 100, ${Math.min(0.8, life / 100)})`;
+      ctx.beginPath();
+      ctx.arc(headX, headY, 1.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+};
+
+const drawExperimenter = (
+  ctx: BenchContext,
+  position: ExperimenterPosition,
+  alarm: boolean,
+  layout: CanvasLayout,
+  i18n: Translator
+) => {
+  const body = experimenterGeometry(position, layout);
+
+  if (alarm) {
+    ctx.fillStyle = 'rgba(239, 68, 68, 0.25)';
+    ctx.beginPath();
+    ctx.arc(body.x, body.y, 28, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Head, torso, arms and legs
+  ctx.strokeStyle = '#cbd5e1';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(body.x, body.top + 7, 7, 0, Math.PI * 2);
+  ctx.moveTo(body.x, body.top + 14);
+  ctx.lineTo(body.x, body.y + 18);
+  ctx.moveTo(body.left, body.y + 4);
+  ctx.lineTo(body.x, body.y - 8);
+  ctx.lineTo(body.right, body.y + 4);
+  ctx.moveTo(body.x - 9, body.bottom);
+  ctx.lineTo(body.x, body.y + 18);
+  ctx.lineTo(body.x + 9, body.bottom);
+  ctx.stroke();
+
+  // Dosimeter badge with its status light
+  ctx.fillStyle = '#1f2937';
+  ctx.fillRect(body.x - 4, body.y - 5, 8, 10);
+  ctx.fillStyle = alarm ? '#ef4444' : '#22c55e';
+  ctx.beginPath();
+  ctx.arc(body.x, body.y - 1, 2, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = alarm ? '#fca5a5' : '#cbd5e1';
+  ctx.textAlign = 'center';
+  ctx.fillText(i18n.t('bench.experimenter'), body.x, body.top - 6);
+};
+
+// A distance on the bench with its unit; probe markers drop a decimal so they stay short
+const markerDistance = (cm: number, i18n: Translator, units: DisplayUnits, digits = units.distance.digits): string =>
+  `${i18n.number(cm * units.distance.perCm, digits)} ${units.distance.symbol}`;
+
+// A probe turned about the centre of its window, on a stand, with its label and distance from the target
+const drawProbe = (
+  ctx: BenchContext,
+  probe: Probe,
+  color: string,
+  selected: boolean,
+  layout: CanvasLayout,
+  i18n: Translator,
+  units: DisplayUnits
+) => {
+  const detector = DETECTORS[probe.detectorId];
+  const { x: detectorX, y: detectorY } = probeCanvasPosition(probe, layout);
+  const head = detectorGeometry(detector, layout.pxPerCm);
+  const reach = head.housingHeight / 2 + head.housingWidth; // Enough to clear the head at any rotation
+
+  // Stand for detector
+  ctx.strokeStyle = '#444';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.moveTo(detectorX, FLOOR_Y);
+  ctx.lineTo(detectorX, detectorY);
+  ctx.stroke();
+
+  ctx.save();
+  ctx.translate(detectorX, detectorY);
+  ctx.rotate(probe.probeRotationDeg * Math.PI / 180);
+
+  // Detector Head
+  ctx.fillStyle = '#222';
+  ctx.fillRect(0, -head.housingHeight / 2, head.housingWidth, head.housingHeight);
+  ctx.strokeStyle = selected ? color : '#666';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(0, -head.housingHeight / 2, head.housingWidth, head.housingHeight);
+
+  // Sensitive Volume
+  ctx.fillStyle = '#114411';
+  ctx.fillRect(DETECTOR_HOUSING_PADDING, -head.sensitiveHeight / 2, head.sensitiveWidth, head.sensitiveHeight);
+
+  // Window
+  ctx.strokeStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(0, -head.housingHeight / 2);
+  ctx.lineTo(0, head.housingHeight / 2);
+  ctx.stroke();
+  ctx.restore();
+
+  // Label, then the distance from the centre of the target face with the angle once off the axis
+  const angle = Math.round(probeAngleDeg(probe));
+  ctx.textAlign = 'center';
+  ctx.fillStyle = color;
+  ctx.fillText(`${probe.label} (${detector.shortName})`, detectorX, detectorY - reach - 18);
+  ctx.fillStyle = '#fff';
+  const distance = markerDistance(probeDistanceCm(probe), i18n, units, units.distance.digits - 1);
+  ctx.fillText(
+    angle !== 0 ? i18n.t('bench.probeDistanceAngle', { distance, angle }) : i18n.t('bench.probeDistance', { distance }),
+    detectorX,
+    detectorY - reach - 6
+  );
+};
+
+export const drawBench = (ctx: BenchContext, frame: BenchFrame) => {
+  const { setup, layout } = frame;
+  const { geometry, slabs } = setup;
+  const targetMaterial = MATERIALS[setup.targetMaterialId];
+  const { i18n, units } = frame;
+
+  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  // OPTIONAL: Draw Heatmap layer
+  if (frame.heatmap) {
+    ctx.drawImage(frame.heatmap, 0, 0);
+  }
+  if (frame.areaOverlay) {
+    ctx.drawImage(frame.areaOverlay, 0, 0);
+  }
+
+  // 0. Draw Floor Line
+  ctx.strokeStyle = '#333';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(0, FLOOR_Y);
+  ctx.lineTo(CANVAS_WIDTH, FLOOR_Y);
+  ctx.stroke();
+
+  // 1. Draw "Percha" (Floor Stand) - Left Side
+  ctx.strokeStyle = '#aaa';
+  ctx.lineWidth = 5;
+  ctx.beginPath();
+
+  // Base on floor
+  ctx.moveTo(layout.sourceX - 30, FLOOR_Y);
+  ctx.lineTo(layout.sourceX + 30, FLOOR_Y);
+
+  // Vertical stand
+  ctx.moveTo(layout.sourceX, FLOOR_Y);
+  ctx.lineTo(layout.sourceX, CENTER_Y);
+
+  // Holder Arm (Curve or clamp)
+  ctx.moveTo(layout.sourceX, CENTER_Y);
+  ctx.lineTo(layout.sourceX + 15, CENTER_Y); // Little arm holding source
+  ctx.stroke();
+
+  // 2. Draw Source
+  ctx.fillStyle = '#222';
+  // Housing
+  ctx.fillRect(layout.sourceX + 15, CENTER_Y - 8, 20, 16);
+
+  // Active element
+  ctx.fillStyle = setup.sourceOpen ? '#00ffaa' : '#333';
+  ctx.beginPath();
+  ctx.arc(layout.emitterX, CENTER_Y, 4, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Label Source
+  ctx.fillStyle = '#888';
+  ctx.font = '10px Inter';
+  ctx.fillText(`${ISOTOPES[setup.isotopeId].name} (${formatActivity(setup.activityMBq, i18n)})`, layout.sourceX - 20, CENTER_Y - 20);
+
+  // 3. Draw Target (PMMA is glassy, metals are opaque)
+  ctx.fillStyle = targetMaterial.color;
+  ctx.strokeStyle = 'rgba(200, 230, 255, 0.6)';
+  ctx.lineWidth = 1;
+
+  const targetTop = CENTER_Y - layout.targetHeight / 2;
+  ctx.fillRect(layout.targetX, targetTop, layout.targetWidth, layout.targetHeight);
+  ctx.strokeRect(layout.targetX, targetTop, layout.targetWidth, layout.targetHeight);
+
+  // Label Target
+  ctx.fillStyle = '#aaddee';
+  ctx.textAlign = 'center';
+  ctx.fillText(
+    i18n.t('bench.target', { material: targetMaterial.name, thickness: geometry.targetThicknessMm }),
+    layout.targetX + layout.targetWidth / 2,
+    targetTop - 10
+  );
+
+  // Draw source-to-target marker arrow
+  ctx.strokeStyle = '#555';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(layout.emitterX, CENTER_Y + 50);
+  ctx.lineTo(layout.targetX, CENTER_Y + 50);
+  ctx.stroke();
+  ctx.fillStyle = '#555';
+  ctx.fillText(
+    markerDistance(geometry.sourceToTargetCm, i18n, units),
+    layout.emitterX + ((layout.targetX - layout.emitterX) / 2),
+    CENTER_Y + 65
+  );
+
+  // 4. Draw Shielding Slabs
+  slabs.forEach(slab => {
+    const material = MATERIALS[slab.materialId];
+    const rect = slabGeometry(slab, layout);
+
+    ctx.fillStyle = material.color;
+    ctx.fillRect(rect.x, rect.top, rect.visualWidth, rect.height);
+    ctx.strokeStyle = frame.highlightedSlabId === slab.id ? '#60a5fa' : 'rgba(220, 220, 230, 0.6)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(rect.x, rect.top, rect.visualWidth, rect.height);
+
+    // Base on the floor
+    ctx.strokeStyle = '#444';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(rect.x + rect.visualWidth / 2, rect.top + rect.height);
+    ctx.lineTo(rect.x + rect.visualWidth / 2, FLOOR_Y);
+    ctx.stroke();
+
+    ctx.fillStyle = '#ccc';
+    ctx.textAlign = 'center';
+    ctx.fillText(
+      i18n.t('bench.slab', { material: material.name, thickness: slab.thicknessMm }),
+      rect.x + rect.visualWidth / 2,
+      rect.top - 6
+    );
+  });
+
+  // 5. Draw Detectors, the selected one last so it stays on top
+  const selectedIndex = frame.probes.findIndex(p => p.id === frame.selectedProbeId);
+  frame.probes.forEach((probe, i) => {
+    if (i !== selectedIndex) drawProbe(ctx, probe, probeColor(i), false, layout, i18n, units);
+  });
+  if (selectedIndex >= 0) drawProbe(ctx, frame.probes[selectedIndex], probeColor(selectedIndex), true, layout, i18n, units);
+
+  // 6. Draw Experimenter with personal dosimeter
+  if (frame.experimenter) {
+    drawExperimenter(ctx, frame.experimenter.position, frame.experimenter.alarm, layout, i18n);
+  }
+
+  // 7. Draw Particles (Only if heatmap is OFF)
+  if (!frame.heatmap) {
+    drawParticles(ctx, frame);
+  }
+};
+
+// The frame drawn `scale` times larger, for stills sharper than the on-screen canvas
+export const renderBenchImage = (frame: BenchFrame, scale: number): HeatmapImage => {
+  const image = createSurface(Math.round(CANVAS_WIDTH * scale), Math.round(CANVAS_HEIGHT * scale));
+  const ctx = surfaceContext(image);
+  ctx.scale(scale, scale);
+  // A still is drawn once, so it can show every particle
+  drawBench(ctx, { ...frame, drawLimit: frame.pool.count });
+  return image;
+};
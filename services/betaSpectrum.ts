@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const ELECTRON_MASS_MEV = 0.511;
+const FINE_STRUCTURE = 1 / 137.036;
+const SPECTRUM_BINS = 400;
+
+export interface BetaEmitter {
+  nuclide: string;
+  endpointMeV: number;
+  daughterZ: number;
+  // Both members of the chain are unique first-forbidden decays, shape factor p² + q²
+  shape: 'allowed' | 'unique-first-forbidden';
+}
+
+export const SR90: BetaEmitter = { nuclide: 'Sr-90', endpointMeV: 0.546, daughterZ: 39, shape: 'unique-first-forbidden' };
+export const Y90: BetaEmitter = { nuclide: 'Y-90', endpointMeV: 2.28, daughterZ: 40, shape: 'unique-first-forbidden' };
+
+// Tabulated cumulative distribution of the kinetic energy, for inverse-transform sampling
+export interface BetaSpectrum {
+  emitter: BetaEmitter;
+  energiesMeV: number[]; // Bin edges, 0 … endpoint
+  cdf: number[]; // Same length, cdf[0] = 0 and cdf[last] = 1
+  meanMeV: number;
+}
+
+// Relativistic momentum (in units of m_e·c) and total energy (in m_e·c²) of an electron
+const electronMomentum = (kineticMeV: number): number => {
+  const w = 1 + kineticMeV / ELECTRON_MASS_MEV;
+  return Math.sqrt(w * w - 1);
+};
+
+/**
+ * dN/dT ∝ F(Z, T) · p · W · (Q − T)² · S(p, q), with the non-relativistic Fermi function
+ * F = 2πη / (1 − e^(−2πη)), η = Z·α·W/p.
+ */
+const spectralDensity = (emitter: BetaEmitter, kineticMeV: number): number => {
+  if (kineticMeV <= 0 || kineticMeV >= emitter.endpointMeV) return 0;
+  const p = electronMomentum(kineticMeV);
+  const w = 1 + kineticMeV / ELECTRON_MASS_MEV;
+  const q = (emitter.endpointMeV - kineticMeV) / ELECTRON_MASS_MEV; // Neutrino momentum
+  const eta = emitter.daughterZ * FINE_STRUCTURE * w / p;
+  const fermi = 2 * Math.PI * eta / (1 - Math.exp(-2 * Math.PI * eta));
+  const shape = emitter.shape === 'unique-first-forbidden' ? p * p + q * q : 1;
+  return fermi * p * w * q * q * shape;
+};
+
+export const buildBetaSpectrum = (emitter: BetaEmitter): BetaSpectrum => {
+  const energiesMeV: number[] = [];
+  const cdf: number[] = [0];
+  let total = 0;
+  let energyMoment = 0;
+
+  for (let i = 0; i <= SPECTRUM_BINS; i++) energiesMeV.push((emitter.endpointMeV * i) / SPECTRUM_BINS);
+  for (let i = 1; i <= SPECTRUM_BINS; i++) {
+    const mid = (energiesMeV[i - 1] + energiesMeV[i]) / 2;
+    const weight = spectralDensity(emitter, mid);
+    total += weight;
+    energyMoment += weight * mid;
+    cdf.push(total);
+  }
+
+  return {
+    emitter,
+    energiesMeV,
+    cdf: cdf.map(c => c / total),
+    meanMeV: energyMoment / total,
+  };
+};
+
+export const sampleBetaEnergy = (spectrum: BetaSpectrum, random: () => number = Math.random): number => {
+  const u = random();
+  const { cdf, energiesMeV } = spectrum;
+  let lo = 0;
+  let hi = cdf.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (cdf[mid] < u) lo = mid; else hi = mid;
+  }
+  const span = cdf[hi] - cdf[lo];
+  const f = span > 0 ? (u - cdf[lo]) / span : 0;
+  return energiesMeV[lo] + f * (energiesMeV[hi] - energiesMeV[lo]);
+};
+
+// Sr-90 and Y-90 in secular equilibrium: every Sr-90 beta comes with a Y-90 beta
+export const SR90_CHAIN_SPECTRA: BetaSpectrum[] = [buildBetaSpectrum(SR90), buildBetaSpectrum(Y90)];
+
+export const sampleChainBetaEnergy = (
+  spectra: BetaSpectrum[] = SR90_CHAIN_SPECTRA,
+  random: () => number = Math.random
+): number => sampleBetaEnergy(spectra[Math.min(Math.floor(random() * spectra.length), spectra.length - 1)], random);
+
+// --- CSDA range (Katz–Penfold) ---
+
+const KP_A = 0.412;
+const KP_B = 1.265;
+const KP_C = 0.0954;
+
+/**
+ * Continuous-slowing-down range of an electron in g/cm², nearly independent of the medium:
+ * R = 0.412·T^(1.265 − 0.0954·ln T) below 2.5 MeV, R = 0.530·T − 0.106 above.
+ */
+export const csdaRange = (kineticMeV: number): number => {
+  if (kineticMeV <= 0) return 0;
+  if (kineticMeV > 2.5) return 0.530 * kineticMeV - 0.106;
+  const lnT = Math.log(kineticMeV);
+  return KP_A * Math.exp((KP_B - KP_C * lnT) * lnT);
+};
+
+// Inverse of csdaRange: the kinetic energy an electron needs to travel R g/cm²
+export const energyForRange = (rangeGCm2: number): number => {
+  if (rangeGCm2 <= 0) return 0;
+  if (rangeGCm2 > csdaRange(2.5)) return (rangeGCm2 + 0.106) / 0.530;
+  // ln R − ln a = b·u − c·u², u = ln T, taking the root on the rising branch
+  const rhs = Math.log(rangeGCm2 / KP_A);
+  const u = (KP_B - Math.sqrt(KP_B * KP_B - 4 * KP_C * rhs)) / (2 * KP_C);
+  return Math.exp(u);
+};
+
+// v/c of an electron with the given kinetic energy
+export const electronBeta = (kineticMeV: number): number => {
+  const gamma = 1 + kineticMeV / ELECTRON_MASS_MEV;
+  return Math.sqrt(1 - 1 / (gamma * gamma));
+};
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from './benchRenderer';
+import { createZip } from './zip';
+
+/*
+ * Clips and stills of the bench. The simulation hands over a copy of each frame it draws; here the
+ * frames are put on the page's background, optionally with the probe readings burned in, and then
+ * either fed to a MediaRecorder (WebM) or sampled into a ZIP of numbered PNGs.
+ */
+
+export type RecordingFormat = 'webm' | 'png-zip';
+
+export const RECORDING_FPS_OPTIONS = [10, 15, 24, 30, 60];
+export const DEFAULT_RECORDING_FPS = 30;
+export const STILL_SCALES = [2, 4];
+
+// Frames kept in a PNG sequence; about a minute at 30 fps, which already takes a few hundred MB
+export const MAX_PNG_FRAMES = 1800;
+
+// One line of the burned-in readout
+export interface OverlayLine {
+  label: string;
+  color: string;
+  text: string;
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const webmMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement.prototype.captureStream !== 'function') return null;
+  return WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('2D canvas context unavailable');
+  return { canvas, ctx };
+};
+
+// The readings box in the top-right corner, as on the page
+const drawOverlay = (ctx: CanvasRenderingContext2D, lines: OverlayLine[]) => {
+  if (lines.length === 0) return;
+  const lineHeight = 18;
+  const padding = 8;
+  ctx.font = 'bold 13px monospace';
+  const width = Math.max(...lines.map(l => ctx.measureText(`${l.label}  ${l.text}`).width)) + 2 * padding;
+  const height = lines.length * lineHeight + 2 * padding - 4;
+  const x = CANVAS_WIDTH - width - 12;
+  const y = 12;
+
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.9)';
+  ctx.strokeStyle = '#6b7280';
+  ctx.lineWidth = 1;
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeRect(x + 0.5, y + 0.5, width - 1, height - 1);
+
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => {
+    const ty = y + padding + i * lineHeight;
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.label, x + padding, ty);
+    ctx.fillStyle = '#facc15';
+    ctx.fillText(line.text, x + padding + ctx.measureText(`${line.label}  `).width, ty);
+  });
+};
+
+/**
+ * Puts a bench frame (of any resolution) on the page background at `scale` times the canvas size,
+ * with the readout on top when `overlay` has lines.
+ */
+const composeFrame = (
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  scale: number,
+  overlay: OverlayLine[] | null
+) => {
+  const width = CANVAS_WIDTH * scale;
+  const height = CANVAS_HEIGHT * scale;
+  const background = ctx.createLinearGradient(0, 0, 0, height);
+  background.addColorStop(0, '#151b25');
+  background.addColorStop(1, '#0d0e12');
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  if (overlay) {
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    drawOverlay(ctx, overlay);
+  }
+};
+
+const canvasBlob = (canvas: HTMLCanvasElement, type = 'image/png'): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the frame'))), type);
+  });
+
+// A still from a bench image already rendered at `scale`, composed the same way as the recordings
+export const composeStill = (image: ImageBitmap, scale: number, overlay: OverlayLine[] | null): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(CANVAS_WIDTH * scale, CANVAS_HEIGHT * scale);
+  composeFrame(ctx, image, scale, overlay);
+  image.close();
+  return canvasBlob(canvas);
+};
+
+export interface CanvasRecorder {
+  format: RecordingFormat;
+  addFrame: (image: ImageBitmap) => void; // Takes ownership of the bitmap
+  frameCount: () => number; // Frames kept so far
+  full: () => boolean; // A PNG sequence has reached MAX_PNG_FRAMES
+  stop: () => Promise<Blob>; // The video or the ZIP
+  cancel: () => void;
+}
+
+export interface RecorderOptions {
+  format: RecordingFormat;
+  fps: number;
+  overlay: () => OverlayLine[] | null; // Read at every frame, so the burned-in readings stay live
+}
+
+const createWebmRecorder = (options: RecorderOptions): CanvasRecorder => {
+  const mimeType = webmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video; use the PNG frames instead.');
+  const { canvas, ctx } = createCanvas(CANVAS_WIDTH, CANVAS_HEIGHT);
+  const recorder = new MediaRecorder(canvas.captureStream(options.fps), { mimeType });
+  const chunks: Blob[] = [];
+  let frames = 0;
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000);
+
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  return {
+    format: 'webm',
+    addFrame: image => {
+      composeFrame(ctx, image, 1, options.overlay());
+      image.close();
+      frames++;
+    },
+    frameCount: () => frames,
+    full: () => false,
+    stop: async () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      return new Blob(chunks, { type: 'video/webm' });
+    },
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
+
+// Samples the incoming frames at the chosen rate and encodes each as it is taken
+const createPngRecorder = (options: RecorderOptions): CanvasRecorder => {
+  const { canvas, ctx } = createCanvas(CANVAS_WIDTH, CANVAS_HEIGHT);
+  const intervalMs = 1000 / options.fps;
+  const encoded: Promise<Uint8Array | null>[] = [];
+  let failure: unknown = null; // The first encoding error, reported when the recording stops
+  let nextFrameAt = performance.now();
+
+  return {
+    format: 'png-zip',
+    addFrame: image => {
+      const now = performance.now();
+      if (now + 1 < nextFrameAt || encoded.length >= MAX_PNG_FRAMES) {
+        image.close();
+        return;
+      }
+      // Stay on the sampling grid unless frames arrive late, and never catch up in a burst
+      nextFrameAt = Math.max(nextFrameAt + intervalMs, now);
+      composeFrame(ctx, image, 1, options.overlay());
+      image.close();
+      encoded.push(
+        canvasBlob(canvas)
+          .then(blob => blob.arrayBuffer())
+          .then(buffer => new Uint8Array(buffer))
+          .catch(error => {
+            failure ??= error;
+            return null;
+          })
+      );
+    },
+    frameCount: () => encoded.length,
+    full: () => encoded.length >= MAX_PNG_FRAMES,
+    stop: async () => {
+      const results = await Promise.all(encoded);
+      if (failure) throw failure;
+      const frames = results as Uint8Array[]; // Every frame encoded when nothing failed
+      const digits = Math.max(4, String(frames.length).length);
+      return createZip(frames.map((data, i) => ({ name: `frame-${String(i + 1).padStart(digits, '0')}.png`, data })));
+    },
+    cancel: () => {
+      encoded.length = 0;
+    },
+  };
+};
+
+export const createCanvasRecorder = (options: RecorderOptions): CanvasRecorder =>
+  options.format === 'webm' ? createWebmRecorder(options) : createPngRecorder(options);
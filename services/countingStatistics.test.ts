@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyDeadTime, correctDeadTime, countsToReading, formatDuration, netCountingTimes, readingFromSamples, samplePoisson,
+  timeForRelativeUncertainty, trimWindow,
+} from './countingStatistics';
+import { createRandom } from './random';
+
+describe('samplePoisson', () => {
+  // Both branches: Knuth's method below a mean of 10 and PTRS above it
+  it.each([3, 250])('has mean and variance equal to %d', (mean) => {
+    const random = createRandom(1);
+    const draws = Array.from({ length: 20_000 }, () => samplePoisson(mean, random));
+    const average = draws.reduce((sum, k) => sum + k, 0) / draws.length;
+    const variance = draws.reduce((sum, k) => sum + (k - average) ** 2, 0) / (draws.length - 1);
+    expect(Math.abs(average - mean)).toBeLessThan(5 * Math.sqrt(mean / draws.length));
+    expect(variance / mean).toBeGreaterThan(0.95);
+    expect(variance / mean).toBeLessThan(1.05);
+    expect(draws.every(k => Number.isInteger(k) && k >= 0)).toBe(true);
+  });
+
+  it('never counts anything for a zero mean', () => {
+    expect(samplePoisson(0)).toBe(0);
+  });
+});
+
+describe('dead time', () => {
+  it.each(['paralyzable', 'non-paralyzable'] as const)('%s correction inverts the losses', (model) => {
+    const deadTimeS = 1e-4;
+    for (const trueCps of [10, 500, 3000]) {
+      expect(correctDeadTime(applyDeadTime(trueCps, deadTimeS, model), deadTimeS, model)).toBeCloseTo(trueCps, 6);
+    }
+  });
+
+  it('saturates a paralyzable counter beyond its maximum rate', () => {
+    expect(correctDeadTime(1 / (Math.E * 1e-4) + 1, 1e-4, 'paralyzable')).toBe(1e4);
+  });
+
+  it('leaves the rate alone without a dead time', () => {
+    expect(applyDeadTime(1000, 0, 'paralyzable')).toBe(1000);
+    expect(correctDeadTime(1000, 0, 'non-paralyzable')).toBe(1000);
+  });
+});
+
+describe('countsToReading', () => {
+  it('converts counts into a dose rate with its √N uncertainty', () => {
+    expect(countsToReading(400, 10, 5)).toEqual({ doseRate: 8, doseRateError: 0.4, counts: 400, timeS: 10 });
+  });
+
+  it('keeps an uncertainty of about one count when nothing was counted', () => {
+    expect(countsToReading(0, 10, 5).doseRateError).toBeCloseTo(0.02, 12);
+  });
+
+  it('raises rate and uncertainty when correcting for dead time', () => {
+    const plain = countsToReading(20_000, 10, 5);
+    const corrected = countsToReading(20_000, 10, 5, { deadTimeS: 1e-4, model: 'non-paralyzable' });
+    expect(corrected.doseRate).toBeCloseTo(plain.doseRate / 0.8, 9);
+    expect(corrected.doseRateError).toBeGreaterThan(plain.doseRateError);
+  });
+});
+
+describe('counting windows', () => {
+  const samples = [1, 2, 3, 4].map(counts => ({ counts, durationS: 0.5 }));
+
+  it('drops the oldest samples beyond the window', () => {
+    expect(trimWindow(samples, 1)).toEqual(samples.slice(2));
+    expect(trimWindow(samples, 0.1)).toEqual(samples.slice(3));
+  });
+
+  it('sums the samples into one reading', () => {
+    expect(readingFromSamples(samples, 5)).toMatchObject({ counts: 10, timeS: 2, doseRate: 1 });
+  });
+});
+
+describe('counting times', () => {
+  it('needs 1/(R·ε²) for a gross rate', () => {
+    expect(timeForRelativeUncertainty(100, 0.05)).toBeCloseTo(4, 12);
+    expect(timeForRelativeUncertainty(0, 0.05)).toBe(Infinity);
+  });
+
+  it('splits a net measurement by the square root of the rates', () => {
+    const plan = netCountingTimes(400, 100, 0.05);
+    expect(plan.grossS / plan.backgroundS).toBeCloseTo(2, 12);
+    expect(plan.totalS).toBeCloseTo(plan.grossS + plan.backgroundS, 12);
+    // The net rate then has the requested relative uncertainty
+    const netError = Math.sqrt(400 / plan.grossS + 100 / plan.backgroundS);
+    expect(netError / 300).toBeCloseTo(0.05, 9);
+    expect(netCountingTimes(100, 100, 0.05).totalS).toBe(Infinity);
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks seconds, minutes or hours', () => {
+    expect(formatDuration(4.25)).toBe('4.3 s');
+    expect(formatDuration(45)).toBe('45 s');
+    expect(formatDuration(750)).toBe('12.5 min');
+    expect(formatDuration(11_520)).toBe('3.2 h');
+    expect(formatDuration(Infinity)).toBe('∞');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DetectorReading } from '../types';
+import { NumberFormat, PLAIN_NUMBERS } from './i18n';
+
+// Detector response: counts per second for every µSv/h of H*(10)
+export const CALIBRATION_CPS_PER_USV_H = 5;
+
+// Selectable counting (integration) times, in seconds
+export const COUNTING_TIME_OPTIONS_S = [1, 2, 5, 10, 30, 60, 120, 300];
+
+// How often the rate meter samples a new slice of counts
+export const SAMPLE_INTERVAL_S = 0.5;
+
+export interface CountSample {
+  counts: number;
+  durationS: number;
+}
+
+export interface NetCountingPlan {
+  grossS: number; // Time with the source open
+  backgroundS: number; // Time with the source shielded
+  totalS: number;
+}
+
+const logFactorial = (k: number): number => {
+  let sum = 0;
+  for (let i = 2; i <= k; i++) sum += Math.log(i);
+  return sum;
+};
+
+// Stirling series for ln(k!), accurate to ~1e-10 for the k values PTRS produces
+const logFactorialApprox = (k: number): number => {
+  if (k < 10) return logFactorial(k);
+  return (k + 0.5) * Math.log(k) - k + 0.5 * Math.log(2 * Math.PI) + 1 / (12 * k) - 1 / (360 * k * k * k);
+};
+
+/**
+ * Draws a Poisson-distributed integer with the given mean.
+ * Knuth's product method for small means, Hörmann's transformed rejection (PTRS) above that.
+ */
+export const samplePoisson = (mean: number, random: () => number = Math.random): number => {
+  if (mean <= 0) return 0;
+
+  if (mean < 10) {
+    const limit = Math.exp(-mean);
+    let k = 0;
+    let product = random();
+    while (product > limit) {
+      k++;
+      product *= random();
+    }
+    return k;
+  }
+
+  const logMean = Math.log(mean);
+  const b = 0.931 + 2.53 * Math.sqrt(mean);
+  const a = -0.059 + 0.02483 * b;
+  const invAlpha = 1.1239 + 1.1328 / (b - 3.4);
+  const vr = 0.9277 - 3.6224 / (b - 2);
+
+  while (true) {
+    const u = random() - 0.5;
+    const v = random();
+    const us = 0.5 - Math.abs(u);
+    const k = Math.floor((2 * a / us + b) * u + mean + 0.43);
+    if (us >= 0.07 && v <= vr) return k;
+    if (k < 0 || (us < 0.013 && v > us)) continue;
+    if (Math.log(v * invAlpha / (a / (us * us) + b)) <= -mean + k * logMean - logFactorialApprox(k)) {
+      return k;
+    }
+  }
+};
+
+export const expectedCountRate = (doseRate: number, calibration: number = CALIBRATION_CPS_PER_USV_H): number =>
+  doseRate * calibration;
+
+export type DeadTimeModel = 'paralyzable' | 'non-paralyzable';
+
+export interface DeadTimeCorrection {
+  deadTimeS: number;
+  model: DeadTimeModel;
+}
+
+/**
+ * Observed count rate m for a true rate n and dead time τ:
+ * non-paralyzable m = n / (1 + nτ), paralyzable m = n·e^(-nτ).
+ */
+export const applyDeadTime = (trueCps: number, deadTimeS: number, model: DeadTimeModel): number => {
+  if (deadTimeS <= 0 || trueCps <= 0) return trueCps;
+  return model === 'paralyzable'
+    ? trueCps * Math.exp(-trueCps * deadTimeS)
+    : trueCps / (1 + trueCps * deadTimeS);
+};
+
+/**
+ * Inverts applyDeadTime. The paralyzable case has no closed form and is solved by Newton's
+ * method on the low-rate branch (n < 1/τ); rates beyond the maximum observable 1/(eτ) saturate.
+ */
+export const correctDeadTime = (observedCps: number, deadTimeS: number, model: DeadTimeModel): number => {
+  if (deadTimeS <= 0 || observedCps <= 0) return observedCps;
+
+  if (model === 'non-paralyzable') {
+    const loss = observedCps * deadTimeS;
+    return loss >= 1 ? Infinity : observedCps / (1 - loss);
+  }
+
+  if (observedCps * deadTimeS >= 1 / Math.E) return 1 / deadTimeS;
+  let n = observedCps;
+  for (let i = 0; i < 50; i++) {
+    const f = n * Math.exp(-n * deadTimeS) - observedCps;
+    const df = Math.exp(-n * deadTimeS) * (1 - n * deadTimeS);
+    const step = f / df;
+    n -= step;
+    if (Math.abs(step) < 1e-12 * n) break;
+  }
+  return n;
+};
+
+// dn/dm of the dead-time correction, used to propagate the counting error
+const correctionSlope = (trueCps: number, deadTimeS: number, model: DeadTimeModel): number => {
+  if (deadTimeS <= 0) return 1;
+  return model === 'paralyzable'
+    ? 1 / Math.max(Math.exp(-trueCps * deadTimeS) * (1 - trueCps * deadTimeS), 1e-9)
+    : Math.pow(1 + trueCps * deadTimeS, 2);
+};
+
+/**
+ * Converts N counts collected over t seconds into a dose rate with its Poisson (√N) uncertainty,
+ * optionally correcting the observed rate for dead-time losses first.
+ */
+export const countsToReading = (
+  counts: number,
+  timeS: number,
+  calibration: number = CALIBRATION_CPS_PER_USV_H,
+  correction?: DeadTimeCorrection
+): DetectorReading => {
+  if (timeS <= 0) return { doseRate: 0, doseRateError: 0, counts: 0, timeS: 0 };
+
+  const observedCps = counts / timeS;
+  // With zero counts the 1-sigma upper bound is about one count
+  const observedError = Math.sqrt(Math.max(counts, 1)) / timeS;
+
+  let trueCps = observedCps;
+  let trueError = observedError;
+  if (correction) {
+    trueCps = Math.min(correctDeadTime(observedCps, correction.deadTimeS, correction.model), 1e12);
+    trueError = observedError * correctionSlope(trueCps, correction.deadTimeS, correction.model);
+  }
+
+  return {
+    doseRate: trueCps / calibration,
+    doseRateError: trueError / calibration,
+    counts,
+    timeS,
+  };
+};
+
+// Drops the oldest samples so the window covers at most windowS seconds (always keeps the newest)
+export const trimWindow = (samples: CountSample[], windowS: number): CountSample[] => {
+  let total = samples.reduce((sum, s) => sum + s.durationS, 0);
+  let start = 0;
+  while (start < samples.length - 1 && total - samples[start].durationS >= windowS - 1e-9) {
+    total -= samples[start].durationS;
+    start++;
+  }
+  return samples.slice(start);
+};
+
+export const readingFromSamples = (
+  samples: CountSample[],
+  calibration: number = CALIBRATION_CPS_PER_USV_H,
+  correction?: DeadTimeCorrection
+): DetectorReading => {
+  const counts = samples.reduce((sum, s) => sum + s.counts, 0);
+  const timeS = samples.reduce((sum, s) => sum + s.durationS, 0);
+  return countsToReading(counts, timeS, calibration, correction);
+};
+
+// Gross counting time so that 1/√N reaches the requested relative uncertainty
+export const timeForRelativeUncertainty = (rateCps: number, relativeUncertainty: number): number => {
+  if (rateCps <= 0 || relativeUncertainty <= 0) return Infinity;
+  return 1 / (rateCps * relativeUncertainty * relativeUncertainty);
+};
+
+/**
+ * Times needed to measure the net (gross − background) rate to the requested relative uncertainty,
+ * splitting the total optimally: t_gross / t_background = √(R_gross / R_background).
+ */
+export const netCountingTimes = (
+  grossCps: number,
+  backgroundCps: number,
+  relativeUncertainty: number
+): NetCountingPlan => {
+  const net = grossCps - backgroundCps;
+  if (net <= 0 || backgroundCps <= 0 || relativeUncertainty <= 0) {
+    return { grossS: Infinity, backgroundS: Infinity, totalS: Infinity };
+  }
+  const sqrtGross = Math.sqrt(grossCps);
+  const sqrtBackground = Math.sqrt(backgroundCps);
+  const totalS = Math.pow(sqrtGross + sqrtBackground, 2) / Math.pow(relativeUncertainty * net, 2);
+  return {
+    grossS: totalS * sqrtGross / (sqrtGross + sqrtBackground),
+    backgroundS: totalS * sqrtBackground / (sqrtGross + sqrtBackground),
+    totalS,
+  };
+};
+
+// "45 s", "12.5 min", "3.2 h"
+export const formatDuration = (seconds: number, numbers: NumberFormat = PLAIN_NUMBERS): string => {
+  if (!isFinite(seconds)) return '∞';
+  if (seconds < 120) return `${numbers.fixed(seconds, seconds < 10 ? 1 : 0)} s`;
+  if (seconds < 7200) return `${numbers.fixed(seconds / 60, 1)} min`;
+  return `${numbers.fixed(seconds / 3600, 1)} h`;
+};
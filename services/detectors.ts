@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DeadTimeModel, applyDeadTime } from './countingStatistics';
+
+// Photon energy the instruments are calibrated at (Cs-137)
+export const REFERENCE_ENERGY_KEV = 662;
+
+// Effective energy of the PMMA bremsstrahlung spectrum from Sr-90/Y-90 betas
+export const BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV = 200;
+
+export type DetectorId = 'gm' | 'nai' | 'ion_chamber';
+
+export interface EnergyResponsePoint {
+  energyKeV: number;
+  response: number; // Reading per unit H*(10), relative to REFERENCE_ENERGY_KEV
+}
+
+export interface AngularResponsePoint {
+  angleDeg: number; // Incidence, 0 straight onto the window, 180 from behind
+  response: number; // Reading relative to frontal incidence
+}
+
+export interface DetectorType {
+  id: DetectorId;
+  name: string;
+  shortName: string;
+  intrinsicEfficiency: number; // Probability that a photon crossing the sensitive volume is counted
+  deadTimeS: number;
+  deadTimeModel: DeadTimeModel; // How the real instrument loses counts
+  calibrationCpsPerUSvH: number; // Count rate per µSv/h at the reference energy
+  sensitiveWidthCm: number; // Along the beam axis
+  sensitiveHeightCm: number; // Across the beam axis
+  energyResponse: EnergyResponsePoint[]; // Sorted by energy
+  angularResponse: AngularResponsePoint[]; // Sorted by angle, from 0 to 180°
+}
+
+export const DETECTORS: Record<DetectorId, DetectorType> = {
+  gm: {
+    id: 'gm',
+    name: 'Geiger–Müller tube (compensated)',
+    shortName: 'GM',
+    intrinsicEfficiency: 0.05,
+    deadTimeS: 100e-6,
+    deadTimeModel: 'non-paralyzable',
+    calibrationCpsPerUSvH: 5,
+    sensitiveWidthCm: 2,
+    sensitiveHeightCm: 10,
+    // Energy-compensated tube: the filter flattens the response down to ~50 keV, then cuts off
+    energyResponse: [
+      { energyKeV: 30, response: 0.4 },
+      { energyKeV: 50, response: 0.9 },
+      { energyKeV: 100, response: 1.15 },
+      { energyKeV: 200, response: 1.05 },
+      { energyKeV: 662, response: 1.0 },
+      { energyKeV: 1250, response: 0.95 },
+      { energyKeV: 3000, response: 0.9 },
+    ],
+    // Side-on tube: photons along its axis see less of the wall and the end cap shadows them
+    angularResponse: [
+      { angleDeg: 0, response: 1.0 },
+      { angleDeg: 45, response: 0.95 },
+      { angleDeg: 90, response: 0.75 },
+      { angleDeg: 135, response: 0.85 },
+      { angleDeg: 180, response: 0.9 },
+    ],
+  },
+  nai: {
+    id: 'nai',
+    name: 'NaI(Tl) scintillator 2″×2″',
+    shortName: 'NaI',
+    intrinsicEfficiency: 0.6,
+    deadTimeS: 5e-6,
+    deadTimeModel: 'paralyzable', // Pulse pile-up in the shaping amplifier
+    calibrationCpsPerUSvH: 2000,
+    sensitiveWidthCm: 5.1,
+    sensitiveHeightCm: 5.1,
+    // Count rate per unit dose rises steeply at low energy where the crystal absorbs everything
+    energyResponse: [
+      { energyKeV: 30, response: 8.0 },
+      { energyKeV: 60, response: 12.0 },
+      { energyKeV: 100, response: 9.0 },
+      { energyKeV: 200, response: 4.0 },
+      { energyKeV: 400, response: 1.7 },
+      { energyKeV: 662, response: 1.0 },
+      { energyKeV: 1250, response: 0.6 },
+      { energyKeV: 3000, response: 0.4 },
+    ],
+    // A 2″×2″ crystal is nearly isotropic; the photomultiplier behind it shadows the rear
+    angularResponse: [
+      { angleDeg: 0, response: 1.0 },
+      { angleDeg: 90, response: 0.95 },
+      { angleDeg: 150, response: 0.7 },
+      { angleDeg: 180, response: 0.55 },
+    ],
+  },
+  ion_chamber: {
+    id: 'ion_chamber',
+    name: 'Ionisation-chamber survey meter',
+    shortName: 'IC',
+    // Current-mode instrument: modelled as a counter without dead time whose "counts" are charge quanta
+    intrinsicEfficiency: 0.3,
+    deadTimeS: 0,
+    deadTimeModel: 'non-paralyzable',
+    calibrationCpsPerUSvH: 20,
+    sensitiveWidthCm: 6,
+    sensitiveHeightCm: 8,
+    // Air-equivalent walls give a nearly flat response
+    energyResponse: [
+      { energyKeV: 30, response: 0.85 },
+      { energyKeV: 60, response: 0.95 },
+      { energyKeV: 100, response: 1.0 },
+      { energyKeV: 662, response: 1.0 },
+      { energyKeV: 3000, response: 0.97 },
+    ],
+    // The handle and electronics sit behind the chamber
+    angularResponse: [
+      { angleDeg: 0, response: 1.0 },
+      { angleDeg: 60, response: 0.98 },
+      { angleDeg: 120, response: 0.85 },
+      { angleDeg: 180, response: 0.6 },
+    ],
+  },
+};
+
+export const DETECTOR_LIST: DetectorType[] = Object.values(DETECTORS);
+
+export const DEFAULT_DETECTOR_ID: DetectorId = 'gm';
+
+// Log-log interpolation of the energy response table, clamped at both ends
+export const energyResponseAt = (detector: DetectorType, energyKeV: number): number => {
+  const table = detector.energyResponse;
+  if (energyKeV <= table[0].energyKeV) return table[0].response;
+  if (energyKeV >= table[table.length - 1].energyKeV) return table[table.length - 1].response;
+
+  const upper = table.findIndex(p => p.energyKeV >= energyKeV);
+  const lo = table[upper - 1];
+  const hi = table[upper];
+  const f = Math.log(energyKeV / lo.energyKeV) / Math.log(hi.energyKeV / lo.energyKeV);
+  return Math.exp(Math.log(lo.response) + f * Math.log(hi.response / lo.response));
+};
+
+// Linear interpolation of the angular response table; the angle is folded into 0 … 180°
+export const angularResponseAt = (detector: DetectorType, incidenceDeg: number): number => {
+  const table = detector.angularResponse;
+  const angle = Math.min(Math.abs(incidenceDeg) % 360, 360 - (Math.abs(incidenceDeg) % 360));
+  if (angle <= table[0].angleDeg) return table[0].response;
+  if (angle >= table[table.length - 1].angleDeg) return table[table.length - 1].response;
+
+  const upper = table.findIndex(p => p.angleDeg >= angle);
+  const lo = table[upper - 1];
+  const hi = table[upper];
+  return lo.response + ((angle - lo.angleDeg) / (hi.angleDeg - lo.angleDeg)) * (hi.response - lo.response);
+};
+
+/**
+ * True (pre-dead-time) count rate for a source contribution at the given photon energy (the
+ * bremsstrahlung energy unless a gamma source is on the bench) plus background, which the instrument
+ * is assumed to be calibrated against.
+ */
+export const trueCountRate = (
+  detector: DetectorType,
+  sourceDoseRate: number,
+  backgroundDoseRate: number,
+  energyKeV: number = BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV
+): number =>
+  detector.calibrationCpsPerUSvH * (backgroundDoseRate + sourceDoseRate * energyResponseAt(detector, energyKeV));
+
+// Count rate the instrument actually registers, after dead-time losses
+export const observedCountRate = (
+  detector: DetectorType,
+  sourceDoseRate: number,
+  backgroundDoseRate: number,
+  energyKeV: number = BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV
+): number =>
+  applyDeadTime(
+    trueCountRate(detector, sourceDoseRate, backgroundDoseRate, energyKeV),
+    detector.deadTimeS,
+    detector.deadTimeModel
+  );
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ISODOSE_LEVELS_USVH, HEATMAP_MAX_USVH, HEATMAP_MIN_USVH, contourSegments, fieldDoseRate, formatDoseLevel,
+  formatIsodoseLevels, heatmapFraction, parseIsodoseLevels, sampleFieldGrid, usesDecimalComma,
+} from './doseField';
+import { REFERENCE_PARAMS, sourceDoseRate } from './doseModel';
+import { pathTransmission } from './shielding';
+import { REFERENCE_SETUP, sourcePhotonEnergyKeV } from './simulation';
+import { translatorFor } from './locales';
+import { bremsstrahlungAngularFactor } from './transport';
+import { doseUnits } from './units';
+
+describe('fieldDoseRate', () => {
+  it('follows the dose model along the beam axis', () => {
+    expect(fieldDoseRate(REFERENCE_SETUP, REFERENCE_PARAMS, 50, 0))
+      .toBeCloseTo(REFERENCE_PARAMS.b + sourceDoseRate(0.5, REFERENCE_PARAMS), 12);
+  });
+
+  it('falls off off-axis with the forward-peaked bremsstrahlung', () => {
+    expect(fieldDoseRate(REFERENCE_SETUP, REFERENCE_PARAMS, 30, 40)).toBeCloseTo(
+      REFERENCE_PARAMS.b + sourceDoseRate(0.5, REFERENCE_PARAMS) * bremsstrahlungAngularFactor(Math.atan2(40, 30)),
+      12
+    );
+  });
+
+  it('is only background with the source shut', () => {
+    expect(fieldDoseRate({ ...REFERENCE_SETUP, sourceOpen: false }, REFERENCE_PARAMS, 30, 0)).toBe(REFERENCE_PARAMS.b);
+  });
+
+  it('is attenuated behind a slab', () => {
+    const slabs = [{ id: 1, materialId: 'lead' as const, thicknessMm: 5, positionCm: 20, heightCm: 30 }];
+    const shielded = fieldDoseRate({ ...REFERENCE_SETUP, slabs }, REFERENCE_PARAMS, 50, 0);
+    expect(shielded - REFERENCE_PARAMS.b)
+      .toBeCloseTo(sourceDoseRate(0.5, REFERENCE_PARAMS) * pathTransmission(slabs, 50, 0, sourcePhotonEnergyKeV(REFERENCE_SETUP)), 12);
+  });
+});
+
+describe('heatmapFraction', () => {
+  it('runs logarithmically from background to the top of the scale', () => {
+    expect(heatmapFraction(HEATMAP_MIN_USVH)).toBe(0);
+    expect(heatmapFraction(HEATMAP_MAX_USVH)).toBe(1);
+    expect(heatmapFraction(Math.sqrt(HEATMAP_MIN_USVH * HEATMAP_MAX_USVH))).toBeCloseTo(0.5, 12);
+    expect(heatmapFraction(0)).toBe(0);
+    expect(heatmapFraction(1e6)).toBe(1);
+  });
+});
+
+describe('parseIsodoseLevels', () => {
+  it('takes any separator and keeps positive numbers, sorted and once each', () => {
+    expect(parseIsodoseLevels('2.5; 0.5, 1  10,1')).toEqual([0.5, 1, 2.5, 10]);
+    expect(parseIsodoseLevels('-1, 0, abc')).toEqual([]);
+    expect(parseIsodoseLevels('')).toEqual([]);
+  });
+
+  it('reads back the levels written in another unit and number format', () => {
+    const es = translatorFor('es');
+    const perUSvH = doseUnits('mSv/h').doseRate.perUSvH;
+    const text = formatIsodoseLevels(DEFAULT_ISODOSE_LEVELS_USVH.map(v => v * perUSvH), es);
+    expect(text).toBe('0,0005; 0,001; 0,0025; 0,01');
+    const levels = parseIsodoseLevels(text, usesDecimalComma(es)).map(v => v / perUSvH);
+    levels.forEach((v, i) => expect(v).toBeCloseTo(DEFAULT_ISODOSE_LEVELS_USVH[i], 12));
+  });
+});
+
+describe('contourSegments', () => {
+  // 1/r² around the grid centre, so the contour of `level` is a circle
+  const size = 41;
+  const centre = (size - 1) / 2;
+  const grid = sampleFieldGrid(size, size, (i, j) => 100 / (1 + (i - centre) ** 2 + (j - centre) ** 2));
+
+  it('traces a closed ring at the right distance', () => {
+    const level = 1; // Where 1 + r² = 100
+    const segments = contourSegments(grid, level);
+    expect(segments.length).toBeGreaterThan(20);
+    const radius = Math.sqrt(99);
+    segments.forEach(s => {
+      expect(Math.hypot(s.x1 - centre, s.y1 - centre)).toBeCloseTo(radius, 0);
+      expect(Math.hypot(s.x2 - centre, s.y2 - centre)).toBeCloseTo(radius, 0);
+    });
+  });
+
+  it('finds nothing for levels the field never reaches', () => {
+    expect(contourSegments(grid, 1000)).toEqual([]);
+    expect(contourSegments(grid, 1e-6)).toEqual([]);
+  });
+});
+
+describe('formatDoseLevel', () => {
+  it('drops trailing zeros', () => {
+    expect(formatDoseLevel(0.5)).toBe('0.5');
+    expect(formatDoseLevel(2.5)).toBe('2.5');
+    expect(formatDoseLevel(10)).toBe('10');
+    expect(formatDoseLevel(0.123)).toBe('0.12');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { B_CONST, DoseModelParams } from './doseModel';
+import { SimulationSetup, sourceDoseAt } from './simulation';
+import { NumberFormat, PLAIN_NUMBERS } from './i18n';
+
+/*
+ * The dose-rate field around the bench: the heatmap colour scale, its legend, and isodose contours
+ * traced with marching squares over a sampled grid.
+ */
+
+// H*(10) at a point (dx, dy) in cm from the centre of the target's downstream face, in µSv/h
+export const fieldDoseRate = (
+  setup: SimulationSetup,
+  params: DoseModelParams,
+  dxCm: number,
+  dyCm: number
+): number => params.b + (setup.sourceOpen ? sourceDoseAt(setup, params, dxCm, dyCm) : 0);
+
+// --- Colour scale ---
+
+// Logarithmic from background (blue) to a reasonably high dose (red), which shows the inverse square well
+export const HEATMAP_MIN_USVH = B_CONST;
+export const HEATMAP_MAX_USVH = 50;
+export const HEATMAP_LEGEND_TICKS_USVH = [0.15, 0.5, 1, 2.5, 5, 10, 25, 50];
+
+// Position of a dose rate on the colour scale, 0 … 1
+export const heatmapFraction = (doseRate: number): number => {
+  const minLog = Math.log10(HEATMAP_MIN_USVH);
+  const maxLog = Math.log10(HEATMAP_MAX_USVH);
+  const t = (Math.log10(doseRate) - minLog) / (maxLog - minLog);
+  return Math.max(0, Math.min(1, t));
+};
+
+// HSL: Blue (240) -> Cyan (180) -> Green (120) -> Yellow (60) -> Red (0)
+export const heatmapHue = (t: number): number => 240 - t * 240;
+
+// --- Isodose contours ---
+
+export const DEFAULT_ISODOSE_LEVELS_USVH = [0.5, 1, 2.5, 10];
+
+/**
+ * Accepts "0.5, 1; 2.5 10", or "0,5; 1; 2,5" with `decimalComma`, where a comma is the decimal separator;
+ * drops anything that is not a positive number, sorts and removes duplicates.
+ */
+export const parseIsodoseLevels = (text: string, decimalComma = false): number[] => {
+  const levels = text
+    .split(decimalComma ? /[\s;]+/ : /[\s,;]+/)
+    .map(part => parseFloat(decimalComma ? part.replace(',', '.') : part))
+    .filter(v => Number.isFinite(v) && v > 0);
+  return [...new Set(levels)].sort((a, b) => a - b);
+};
+
+// Field values sampled on a regular grid of points, row-major
+export interface FieldGrid {
+  cols: number;
+  rows: number;
+  values: Float64Array;
+}
+
+export interface ContourSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export const sampleFieldGrid = (
+  cols: number,
+  rows: number,
+  valueAt: (col: number, row: number) => number
+): FieldGrid => {
+  const values = new Float64Array(cols * rows);
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) values[j * cols + i] = valueAt(i, j);
+  }
+  return { cols, rows, values };
+};
+
+/**
+ * Marching squares: the line segments, in grid units, where the sampled field crosses `level`.
+ * Crossings are placed by linear interpolation in log dose, which follows the 1/d² fall-off closely.
+ */
+export const contourSegments = (grid: FieldGrid, level: number): ContourSegment[] => {
+  const { cols, rows, values } = grid;
+  const logLevel = Math.log(level);
+  const segments: ContourSegment[] = [];
+
+  // Fraction of the way from a to b where the level is crossed
+  const crossing = (a: number, b: number) => {
+    const la = Math.log(a);
+    const lb = Math.log(b);
+    return lb === la ? 0.5 : (logLevel - la) / (lb - la);
+  };
+
+  for (let j = 0; j < rows - 1; j++) {
+    for (let i = 0; i < cols - 1; i++) {
+      const tl = values[j * cols + i];
+      const tr = values[j * cols + i + 1];
+      const br = values[(j + 1) * cols + i + 1];
+      const bl = values[(j + 1) * cols + i];
+      const code = (tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0);
+      if (code === 0 || code === 15) continue;
+
+      // Crossing points on the four cell edges
+      const top = { x: i + crossing(tl, tr), y: j };
+      const right = { x: i + 1, y: j + crossing(tr, br) };
+      const bottom = { x: i + crossing(bl, br), y: j + 1 };
+      const left = { x: i, y: j + crossing(tl, bl) };
+      const add = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+        segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y });
+
+      switch (code) {
+        case 1: case 14: add(left, bottom); break;
+        case 2: case 13: add(bottom, right); break;
+        case 3: case 12: add(left, right); break;
+        case 4: case 11: add(top, right); break;
+        case 6: case 9: add(top, bottom); break;
+        case 7: case 8: add(left, top); break;
+        case 5: add(left, top); add(bottom, right); break; // Saddles, resolved without the centre value
+        case 10: add(top, right); add(left, bottom); break;
+      }
+    }
+  }
+  return segments;
+};
+
+// Formats a dose rate for labels without trailing zeros, e.g. 0.5, 2.5, 10
+export const formatDoseLevel = (doseRate: number, numbers: NumberFormat = PLAIN_NUMBERS): string =>
+  doseRate >= 10 ? numbers.fixed(doseRate, 0) : numbers.significant(doseRate, 2, true);
+
+// Whether typed levels use a decimal comma, which `parseIsodoseLevels` needs to know
+export const usesDecimalComma = (numbers: NumberFormat): boolean => numbers.fixed(0.5, 1).includes(',');
+
+// The levels back as text `parseIsodoseLevels` reads, in the same number format
+export const formatIsodoseLevels = (levels: number[], numbers: NumberFormat = PLAIN_NUMBERS): string =>
+  levels.map(v => numbers.number(v)).join(usesDecimalComma(numbers) ? '; ' : ', ');
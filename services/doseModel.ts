@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Physics Constants provided by user
+export const K_CONST = 0.170; // m^2 * uSv/h
+export const K_ERROR = 0.024;
+export const MU_CONST = 0.02; // m^-1
+export const B_CONST = 0.15; // uSv/h (Background)
+
+// Closest distance the formula is evaluated at, avoids the 1/d² singularity
+export const MIN_DISTANCE_M = 0.01;
+
+export interface DoseModelParams {
+  K: number; // m^2 * uSv/h
+  mu: number; // m^-1
+  b: number; // uSv/h
+}
+
+export const REFERENCE_PARAMS: DoseModelParams = {
+  K: K_CONST,
+  mu: MU_CONST,
+  b: B_CONST,
+};
+
+// Source contribution only: K * e^(-mu * d) / d^2
+export const sourceDoseRate = (distanceM: number, params: DoseModelParams = REFERENCE_PARAMS): number => {
+  const d = Math.max(distanceM, MIN_DISTANCE_M);
+  return (params.K * Math.exp(-params.mu * d)) / (d * d);
+};
+
+// Formula: H*(d) = K * e^(-mu * d) / d^2 + b
+export const doseRateAt = (
+  distanceM: number,
+  sourceOpen: boolean,
+  params: DoseModelParams = REFERENCE_PARAMS
+): number => params.b + (sourceOpen ? sourceDoseRate(distanceM, params) : 0);
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DoseModelParams } from './doseModel';
+import { fieldDoseRate } from './doseField';
+import { SimulationSetup } from './simulation';
+
+/*
+ * Electronic personal dosimeter worn by the experimenter. It integrates H*(10) at the wearer's position
+ * over simulated time, which makes the ALARA triad concrete: less time, more distance, more shielding.
+ */
+
+// Where the experimenter stands, in cm from the centre of the target face (same frame as the field)
+export interface ExperimenterPosition {
+  xCm: number; // Along the bench
+  yCm: number; // Across it
+}
+
+export const DEFAULT_EXPERIMENTER: ExperimenterPosition = { xCm: 120, yCm: -30 };
+
+export interface DosimeterAlarms {
+  doseUSv: number; // Accumulated dose alarm
+  rateUSvH: number; // Dose-rate alarm
+}
+
+export const DEFAULT_DOSIMETER_ALARMS: DosimeterAlarms = { doseUSv: 20, rateUSvH: 7.5 };
+
+export interface DosimeterReading {
+  doseUSv: number;
+  exposedS: number; // Simulated time spent with the source open
+  peakRateUSvH: number;
+}
+
+export const EMPTY_DOSIMETER: DosimeterReading = { doseUSv: 0, exposedS: 0, peakRateUSvH: 0 };
+
+export const experimenterDoseRate = (
+  setup: SimulationSetup,
+  params: DoseModelParams,
+  position: ExperimenterPosition
+): number => fieldDoseRate(setup, params, position.xCm, position.yCm);
+
+// The dosimeter only accrues while the source is open, so readings isolate the source's contribution time
+export const accumulateDose = (
+  reading: DosimeterReading,
+  rateUSvH: number,
+  durationS: number,
+  sourceOpen: boolean
+): DosimeterReading => {
+  if (!sourceOpen || durationS <= 0) return reading;
+  return {
+    doseUSv: reading.doseUSv + (rateUSvH * durationS) / 3600,
+    exposedS: reading.exposedS + durationS,
+    peakRateUSvH: Math.max(reading.peakRateUSvH, rateUSvH),
+  };
+};
+
+export const dosimeterAlarmState = (reading: DosimeterReading, rateUSvH: number, alarms: DosimeterAlarms) => ({
+  dose: reading.doseUSv >= alarms.doseUSv,
+  rate: rateUSvH >= alarms.rateUSvH,
+});
+
+// Time in seconds one may stay at a dose rate before reaching `limitUSv`, counting what is already received
+export const stayTimeS = (limitUSv: number, rateUSvH: number, receivedUSv: number = 0): number => {
+  const remaining = limitUSv - receivedUSv;
+  if (remaining <= 0) return 0;
+  if (rateUSvH <= 0) return Infinity;
+  return (remaining / rateUSvH) * 3600;
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Measurement } from '../types';
+import { REFERENCE_PARAMS, doseRateAt } from './doseModel';
+import {
+  FitError, FitPoint, compareWithReferenceK, fitDoseModel, measurementsForSetup, measurementsToFitPoints, readingBench,
+} from './fitting';
+import { REFERENCE_SETUP, SimulationSetup } from './simulation';
+
+const DISTANCES_M = [0.1, 0.15, 0.2, 0.3, 0.4, 0.5];
+
+// Readings exactly on the reference model, with a 5% uncertainty each
+const exactPoints = (): FitPoint[] => [
+  ...DISTANCES_M.map(distanceM => {
+    const doseRate = doseRateAt(distanceM, true, REFERENCE_PARAMS);
+    return { distanceM, doseRate, sourceOpen: true, sigma: 0.05 * doseRate };
+  }),
+  { distanceM: 0.3, doseRate: REFERENCE_PARAMS.b, sourceOpen: false, sigma: 0.05 * REFERENCE_PARAMS.b },
+];
+
+describe('fitDoseModel', () => {
+  it('recovers the model the readings were taken from', () => {
+    const result = fitDoseModel(exactPoints(), { fixed: { mu: REFERENCE_PARAMS.mu } });
+    expect(result.converged).toBe(true);
+    expect(result.weighted).toBe(true);
+    expect(result.freeParams).toEqual(['K', 'b']);
+    expect(result.params.K).toBeCloseTo(REFERENCE_PARAMS.K, 8);
+    expect(result.params.b).toBeCloseTo(REFERENCE_PARAMS.b, 8);
+    expect(result.chiSquared).toBeCloseTo(0, 10);
+    expect(result.degreesOfFreedom).toBe(5);
+    expect(result.uncertainties.mu).toBe(0);
+    expect(result.uncertainties.K).toBeGreaterThan(0);
+  });
+
+  it('fits μ as well when it is left free', () => {
+    const result = fitDoseModel(exactPoints(), { initial: { ...REFERENCE_PARAMS, mu: 0 } });
+    expect(result.converged).toBe(true);
+    expect(result.params.mu).toBeCloseTo(REFERENCE_PARAMS.mu, 4);
+  });
+
+  it('falls back to an unweighted fit when a reading has no uncertainty', () => {
+    const points = exactPoints();
+    points[0] = { ...points[0], sigma: undefined };
+    const result = fitDoseModel(points, { fixed: { mu: REFERENCE_PARAMS.mu } });
+    expect(result.weighted).toBe(false);
+    result.residuals.forEach(r => expect(r.normalized).toBe(r.residual));
+  });
+
+  it('refuses fits it cannot do', () => {
+    const points = exactPoints();
+    const codeOf = (run: () => unknown) => {
+      try {
+        run();
+      } catch (e) {
+        return e instanceof FitError ? e.code : 'other';
+      }
+      return 'none';
+    };
+    expect(codeOf(() => fitDoseModel(points, { fixed: { ...REFERENCE_PARAMS } }))).toBe('no-free-params');
+    expect(codeOf(() => fitDoseModel(points.slice(0, 3)))).toBe('too-few-readings');
+    expect(codeOf(() => fitDoseModel(points.map(p => ({ ...p, sourceOpen: false }))))).toBe('no-open-readings');
+  });
+});
+
+describe('compareWithReferenceK', () => {
+  it('combines both uncertainties into the z-score', () => {
+    const result = fitDoseModel(exactPoints(), { fixed: { mu: REFERENCE_PARAMS.mu } });
+    const shifted = { ...result, params: { ...result.params, K: 0.35 }, uncertainties: { ...result.uncertainties, K: 0.03 } };
+    const comparison = compareWithReferenceK(shifted, 0.2, 0.04);
+    expect(comparison.difference).toBeCloseTo(0.15, 12);
+    expect(comparison.zScore).toBeCloseTo(3, 12);
+    expect(comparison.consistent).toBe(false);
+  });
+});
+
+describe('measurementsToFitPoints', () => {
+  it("counts distances from each reading's photon origin, in metres", () => {
+    const measurement: Measurement = {
+      id: 1,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      probeLabel: 'A',
+      distanceCm: 20,
+      angleDeg: 0,
+      sourceOpen: true,
+      detectorId: 'gm',
+      doseRate: 1.5,
+      doseRateError: 0.1,
+      integrationTimeS: 10,
+      counts: 75,
+      countingTimeS: 10,
+      bench: readingBench(REFERENCE_SETUP),
+      photonOriginCm: 5,
+    };
+    const [point] = measurementsToFitPoints([measurement]);
+    expect(point).toEqual({ distanceM: 0.25, doseRate: 1.5, sourceOpen: true, sigma: 0.1 });
+  });
+});
+
+describe('measurementsForSetup', () => {
+  const taken = (id: number, setup: SimulationSetup) => ({ id, bench: readingBench(setup) }) as Measurement;
+
+  it('keeps only the readings taken with the same source, target and shielding', () => {
+    const slab = { id: 1, materialId: 'lead' as const, thicknessMm: 1, positionCm: 20, heightCm: 30 };
+    const readings = [
+      taken(1, REFERENCE_SETUP),
+      taken(2, { ...REFERENCE_SETUP, isotopeId: 'cs137' }),
+      taken(3, { ...REFERENCE_SETUP, activityMBq: 10 }),
+      taken(4, { ...REFERENCE_SETUP, slabs: [slab] }),
+      taken(5, { ...REFERENCE_SETUP, distanceCm: 30, sourceOpen: false }),
+    ];
+    expect(measurementsForSetup(readings, REFERENCE_SETUP).map(m => m.id)).toEqual([1, 5]);
+    expect(measurementsForSetup(readings, { ...REFERENCE_SETUP, slabs: [{ ...slab }] }).map(m => m.id)).toEqual([4]);
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Measurement, ReadingBench } from '../types';
+import { DoseModelParams, REFERENCE_PARAMS, K_CONST, K_ERROR, doseRateAt, MIN_DISTANCE_M } from './doseModel';
+import { Translator } from './i18n';
+import { SimulationSetup } from './simulation';
+
+export type FitParamName = keyof DoseModelParams;
+
+export const FIT_PARAM_NAMES: FitParamName[] = ['K', 'mu', 'b'];
+
+// Which parameters are held at their reference value; μ barely moves over lab distances
+export type FixedParamFlags = Record<FitParamName, boolean>;
+
+export const DEFAULT_FIXED_PARAMS: FixedParamFlags = { K: false, mu: true, b: false };
+
+export const fixedParamValues = (flags: FixedParamFlags, reference: DoseModelParams): Partial<DoseModelParams> => {
+  const fixed: Partial<DoseModelParams> = {};
+  FIT_PARAM_NAMES.forEach(name => {
+    if (flags[name]) fixed[name] = reference[name];
+  });
+  return fixed;
+};
+
+// Why a fit could not be attempted; the UI words it from the code
+export type FitErrorCode = 'no-free-params' | 'too-few-readings' | 'no-open-readings';
+
+export class FitError extends Error {
+  code: FitErrorCode;
+  freeCount: number; // Parameters that were to be fitted
+
+  constructor(code: FitErrorCode, message: string, freeCount: number) {
+    super(message);
+    this.name = 'FitError';
+    this.code = code;
+    this.freeCount = freeCount;
+  }
+}
+
+export const fitErrorMessage = (error: unknown, i18n: Translator): string => {
+  if (!(error instanceof FitError)) return error instanceof Error ? error.message : String(error);
+  return i18n.t(`fit.error.${error.code}`, { readings: error.freeCount + 1, params: error.freeCount });
+};
+
+export interface FitPoint {
+  distanceM: number;
+  doseRate: number; // uSv/h
+  sourceOpen: boolean;
+  sigma?: number; // 1-sigma uncertainty of doseRate, unweighted fit if any point lacks it
+}
+
+export interface FitOptions {
+  // Parameters listed here are held at the given value instead of being fitted
+  fixed?: Partial<DoseModelParams>;
+  initial?: DoseModelParams;
+  maxIterations?: number;
+}
+
+export interface FitResidual {
+  distanceM: number;
+  sourceOpen: boolean;
+  measured: number;
+  predicted: number;
+  residual: number; // measured - predicted
+  normalized: number; // residual / sigma (equals residual for unweighted fits)
+}
+
+export interface FitResult {
+  params: DoseModelParams;
+  uncertainties: DoseModelParams; // 1-sigma, 0 for fixed parameters
+  covariance: number[][]; // 3x3, ordered as FIT_PARAM_NAMES
+  freeParams: FitParamName[];
+  chiSquared: number;
+  degreesOfFreedom: number;
+  reducedChiSquared: number;
+  weighted: boolean;
+  converged: boolean;
+  iterations: number;
+  residuals: FitResidual[];
+}
+
+export interface ReferenceComparison {
+  reference: number;
+  referenceError: number;
+  difference: number; // fitted - reference
+  zScore: number; // difference in units of the combined uncertainty
+  consistent: boolean; // |z| < 2
+}
+
+export const readingBench = (setup: SimulationSetup): ReadingBench => ({
+  isotopeId: setup.isotopeId,
+  activityMBq: setup.activityMBq,
+  targetMaterialId: setup.targetMaterialId,
+  geometry: setup.geometry,
+  slabs: setup.slabs,
+});
+
+const benchKey = (bench: ReadingBench): string =>
+  JSON.stringify([bench.isotopeId, bench.activityMBq, bench.targetMaterialId, bench.geometry, bench.slabs]);
+
+// The readings taken on the bench `setup` describes; readings from another source or shielding follow another model
+export const measurementsForSetup = (measurements: Measurement[], setup: SimulationSetup): Measurement[] => {
+  const key = benchKey(readingBench(setup));
+  return measurements.filter(m => benchKey(m.bench) === key);
+};
+
+// Distances count from where each reading's photons started: upstream of the target face for gamma sources
+export const measurementsToFitPoints = (measurements: Measurement[]): FitPoint[] =>
+  measurements.map(m => ({
+    distanceM: (m.distanceCm + m.photonOriginCm) / 100,
+    doseRate: m.doseRate,
+    sourceOpen: m.sourceOpen,
+    sigma: m.doseRateError,
+  }));
+
+const toVector = (p: DoseModelParams): number[] => FIT_PARAM_NAMES.map(name => p[name]);
+
+const fromVector = (v: number[]): DoseModelParams => ({ K: v[0], mu: v[1], b: v[2] });
+
+// Partial derivatives of the model with respect to K, mu and b
+const modelGradient = (point: FitPoint, p: DoseModelParams): number[] => {
+  if (!point.sourceOpen) return [0, 0, 1];
+  const d = Math.max(point.distanceM, MIN_DISTANCE_M);
+  const shape = Math.exp(-p.mu * d) / (d * d);
+  return [shape, -p.K * d * shape, 1];
+};
+
+// Solves A x = y by Gaussian elimination with partial pivoting. Returns null if A is singular.
+const solveLinear = (A: number[][], y: number[]): number[] | null => {
+  const n = y.length;
+  const m = A.map((row, i) => [...row, y[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-300) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+const invert = (A: number[][]): number[][] | null => {
+  const n = A.length;
+  const columns: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const unit = new Array(n).fill(0);
+    unit[i] = 1;
+    const column = solveLinear(A, unit);
+    if (!column) return null;
+    columns.push(column);
+  }
+  return A.map((_, row) => columns.map(column => column[row]));
+};
+
+const chiSquaredOf = (points: FitPoint[], weights: number[], p: DoseModelParams): number =>
+  points.reduce((sum, point, i) => {
+    const r = point.doseRate - doseRateAt(point.distanceM, point.sourceOpen, p);
+    return sum + weights[i] * r * r;
+  }, 0);
+
+// Normal equations (JᵀWJ and JᵀWr) restricted to the free parameters
+const normalEquations = (points: FitPoint[], weights: number[], p: DoseModelParams, free: number[]) => {
+  const n = free.length;
+  const alpha = Array.from({ length: n }, () => new Array(n).fill(0));
+  const beta = new Array(n).fill(0);
+
+  points.forEach((point, i) => {
+    const gradient = modelGradient(point, p);
+    const r = point.doseRate - doseRateAt(point.distanceM, point.sourceOpen, p);
+    for (let a = 0; a < n; a++) {
+      const ga = gradient[free[a]];
+      beta[a] += weights[i] * ga * r;
+      for (let c = 0; c < n; c++) alpha[a][c] += weights[i] * ga * gradient[free[c]];
+    }
+  });
+
+  return { alpha, beta };
+};
+
+// Starting point: with mu held, the model is linear in K and b, so solve that exactly
+const initialGuess = (points: FitPoint[], weights: number[], options: FitOptions): DoseModelParams => {
+  const fixed = options.fixed ?? {};
+  const start: DoseModelParams = { ...REFERENCE_PARAMS, ...options.initial, ...fixed };
+  const linearFree = [0, 2].filter(index => fixed[FIT_PARAM_NAMES[index]] === undefined);
+  if (linearFree.length === 0) return start;
+
+  const { alpha, beta } = normalEquations(points, weights, start, linearFree);
+  const step = solveLinear(alpha, beta);
+  if (!step) return start;
+
+  const v = toVector(start);
+  linearFree.forEach((index, a) => { v[index] += step[a]; });
+  return fromVector(v);
+};
+
+/**
+ * Levenberg–Marquardt fit of H*(d) = K·e^(-μd)/d² + b to recorded readings.
+ * Readings taken with the source shielded only constrain b.
+ */
+export const fitDoseModel = (points: FitPoint[], options: FitOptions = {}): FitResult => {
+  const fixed = options.fixed ?? {};
+  const free = FIT_PARAM_NAMES
+    .map((name, index) => (fixed[name] === undefined ? index : -1))
+    .filter(index => index >= 0);
+
+  if (free.length === 0) {
+    throw new FitError('no-free-params', 'At least one parameter must be left free to fit.', 0);
+  }
+  if (points.length <= free.length) {
+    throw new FitError(
+      'too-few-readings', `Need at least ${free.length + 1} readings to fit ${free.length} parameter(s).`, free.length
+    );
+  }
+  if (!points.some(p => p.sourceOpen) && (fixed.K === undefined || fixed.mu === undefined)) {
+    throw new FitError(
+      'no-open-readings', 'Record at least one reading with the source open to fit K or μ.', free.length
+    );
+  }
+
+  const weighted = points.every(p => p.sigma !== undefined && p.sigma > 0);
+  const weights = points.map(p => (weighted ? 1 / (p.sigma! * p.sigma!) : 1));
+
+  let params = initialGuess(points, weights, options);
+  let chi2 = chiSquaredOf(points, weights, params);
+  let lambda = 1e-3;
+  let converged = false;
+  let iterations = 0;
+  const maxIterations = options.maxIterations ?? 200;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const { alpha, beta } = normalEquations(points, weights, params, free);
+    const damped = alpha.map((row, i) => row.map((value, j) => (i === j ? value * (1 + lambda) : value)));
+    const step = solveLinear(damped, beta);
+    if (!step) break;
+
+    const v = toVector(params);
+    free.forEach((index, a) => { v[index] += step[a]; });
+    const candidate = fromVector(v);
+    const candidateChi2 = chiSquaredOf(points, weights, candidate);
+
+    if (candidateChi2 <= chi2) {
+      const improvement = chi2 - candidateChi2;
+      params = candidate;
+      chi2 = candidateChi2;
+      lambda = Math.max(lambda / 10, 1e-12);
+      if (improvement <= 1e-12 * Math.max(chi2, 1e-30)) {
+        converged = true;
+        break;
+      }
+    } else {
+      lambda *= 10;
+      if (lambda > 1e12) {
+        // No downhill step left, we are at the minimum to numerical precision
+        converged = true;
+        break;
+      }
+    }
+  }
+
+  const degreesOfFreedom = points.length - free.length;
+  const reducedChiSquared = chi2 / degreesOfFreedom;
+
+  // Unweighted fits estimate the point scatter from the residuals themselves
+  const { alpha } = normalEquations(points, weights, params, free);
+  const inverse = invert(alpha);
+  const scale = weighted ? 1 : reducedChiSquared;
+  const covariance = FIT_PARAM_NAMES.map(() => new Array(FIT_PARAM_NAMES.length).fill(0));
+  if (inverse) {
+    free.forEach((row, a) => {
+      free.forEach((col, c) => { covariance[row][col] = inverse[a][c] * scale; });
+    });
+  }
+
+  const residuals: FitResidual[] = points.map(point => {
+    const predicted = doseRateAt(point.distanceM, point.sourceOpen, params);
+    const residual = point.doseRate - predicted;
+    return {
+      distanceM: point.distanceM,
+      sourceOpen: point.sourceOpen,
+      measured: point.doseRate,
+      predicted,
+      residual,
+      normalized: weighted ? residual / point.sigma! : residual,
+    };
+  });
+
+  return {
+    params,
+    uncertainties: fromVector(covariance.map((row, i) => Math.sqrt(Math.max(row[i], 0)))),
+    covariance,
+    freeParams: free.map(index => FIT_PARAM_NAMES[index]),
+    chiSquared: chi2,
+    degreesOfFreedom,
+    reducedChiSquared,
+    weighted,
+    converged: converged && inverse !== null,
+    iterations,
+    residuals,
+  };
+};
+
+// Compares a fitted K with the reference K = 0.170 ± 0.024 m²·µSv/h (or its value for another set-up)
+export const compareWithReferenceK = (
+  result: FitResult,
+  referenceK: number = K_CONST,
+  referenceError: number = K_ERROR
+): ReferenceComparison => {
+  const difference = result.params.K - referenceK;
+  const combined = Math.sqrt(result.uncertainties.K ** 2 + referenceError ** 2);
+  const zScore = combined > 0 ? difference / combined : 0;
+  return {
+    reference: referenceK,
+    referenceError,
+    difference,
+    zScore,
+    consistent: Math.abs(zScore) < 2,
+  };
+};
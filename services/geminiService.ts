@@ -1,55 +1,114 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI } from "@google/genai";
-
-export const explainExperiment = async (
-    distance: number,
-    uSvh: number
-): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    // distance is in cm
-    const r_meters = Math.max(distance, 1) / 100;
-    
-    const prompt = `
-    You are a Senior Physics Lab Supervisor. Analyze the current data from a student's Bremsstrahlung experiment.
-    
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AnalysisProvider, LabAssistantError, ReadingContext, throwIfCancelled } from './labAssistant';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const fmt = (value: number, digits = 3): string => value.toFixed(digits);
+
+// The prompt carries the set-up and the model values the app computed, so the answer matches the bench
+export const analysisPrompt = (context: ReadingContext, language = 'English'): string => {
+    const { reading, params } = context;
+    const distanceM = (context.distanceCm + context.photonOriginCm) / 100;
+    return `
+    You are a Senior Physics Lab Supervisor. Analyze the current data from a student's ${context.gammaSource ? 'gamma dose-rate' : 'Bremsstrahlung'} experiment.
+
     Experiment Parameters:
-    - Source: Strontium-90 (Sr-90) beta emitter (~20 MBq).
-    - Target: 5mm thick PMMA.
-    - Detector Position: d = ${distance} cm (${r_meters} m) from PMMA.
-    - Current Reading: ${uSvh} µSv/h.
-    
+    - Source: ${context.isotopeName}, ${fmt(context.activityMBq, 1)} MBq${context.sourceOpen ? '' : ' (shielded during this reading)'}.
+    - Target: ${context.targetThicknessMm} mm ${context.targetName}${context.slabCount > 0 ? `, plus ${context.slabCount} shielding slab(s)` : ''}.
+    - Detector: ${context.detectorName}, probe ${context.probeLabel}, r = ${fmt(context.distanceCm, 1)} cm from the target face at ${fmt(context.angleDeg, 0)}° from the beam axis, window ${fmt(context.incidenceDeg, 0)}° off the incoming photons.
+    - Current Reading: ${fmt(reading.doseRate)} ± ${fmt(reading.doseRateError)} µSv/h (${reading.counts} counts in ${fmt(reading.timeS, 1)} s).
+
     Theoretical Model:
     The net dose rate H*(d) follows the formula:
     H*(d) = (K * e^(-μ * d)) / d^2 + b
-    
+
     Where:
-    - K = 0.170 ± 0.024 m²·µSv/h (Depth dose constant)
-    - μ = 0.02 m⁻¹ (Attenuation coefficient)
-    - b = 0.15 µSv/h (Background radiation)
-    - d is distance in meters
-    
+    - K = ${fmt(params.K)} ± ${fmt(context.kError)} m²·µSv/h
+    - μ = ${parseFloat(params.mu.toPrecision(2))} m⁻¹ (Attenuation coefficient)
+    - b = ${params.b} µSv/h (Background radiation)
+    - d = ${fmt(distanceM)} m, measured from where the photons start${context.photonOriginCm > 0 ? ` (${fmt(context.photonOriginCm, 1)} cm behind the target face)` : ''}
+
+    The simulator's own values: H*(d) = ${fmt(context.modelDoseRate)} µSv/h at the probe; with the instrument's energy and angular response the expected reading is ${fmt(context.expectedReading)} ± ${fmt(context.expectedReadingError)} µSv/h.
+
     Please provide a short lab report covering:
-    1. Verification: Calculate the expected value for d=${r_meters}m using the formula and compare with the reading.
+    1. Verification: Compare the reading with the expected value, in units of the combined uncertainty.
     2. Physics: Briefly explain the terms: inverse square law, exponential attenuation, and background radiation.
     3. Safety: Is this level significantly above background?
-    
-    Keep the tone professional, scientific, and concise.
+
+    Keep the tone professional, scientific, and concise. Use plain text, no Markdown tables.
+    Answer in ${language}.
     `;
+};
 
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-        return response.text || "No explanation available.";
-    } catch (error) {
-        console.error("AI Error:", error);
-        return "Unable to contact the lab AI assistant at this moment.";
+// Sorts what the SDK or the network threw into the assistant's error codes
+const toLabAssistantError = (error: unknown, signal?: AbortSignal): LabAssistantError => {
+    if (error instanceof LabAssistantError) return error;
+    if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+        return new LabAssistantError('cancelled', 'Analysis cancelled', { cause: error });
+    }
+    if (error instanceof ApiError) {
+        if (error.status === 429) {
+            return new LabAssistantError('rate-limited', 'Gemini is rate-limiting requests; try again in a minute.', { cause: error });
+        }
+        return new LabAssistantError('provider-failed', `Gemini returned HTTP ${error.status}: ${error.message}`, { cause: error });
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        return new LabAssistantError('offline', 'No network connection; use the offline analyser.', { cause: error });
     }
+    // fetch() rejects with a TypeError when the request never reaches the server
+    if (error instanceof TypeError) {
+        return new LabAssistantError('offline', 'Could not reach Gemini; use the offline analyser.', { cause: error });
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new LabAssistantError('provider-failed', `Gemini failed: ${message}`, { cause: error });
+};
+
+/**
+ * Streams the lab report from Gemini. The client is created on the first request and reused; without an
+ * API key every request fails with `missing-api-key` before anything goes over the network.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AnalysisProvider => {
+    let client: GoogleGenAI | null = null;
+
+    return {
+        id: 'gemini',
+        name: 'Gemini',
+        needsNetwork: true,
+        analyse: async (context, options = {}) => {
+            const { signal, onText, i18n } = options;
+            if (!apiKey) {
+                throw new LabAssistantError('missing-api-key', 'No Gemini API key configured (set GEMINI_API_KEY).');
+            }
+            throwIfCancelled(signal);
+            if (typeof navigator !== 'undefined' && !navigator.onLine) {
+                throw new LabAssistantError('offline', 'No network connection; use the offline analyser.');
+            }
+            client ??= new GoogleGenAI({ apiKey });
+
+            let text = '';
+            try {
+                const stream = await client.models.generateContentStream({
+                    model: GEMINI_MODEL,
+                    contents: analysisPrompt(context, i18n?.t('locale.englishName')),
+                    config: { abortSignal: signal },
+                });
+                for await (const chunk of stream) {
+                    throwIfCancelled(signal);
+                    const piece = chunk.text ?? '';
+                    if (!piece) continue;
+                    text += piece;
+                    onText?.(piece);
+                }
+            } catch (error) {
+                throw toLabAssistantError(error, signal);
+            }
+            if (!text.trim()) throw new LabAssistantError('empty-response', 'Gemini returned no text.');
+            return text;
+        },
+    };
 };
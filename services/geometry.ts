@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DoseModelParams, REFERENCE_PARAMS, K_ERROR } from './doseModel';
+import { Material, MATERIALS, REFERENCE_MATERIAL_ID, betaStoppedFraction, relativeBremsstrahlungYield } from './materials';
+
+// Bench set-up. Distances to the probe are measured from the downstream face of the target.
+export interface LabGeometry {
+  sourceToTargetCm: number;
+  targetThicknessMm: number;
+  targetHeightCm: number;
+  maxDistanceCm: number;
+}
+
+// The set-up K_CONST was measured with
+export const REFERENCE_GEOMETRY: LabGeometry = {
+  sourceToTargetCm: 15,
+  targetThicknessMm: 5,
+  targetHeightCm: 37.5,
+  maxDistanceCm: 150,
+};
+
+export const GEOMETRY_LIMITS: Record<keyof LabGeometry, { min: number; max: number; step: number }> = {
+  sourceToTargetCm: { min: 2, max: 50, step: 1 },
+  targetThicknessMm: { min: 0.5, max: 20, step: 0.5 },
+  targetHeightCm: { min: 5, max: 60, step: 0.5 },
+  maxDistanceCm: { min: 50, max: 300, step: 10 },
+};
+
+// Half-angle of the collimated beta beam leaving the source housing
+export const BETA_BEAM_HALF_ANGLE_RAD = Math.atan(1 / 6);
+
+export const clampGeometry = (geometry: LabGeometry): LabGeometry => {
+  const clamped = { ...geometry };
+  (Object.keys(GEOMETRY_LIMITS) as (keyof LabGeometry)[]).forEach(key => {
+    const { min, max } = GEOMETRY_LIMITS[key];
+    clamped[key] = Math.min(Math.max(geometry[key], min), max);
+  });
+  return clamped;
+};
+
+// Fraction of the beta beam that lands on the target face
+export const betaInterceptFraction = (geometry: LabGeometry): number => {
+  const beamHalfWidthCm = geometry.sourceToTargetCm * Math.tan(BETA_BEAM_HALF_ANGLE_RAD);
+  return Math.min(1, (geometry.targetHeightCm / 2) / beamHalfWidthCm);
+};
+
+// Betas intercepted × stopped × radiated fraction for a given target
+const bremsstrahlungOutput = (geometry: LabGeometry, material: Material): number =>
+  betaInterceptFraction(geometry) *
+  betaStoppedFraction(material, geometry.targetThicknessMm) *
+  relativeBremsstrahlungYield(material);
+
+/**
+ * Bremsstrahlung output relative to the reference set-up (5 mm PMMA), which scales K in the dose formula.
+ */
+export const setupYieldFactor = (geometry: LabGeometry, material: Material): number =>
+  bremsstrahlungOutput(geometry, material) /
+  bremsstrahlungOutput(REFERENCE_GEOMETRY, MATERIALS[REFERENCE_MATERIAL_ID]);
+
+export const modelParamsForSetup = (geometry: LabGeometry, material: Material): DoseModelParams => ({
+  ...REFERENCE_PARAMS,
+  K: REFERENCE_PARAMS.K * setupYieldFactor(geometry, material),
+});
+
+// The reference uncertainty on K carries over proportionally
+export const kErrorForSetup = (geometry: LabGeometry, material: Material): number =>
+  K_ERROR * setupYieldFactor(geometry, material);
+
+// --- Canvas layout ---
+
+export interface CanvasLayout {
+  pxPerCm: number;
+  sourceX: number; // Stand of the source holder
+  emitterX: number; // Active element, where betas start
+  targetX: number; // Upstream face of the target
+  targetWidth: number;
+  targetHeight: number;
+  targetFaceX: number; // Downstream face, d = 0
+}
+
+const DEFAULT_PX_PER_CM = 4; // 4 pixels = 1 cm
+const LAYOUT_SOURCE_X = 80;
+const EMITTER_OFFSET_PX = 35; // Active element sits at the tip of the holder arm
+const LAYOUT_RIGHT_MARGIN_PX = 60; // Room for the probe housing at maximum distance
+const MIN_TARGET_VISUAL_PX = 4; // Thin targets are drawn slightly thicker so they stay visible
+
+/**
+ * Places the bench on a canvas, shrinking the scale when the requested set-up would not fit at 4 px/cm.
+ */
+export const computeLayout = (geometry: LabGeometry, canvasWidth: number, canvasHeight: number): CanvasLayout => {
+  const availablePx = canvasWidth - LAYOUT_SOURCE_X - EMITTER_OFFSET_PX - LAYOUT_RIGHT_MARGIN_PX;
+  const spanCm = geometry.sourceToTargetCm + geometry.targetThicknessMm / 10 + geometry.maxDistanceCm;
+  const pxPerCm = Math.min(DEFAULT_PX_PER_CM, availablePx / spanCm);
+
+  const emitterX = LAYOUT_SOURCE_X + EMITTER_OFFSET_PX;
+  const targetX = emitterX + geometry.sourceToTargetCm * pxPerCm;
+  const targetWidth = Math.max((geometry.targetThicknessMm / 10) * pxPerCm, MIN_TARGET_VISUAL_PX);
+
+  return {
+    pxPerCm,
+    sourceX: LAYOUT_SOURCE_X,
+    emitterX,
+    targetX,
+    targetWidth,
+    targetHeight: Math.min(geometry.targetHeightCm * pxPerCm, canvasHeight - 80),
+    targetFaceX: targetX + targetWidth,
+  };
+};
+
+/**
+ * Canvas x of a bench position in cm from the target face. The target may be drawn wider than its
+ * true thickness, so positions inside it are stretched over the drawn width.
+ */
+export const benchToCanvasX = (layout: CanvasLayout, geometry: LabGeometry, xCm: number): number => {
+  const thicknessCm = geometry.targetThicknessMm / 10;
+  if (xCm >= 0) return layout.targetFaceX + xCm * layout.pxPerCm;
+  if (xCm <= -thicknessCm) return layout.targetX + (xCm + thicknessCm) * layout.pxPerCm;
+  return layout.targetX + ((xCm + thicknessCm) / thicknessCm) * layout.targetWidth;
+};
+
+export const canvasToBenchX = (layout: CanvasLayout, geometry: LabGeometry, canvasX: number): number => {
+  const thicknessCm = geometry.targetThicknessMm / 10;
+  if (canvasX >= layout.targetFaceX) return (canvasX - layout.targetFaceX) / layout.pxPerCm;
+  if (canvasX <= layout.targetX) return (canvasX - layout.targetX) / layout.pxPerCm - thicknessCm;
+  return ((canvasX - layout.targetX) / layout.targetWidth - 1) * thicknessCm;
+};
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/*
+ * Translation and number formatting. Messages are flat key → text maps with `{name}` placeholders;
+ * a translator pairs one of them with the locale's number format. Nothing here touches the DOM, so
+ * the simulation worker uses the same code for the canvas labels.
+ */
+
+export type Catalogue = Record<string, string>;
+export type MessageParams = Record<string, string | number>;
+
+// A locale as plain data, so it can be posted to the worker
+export interface LocaleText {
+  localeId: string;
+  numberLocale: string; // BCP 47 tag for Intl, e.g. 'es-ES'
+  messages: Catalogue; // Already completed from the fallback locale
+}
+
+export interface NumberFormat {
+  fixed: (value: number, digits: number) => string; // As toFixed, with the locale's decimal separator
+  significant: (value: number, digits: number, trim?: boolean) => string; // As toPrecision, never exponential
+  exponential: (value: number, digits: number) => string;
+  number: (value: number, maxDigits?: number) => string; // Shortest form, up to `maxDigits` decimals
+}
+
+export interface Translator extends NumberFormat {
+  localeId: string;
+  numberLocale: string;
+  t: (key: string, params?: MessageParams) => string; // The key itself when no catalogue has it
+  has: (key: string) => boolean;
+  // Picks `key.one`, `key.other`, … by the locale's plural rules; `{count}` is filled in
+  plural: (key: string, count: number, params?: MessageParams) => string;
+}
+
+const formats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const cachedFormat = (locale: string, options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = formats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { useGrouping: false, ...options });
+    formats.set(key, format);
+  }
+  return format;
+};
+
+export const numberFormat = (numberLocale: string): NumberFormat => {
+  const number = (value: number, maxDigits = 6) => {
+    if (!isFinite(value)) return value > 0 ? '∞' : value < 0 ? '−∞' : '—';
+    return cachedFormat(numberLocale, { maximumFractionDigits: maxDigits }).format(value);
+  };
+  return {
+    fixed: (value, digits) => {
+      if (!isFinite(value)) return number(value);
+      return cachedFormat(numberLocale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+    },
+    significant: (value, digits, trim = false) => {
+      if (!isFinite(value)) return number(value);
+      return cachedFormat(numberLocale, {
+        minimumSignificantDigits: trim ? 1 : digits,
+        maximumSignificantDigits: digits,
+      }).format(value);
+    },
+    exponential: (value, digits) => {
+      if (!isFinite(value)) return number(value);
+      return cachedFormat(numberLocale, {
+        notation: 'scientific',
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(value);
+    },
+    number,
+  };
+};
+
+// What files meant for other programs use: a decimal point and no grouping, whatever the UI language
+export const PLAIN_NUMBERS: NumberFormat = numberFormat('en-US');
+
+export const createTranslator = (text: LocaleText): Translator => {
+  const numbers = numberFormat(text.numberLocale);
+  const fill = (template: string, params?: MessageParams) =>
+    params
+      ? template.replace(/\{(\w+)\}/g, (match, name: string) => {
+          const value = params[name];
+          if (value === undefined) return match;
+          return typeof value === 'number' ? numbers.number(value) : value;
+        })
+      : template;
+  const t = (key: string, params?: MessageParams) => fill(text.messages[key] ?? key, params);
+
+  return {
+    ...numbers,
+    localeId: text.localeId,
+    numberLocale: text.numberLocale,
+    t,
+    has: key => key in text.messages,
+    plural: (key, count, params) => {
+      let rules = pluralRules.get(text.numberLocale);
+      if (!rules) {
+        rules = new Intl.PluralRules(text.numberLocale);
+        pluralRules.set(text.numberLocale, rules);
+      }
+      const form = `${key}.${rules.select(count)}`;
+      const template = text.messages[form] ?? text.messages[`${key}.other`] ?? key;
+      return fill(template, { count, ...params });
+    },
+  };
+};
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BetaEmitter, BetaSpectrum, SR90, Y90, SR90_CHAIN_SPECTRA, buildBetaSpectrum } from './betaSpectrum';
+import { BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV } from './detectors';
+
+/*
+ * Library of sealed sources for the bench. Pure beta emitters are measured through the bremsstrahlung
+ * their betas produce in the target; gamma emitters irradiate the probe directly from the capsule, so
+ * their dose follows the gamma dose-rate constant and the target only attenuates it a little.
+ */
+
+export type IsotopeId = 'sr90' | 'kr85' | 'cs137' | 'co60' | 'am241';
+
+export type EmissionType = 'alpha' | 'beta' | 'gamma';
+
+interface EmissionBase {
+  type: EmissionType;
+  yield: number; // Per decay of the parent
+}
+
+export interface AlphaEmission extends EmissionBase {
+  type: 'alpha';
+  energyKeV: number; // Stopped in the capsule, listed for completeness
+}
+
+export interface BetaEmission extends EmissionBase {
+  type: 'beta';
+  emitter: BetaEmitter; // Endpoint and spectrum shape
+}
+
+export interface GammaEmission extends EmissionBase {
+  type: 'gamma';
+  energyKeV: number;
+}
+
+export type Emission = AlphaEmission | BetaEmission | GammaEmission;
+
+export interface Isotope {
+  id: IsotopeId;
+  name: string;
+  halfLifeY: number;
+  emissions: Emission[];
+  // H*(10) rate at 1 m per MBq, µSv·m²/h; set for gamma sources, whose dose it then gives directly
+  gammaConstant?: number;
+}
+
+const KR85: BetaEmitter = { nuclide: 'Kr-85', endpointMeV: 0.687, daughterZ: 37, shape: 'unique-first-forbidden' };
+const CS137: BetaEmitter = { nuclide: 'Cs-137', endpointMeV: 0.514, daughterZ: 56, shape: 'unique-first-forbidden' };
+const CO60: BetaEmitter = { nuclide: 'Co-60', endpointMeV: 0.318, daughterZ: 28, shape: 'allowed' };
+
+export const ISOTOPES: Record<IsotopeId, Isotope> = {
+  sr90: {
+    id: 'sr90',
+    name: 'Sr-90',
+    halfLifeY: 28.8,
+    // Y-90 (64 h) stays in secular equilibrium, one Y-90 beta for every Sr-90 beta
+    emissions: [
+      { type: 'beta', emitter: SR90, yield: 1 },
+      { type: 'beta', emitter: Y90, yield: 1 },
+    ],
+  },
+  kr85: {
+    id: 'kr85',
+    name: 'Kr-85',
+    halfLifeY: 10.76,
+    emissions: [
+      { type: 'beta', emitter: KR85, yield: 0.996 },
+      { type: 'gamma', energyKeV: 514, yield: 0.0043 },
+    ],
+  },
+  cs137: {
+    id: 'cs137',
+    name: 'Cs-137',
+    halfLifeY: 30.08,
+    // The 662 keV line comes from Ba-137m (2.6 min), in equilibrium with the parent
+    emissions: [
+      { type: 'beta', emitter: CS137, yield: 0.944 },
+      { type: 'gamma', energyKeV: 661.7, yield: 0.851 },
+    ],
+    gammaConstant: 0.093,
+  },
+  co60: {
+    id: 'co60',
+    name: 'Co-60',
+    halfLifeY: 5.271,
+    emissions: [
+      { type: 'beta', emitter: CO60, yield: 0.999 },
+      { type: 'gamma', energyKeV: 1173.2, yield: 0.9985 },
+      { type: 'gamma', energyKeV: 1332.5, yield: 0.9998 },
+    ],
+    gammaConstant: 0.351,
+  },
+  am241: {
+    id: 'am241',
+    name: 'Am-241',
+    halfLifeY: 432.6,
+    // The soft Np L X-rays do not get through the capsule
+    emissions: [
+      { type: 'alpha', energyKeV: 5486, yield: 0.845 },
+      { type: 'gamma', energyKeV: 59.54, yield: 0.359 },
+    ],
+    gammaConstant: 0.0049,
+  },
+};
+
+export const ISOTOPE_LIST: Isotope[] = Object.values(ISOTOPES);
+
+export const DEFAULT_ISOTOPE_ID: IsotopeId = 'sr90';
+
+export const isGammaSource = (isotope: Isotope): boolean => isotope.gammaConstant !== undefined;
+
+export const betaEmissions = (isotope: Isotope): BetaEmission[] =>
+  isotope.emissions.filter((e): e is BetaEmission => e.type === 'beta');
+
+export const gammaEmissions = (isotope: Isotope): GammaEmission[] =>
+  isotope.emissions.filter((e): e is GammaEmission => e.type === 'gamma');
+
+const totalYield = (emissions: EmissionBase[]): number => emissions.reduce((sum, e) => sum + e.yield, 0);
+
+// Particles the bench follows per decay: gammas for gamma sources, betas otherwise
+export const emissionsPerDecay = (isotope: Isotope): number =>
+  totalYield(isGammaSource(isotope) ? gammaEmissions(isotope) : betaEmissions(isotope));
+
+// Energy of the photons reaching the probe, for attenuation and the detector's energy response
+export const photonEnergyKeV = (isotope: Isotope): number => {
+  if (!isGammaSource(isotope)) return BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV;
+  const gammas = gammaEmissions(isotope);
+  return gammas.reduce((sum, g) => sum + g.energyKeV * g.yield, 0) / totalYield(gammas);
+};
+
+// Spectra the transport samples beta energies from, one per beta branch, built on first use
+const betaSpectraCache = new Map<IsotopeId, BetaSpectrum[]>([['sr90', SR90_CHAIN_SPECTRA]]);
+
+export const betaSpectraFor = (isotope: Isotope): BetaSpectrum[] => {
+  let spectra = betaSpectraCache.get(isotope.id);
+  if (!spectra) {
+    spectra = betaEmissions(isotope).map(e => buildBetaSpectrum(e.emitter));
+    betaSpectraCache.set(isotope.id, spectra);
+  }
+  return spectra;
+};
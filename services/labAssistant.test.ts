@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { LabAssistantError, cancellableDelay, isCancellation, readingContext, streamChunks } from './labAssistant';
+import { createMockProvider } from './mockAnalysisProvider';
+import { REFERENCE_SETUP } from './simulation';
+
+const context = readingContext(REFERENCE_SETUP, 'A', { doseRate: 1, doseRateError: 0.1, counts: 50, timeS: 10 }, 10, 'none');
+
+describe('cancellableDelay', () => {
+  it('resolves once the time is up', async () => {
+    await expect(cancellableDelay(1, new AbortController().signal)).resolves.toBeUndefined();
+  });
+
+  it('rejects at once when the signal has already fired', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const error = await cancellableDelay(10_000, controller.signal).catch(e => e);
+    expect(isCancellation(error)).toBe(true);
+  });
+
+  it('rejects as soon as the signal fires while waiting', async () => {
+    const controller = new AbortController();
+    const delay = cancellableDelay(10_000, controller.signal);
+    controller.abort();
+    const error = await delay.catch(e => e);
+    expect(error).toBeInstanceOf(LabAssistantError);
+    expect(error.code).toBe('cancelled');
+  });
+});
+
+describe('streamChunks', () => {
+  it('passes each chunk on and returns the joined text', async () => {
+    const seen: string[] = [];
+    const text = await streamChunks(['a', 'b', 'c'], { onText: chunk => seen.push(chunk) });
+    expect(seen).toEqual(['a', 'b', 'c']);
+    expect(text).toBe('abc');
+  });
+
+  it('stops between chunks once cancelled', async () => {
+    const controller = new AbortController();
+    const seen: string[] = [];
+    const stream = streamChunks(['a', 'b', 'c'], {
+      signal: controller.signal,
+      onText: chunk => {
+        seen.push(chunk);
+        controller.abort();
+      },
+    }, 1);
+    const error = await stream.catch(e => e);
+    expect(isCancellation(error)).toBe(true);
+    expect(seen).toEqual(['a']);
+  });
+});
+
+describe('isCancellation', () => {
+  it('only recognises the cancellation error', () => {
+    expect(isCancellation(new LabAssistantError('cancelled', 'stopped'))).toBe(true);
+    expect(isCancellation(new LabAssistantError('offline', 'no network'))).toBe(false);
+    expect(isCancellation(new DOMException('Aborted', 'AbortError'))).toBe(false);
+    expect(isCancellation('cancelled')).toBe(false);
+  });
+});
+
+describe('createMockProvider', () => {
+  it('streams its script and counts the calls', async () => {
+    const provider = createMockProvider({ chunks: ['one ', 'two'] });
+    const seen: string[] = [];
+    await expect(provider.analyse(context, { onText: chunk => seen.push(chunk) })).resolves.toBe('one two');
+    expect(seen).toEqual(['one ', 'two']);
+    expect(provider.calls).toBe(1);
+  });
+
+  it('fails with the scripted code after streaming', async () => {
+    const provider = createMockProvider({ chunks: ['partial'], failWith: 'rate-limited' });
+    const seen: string[] = [];
+    const error = await provider.analyse(context, { onText: chunk => seen.push(chunk) }).catch(e => e);
+    expect(error).toBeInstanceOf(LabAssistantError);
+    expect(error.code).toBe('rate-limited');
+    expect(isCancellation(error)).toBe(false);
+    expect(seen).toEqual(['partial']);
+  });
+
+  it('reports a cancellation rather than its scripted failure', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const provider = createMockProvider({ failWith: 'provider-failed' });
+    const error = await provider.analyse(context, { signal: controller.signal }).catch(e => e);
+    expect(isCancellation(error)).toBe(true);
+  });
+});
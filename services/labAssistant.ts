@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DetectorReading } from '../types';
+import { DoseModelParams } from './doseModel';
+import { correctDeadTime } from './countingStatistics';
+import { DETECTORS, DetectorId } from './detectors';
+import { ISOTOPES, isGammaSource } from './isotopes';
+import { MATERIALS } from './materials';
+import { Translator } from './i18n';
+import {
+  SimulationSetup, DeadTimeCorrectionMode, setupModelParams, setupKError, expectedDoseRate, probeCountRate,
+  probeDistanceCm, probeAngleDeg, probeIncidenceDeg, photonOriginCm, sourceDoseAtProbe,
+} from './simulation';
+
+/*
+ * Lab-report assistant: comments on the selected probe's reading the way a lab supervisor would.
+ * Providers (the offline analyser, Gemini, a scripted mock) all take the same context and stream
+ * their text, so the panel does not care which one answers.
+ */
+
+// Everything a provider needs about one reading, with the model values already worked out
+export interface ReadingContext {
+  probeLabel: string;
+  detectorId: DetectorId;
+  detectorName: string;
+  isotopeName: string;
+  gammaSource: boolean; // Otherwise the photons are bremsstrahlung from the target
+  activityMBq: number;
+  targetName: string;
+  targetThicknessMm: number;
+  slabCount: number;
+  sourceOpen: boolean;
+  distanceCm: number; // Straight line from the centre of the target face
+  angleDeg: number; // From the beam axis
+  incidenceDeg: number; // Between the window normal and the incoming photons
+  photonOriginCm: number; // Upstream of the target face, where the inverse square law counts from
+  countingTimeS: number;
+  reading: DetectorReading;
+  params: DoseModelParams;
+  kError: number; // 1-sigma uncertainty of K, m²·µSv/h
+  modelDoseRate: number; // H*(10) at the probe, µSv/h, background included
+  expectedReading: number; // What the instrument should show on average, µSv/h
+  expectedReadingError: number; // From the uncertainty of K, µSv/h
+}
+
+export const readingContext = (
+  setup: SimulationSetup,
+  probeLabel: string,
+  reading: DetectorReading,
+  countingTimeS: number,
+  correctionMode: DeadTimeCorrectionMode
+): ReadingContext => {
+  const detector = DETECTORS[setup.detectorId];
+  const params = setupModelParams(setup);
+  const kError = setupKError(setup);
+  // The rate meter's own conversion, so energy and angular response and dead time are accounted for
+  const observedCps = probeCountRate(setup, params);
+  const trueCps = correctionMode === 'none' ? observedCps : correctDeadTime(observedCps, detector.deadTimeS, correctionMode);
+  const expectedReading = trueCps / detector.calibrationCpsPerUSvH;
+  const sourcePart = setup.sourceOpen ? sourceDoseAtProbe(setup, params) : 0;
+  const responsePart = Math.max(expectedReading - params.b, 0);
+  return {
+    probeLabel,
+    detectorId: detector.id,
+    detectorName: detector.name,
+    isotopeName: ISOTOPES[setup.isotopeId].name,
+    gammaSource: isGammaSource(ISOTOPES[setup.isotopeId]),
+    activityMBq: setup.activityMBq,
+    targetName: MATERIALS[setup.targetMaterialId].name,
+    targetThicknessMm: setup.geometry.targetThicknessMm,
+    slabCount: setup.slabs.length,
+    sourceOpen: setup.sourceOpen,
+    distanceCm: probeDistanceCm(setup),
+    angleDeg: probeAngleDeg(setup),
+    incidenceDeg: probeIncidenceDeg(setup),
+    photonOriginCm: photonOriginCm(setup),
+    countingTimeS,
+    reading,
+    params,
+    kError,
+    modelDoseRate: expectedDoseRate(setup, params),
+    expectedReading,
+    expectedReadingError: sourcePart > 0 ? responsePart * kError / params.K : 0,
+  };
+};
+
+export interface ReadingDeviation {
+  difference: number; // Reading − expected, µSv/h
+  relative: number; // Of the expected reading
+  sigma: number; // Combined counting and model uncertainty, µSv/h
+  zScore: number; // Difference in units of sigma
+}
+
+export const readingDeviation = (context: ReadingContext): ReadingDeviation => {
+  const difference = context.reading.doseRate - context.expectedReading;
+  const sigma = Math.hypot(context.reading.doseRateError, context.expectedReadingError);
+  return {
+    difference,
+    relative: context.expectedReading > 0 ? difference / context.expectedReading : 0,
+    sigma,
+    zScore: sigma > 0 ? difference / sigma : 0,
+  };
+};
+
+// --- Providers ---
+
+export type LabAssistantErrorCode =
+  | 'cancelled' // The user stopped the analysis
+  | 'missing-api-key' // The provider needs a key that is not configured
+  | 'offline' // No network connection
+  | 'rate-limited' // The service asked us to slow down
+  | 'empty-response' // The provider answered with no text
+  | 'provider-failed'; // Anything else the provider reported
+
+export class LabAssistantError extends Error {
+  code: LabAssistantErrorCode;
+
+  constructor(code: LabAssistantErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'LabAssistantError';
+    this.code = code;
+  }
+}
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof LabAssistantError && error.code === 'cancelled';
+
+// Throws the cancellation error once the signal has fired; providers call it between chunks
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new LabAssistantError('cancelled', 'Analysis cancelled');
+};
+
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  onText?: (chunk: string) => void; // Called with each piece of text as it arrives
+  i18n?: Translator; // Language and number format of the answer; English without it
+}
+
+export interface AnalysisProvider {
+  id: string;
+  name: string;
+  needsNetwork: boolean;
+  // Resolves with the full text, which is also streamed through `onText`
+  analyse: (context: ReadingContext, options?: AnalysisOptions) => Promise<string>;
+}
+
+// Resolves after `ms`, or rejects with the cancellation error as soon as the signal fires
+export const cancellableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LabAssistantError('cancelled', 'Analysis cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LabAssistantError('cancelled', 'Analysis cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Streams `chunks` through `onText` one at a time, yielding between them so the panel can paint and the
+ * user can cancel, and returns the joined text.
+ */
+export const streamChunks = async (chunks: string[], options: AnalysisOptions = {}, delayMs = 0): Promise<string> => {
+  let text = '';
+  for (const chunk of chunks) {
+    await cancellableDelay(delayMs, options.signal);
+    text += chunk;
+    options.onText?.(chunk);
+  }
+  return text;
+};
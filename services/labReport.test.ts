@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Measurement } from '../types';
+import { doseRateAt } from './doseModel';
+import { DEFAULT_FIXED_PARAMS, readingBench } from './fitting';
+import { LabReportInput, labReportHtml, labReportMarkdown, modelFormula } from './labReport';
+import { translatorFor } from './locales';
+import { DEFAULT_PROBE } from './probes';
+import { REFERENCE_SETUP, setupModelParams } from './simulation';
+import { DEFAULT_UNITS } from './units';
+
+const en = translatorFor('en');
+
+// A reading exactly on the model of the reference set-up, with a 5% uncertainty
+const reading = (id: number, distanceCm: number, sourceOpen = true): Measurement => {
+  const doseRate = doseRateAt(distanceCm / 100, sourceOpen, setupModelParams(REFERENCE_SETUP));
+  return {
+    id, timestamp: '2025-03-01T09:00:00.000Z', probeLabel: 'A', distanceCm, angleDeg: 0, sourceOpen,
+    detectorId: REFERENCE_SETUP.detectorId, doseRate, doseRateError: 0.05 * doseRate,
+    integrationTimeS: 10, counts: 100, countingTimeS: 10, bench: readingBench(REFERENCE_SETUP), photonOriginCm: 0,
+  };
+};
+
+const input = (changes: Partial<LabReportInput> = {}): LabReportInput => ({
+  meta: { title: 'Inverse square law', author: 'Group 3' },
+  createdAt: new Date(2025, 2, 1, 9, 30),
+  setup: REFERENCE_SETUP,
+  probes: [DEFAULT_PROBE],
+  certificate: { activityMBq: 20, referenceDate: '2025-03-01' },
+  activityDate: '2025-03-01',
+  countingTimeS: 10,
+  deadTimeCorrection: 'none',
+  seed: 42,
+  measurements: [10, 20, 30, 50].map((d, i) => reading(i + 1, d)).concat(reading(5, 30, false)),
+  fixedParams: DEFAULT_FIXED_PARAMS,
+  units: DEFAULT_UNITS,
+  benchImage: null,
+  chartSvg: null,
+  ...changes,
+});
+
+describe('modelFormula', () => {
+  it('adds the slab factors only when there are slabs, and Γ·A for gamma sources', () => {
+    expect(modelFormula(REFERENCE_SETUP)).toBe('H*(d) = K · e^(-μd) / d² + b');
+    const slab = { id: 1, materialId: 'lead' as const, thicknessMm: 1, positionCm: 20, heightCm: 30 };
+    expect(modelFormula({ ...REFERENCE_SETUP, slabs: [slab] })).toContain('Π e^(-μᵢxᵢ)');
+    expect(modelFormula({ ...REFERENCE_SETUP, isotopeId: 'cs137' })).toMatch(/^H\*\(r\) = Γ·A/);
+  });
+});
+
+describe('labReportMarkdown', () => {
+  it('lists the set-up, every reading and a fit that recovers the model', () => {
+    const markdown = labReportMarkdown(input(), en);
+    expect(markdown.startsWith('# Inverse square law\n\n_Group 3 · ')).toBe(true);
+    expect(markdown).toContain('- **Random seed:** 42');
+    expect(markdown).toContain('| 5 | A | 30 | 0° | shielded |');
+    const K = setupModelParams(REFERENCE_SETUP).K;
+    expect(markdown).toContain(`- **K:** ${K.toPrecision(4)} ± `);
+    expect(markdown).toContain('- **μ:** 0.02000 (fixed) m⁻¹');
+    expect(markdown).toMatch(/K vs reference .*\(0\.0σ\), consistent\./);
+  });
+
+  it('fits only the readings taken on the reported bench and says so', () => {
+    const gamma = { ...REFERENCE_SETUP, isotopeId: 'cs137' as const };
+    const elsewhere = [60, 90].map((d, i) => ({ ...reading(10 + i, d), doseRate: 50, bench: readingBench(gamma), photonOriginCm: 2 }));
+    const markdown = labReportMarkdown(input({ measurements: [...input().measurements, ...elsewhere] }), en);
+    expect(markdown).toContain(en.t('fit.subset', { used: 5, total: 7 }));
+    expect(markdown).toMatch(/K vs reference .*\(0\.0σ\), consistent\./);
+    expect(markdown).toContain('| 7 | A | 90 |');
+  });
+
+  it('says why there is no fit', () => {
+    const markdown = labReportMarkdown(input({ measurements: [] }), en);
+    expect(markdown).toContain('No readings recorded.');
+    expect(markdown).toMatch(/## Model fit\n\nNo fit: /);
+  });
+
+  it('gives the readings and the fitted constants in the chosen units', () => {
+    const markdown = labReportMarkdown(input({ units: { doseRate: 'mrem/h', distance: 'm' } }), en);
+    expect(markdown).toContain('| 1 | A | 0.1 |');
+    expect(markdown).toMatch(/- \*\*b:\*\* [\d.]+ ± [\d.]+ mrem\/h/);
+  });
+
+  it('escapes table separators in probe labels', () => {
+    const measurements = [{ ...reading(1, 20), probeLabel: 'A|B' }];
+    expect(labReportMarkdown(input({ measurements }), en)).toContain('| 1 | A\\|B | 20 |');
+  });
+});
+
+describe('labReportHtml', () => {
+  it('escapes user text and embeds the chart as is', () => {
+    const html = labReportHtml(input({
+      meta: { title: 'Run <1>', author: 'A & B' },
+      chartSvg: '<svg viewBox="0 0 10 10"></svg>',
+    }), en);
+    expect(html).toContain('<title>Run &lt;1&gt;</title>');
+    expect(html).toContain('A &amp; B');
+    expect(html).toContain('<figure><svg viewBox="0 0 10 10"></svg><figcaption>');
+  });
+
+  it('is written in the chosen language', () => {
+    const es = translatorFor('es');
+    const html = labReportHtml(input({ measurements: [] }), es);
+    expect(html).toContain('<html lang="es">');
+    expect(html).toContain(es.t('report.noReadings'));
+  });
+});
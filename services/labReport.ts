@@ -0,0 +1,378 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Measurement } from '../types';
+import { DETECTORS } from './detectors';
+import {
+  FixedParamFlags, FitResult, FIT_PARAM_NAMES, compareWithReferenceK, fitDoseModel, fitErrorMessage, fixedParamValues,
+  measurementsForSetup, measurementsToFitPoints,
+} from './fitting';
+import { Translator } from './i18n';
+import { ISOTOPES, isGammaSource } from './isotopes';
+import { MATERIALS } from './materials';
+import { measurementUnits } from './measurementLog';
+import { Probe } from './probes';
+import {
+  SimulationSetup, DeadTimeCorrectionMode, setupModelParams, setupKError, photonOriginCm, probeDistanceCm, probeAngleDeg,
+} from './simulation';
+import { SourceCertificate, decayedActivityMBq, formatActivity } from './sourceActivity';
+import { DisplayUnits, QUANTITY_SYMBOLS, UnitSettings, displayUnits, modelParamFactors, modelUnitSymbols } from './units';
+
+/*
+ * Lab report for a whole session: set-up, model, measurements, fit and pictures, rendered as one
+ * self-contained HTML file (printable to PDF) or as Markdown. Both come from the same section list,
+ * so they always say the same thing.
+ */
+
+export interface LabReportMeta {
+  title: string;
+  author: string; // Student or group, free text
+}
+
+export interface LabReportInput {
+  meta: LabReportMeta;
+  createdAt: Date;
+  setup: SimulationSetup; // The bench as the selected probe sees it
+  probes: Probe[];
+  certificate: SourceCertificate;
+  activityDate: string; // YYYY-MM-DD the activity was decayed to
+  countingTimeS: number;
+  deadTimeCorrection: DeadTimeCorrectionMode;
+  seed: number;
+  measurements: Measurement[];
+  fixedParams: FixedParamFlags; // As set in the fit panel
+  units: UnitSettings; // Counts per second follow each reading's detector, the model the selected probe's
+  benchImage: string | null; // PNG data URL of the canvas
+  chartSvg: string | null; // Serialised SVG of the H*(d) plot
+}
+
+interface ReportTable {
+  headers: string[];
+  rows: string[][];
+  numeric: boolean[]; // Right-aligned columns
+}
+
+interface ReportSection {
+  heading: string;
+  facts?: [string, string][];
+  paragraphs?: string[];
+  table?: ReportTable;
+  formula?: string;
+  image?: { kind: 'png' | 'svg'; data: string; caption: string };
+}
+
+const PARAM_SYMBOLS = { K: 'K', mu: 'μ', b: 'b' };
+
+// The model as the footer of the lab shows it
+export const modelFormula = (setup: SimulationSetup): string => {
+  if (isGammaSource(ISOTOPES[setup.isotopeId])) return 'H*(r) = Γ·A · e^(-μr) / r² · Π e^(-μᵢxᵢ) + b';
+  return setup.slabs.length > 0 ? 'H*(d) = K · e^(-μd) / d² · Π e^(-μᵢxᵢ) + b' : 'H*(d) = K · e^(-μd) / d² + b';
+};
+
+// The units the model constants are given in, which need a single detector for counts per second
+const reportUnits = (input: LabReportInput): DisplayUnits => displayUnits(input.units, DETECTORS[input.setup.detectorId]);
+
+const fitSection = (input: LabReportInput, i18n: Translator): ReportSection => {
+  const { t } = i18n;
+  const units = reportUnits(input);
+  const factors = modelParamFactors(units);
+  const paramUnits = modelUnitSymbols(units);
+  const params = setupModelParams(input.setup);
+  const heading = t('report.section.fit');
+  // Readings from another source or shielding would drag the fit towards a model none of them follow
+  const readings = measurementsForSetup(input.measurements, input.setup);
+  const paragraphs: string[] = readings.length < input.measurements.length
+    ? [t('fit.subset', { used: readings.length, total: input.measurements.length })]
+    : [];
+  let result: FitResult;
+  try {
+    result = fitDoseModel(measurementsToFitPoints(readings), { fixed: fixedParamValues(input.fixedParams, params) });
+  } catch (e) {
+    return { heading, paragraphs: [...paragraphs, t('report.noFit', { reason: fitErrorMessage(e, i18n) })] };
+  }
+
+  const facts: [string, string][] = FIT_PARAM_NAMES.map(name => [
+    PARAM_SYMBOLS[name],
+    `${i18n.significant(result.params[name] * factors[name], 4)}${result.freeParams.includes(name) ? ` ± ${i18n.significant(result.uncertainties[name] * factors[name], 2)}` : ` ${t('fit.fixed')}`} ${paramUnits[name]}`,
+  ]);
+  facts.push(['χ²/ν', `${i18n.fixed(result.reducedChiSquared, 3)} (ν = ${result.degreesOfFreedom}${result.weighted ? '' : `, ${t('fit.unweighted')}`})`]);
+
+  if (!result.converged) paragraphs.push(t('fit.notConverged', { iterations: result.iterations }));
+  if (result.freeParams.includes('K')) {
+    const c = compareWithReferenceK(result, params.K, setupKError(input.setup));
+    const digits = units.doseRate.digits;
+    paragraphs.push(t('report.comparison', {
+      reference: i18n.fixed(c.reference * factors.K, digits),
+      error: i18n.fixed(c.referenceError * factors.K, digits),
+      difference: i18n.fixed(c.difference * factors.K, digits),
+      z: i18n.fixed(c.zScore, 1),
+      verdict: t(c.consistent ? 'report.consistent' : 'report.inconsistent'),
+    }));
+  }
+  return { heading, facts, paragraphs };
+};
+
+const buildSections = (input: LabReportInput, i18n: Translator): ReportSection[] => {
+  const { t } = i18n;
+  const { setup } = input;
+  const isotope = ISOTOPES[setup.isotopeId];
+  const params = setupModelParams(setup);
+  const origin = photonOriginCm(setup);
+  const units = reportUnits(input);
+  const { distance } = units;
+  const length = (cm: number) => i18n.fixed(cm * distance.perCm, distance.digits);
+  const sections: ReportSection[] = [];
+
+  sections.push({
+    heading: t('report.section.setup'),
+    facts: [
+      [t('report.fact.source'), t('report.sourceValue', { isotope: isotope.name, halfLife: isotope.halfLifeY })],
+      [t('report.fact.certifiedActivity'), t('report.onDate', {
+        value: formatActivity(input.certificate.activityMBq, i18n), date: input.certificate.referenceDate,
+      })],
+      [t('report.fact.activity'), t('report.onDate', {
+        value: formatActivity(decayedActivityMBq(input.certificate, input.activityDate, isotope.halfLifeY), i18n),
+        date: input.activityDate,
+      })],
+      [t('report.fact.sourceState'), t(setup.sourceOpen ? 'report.open' : 'report.shielded')],
+      [t('report.fact.target'), t('report.targetValue', {
+        thickness: setup.geometry.targetThicknessMm,
+        material: MATERIALS[setup.targetMaterialId].name,
+        height: `${i18n.number(setup.geometry.targetHeightCm * distance.perCm, distance.digits)} ${distance.symbol}`,
+      })],
+      [t('report.fact.sourceToTarget'), `${i18n.number(setup.geometry.sourceToTargetCm * distance.perCm, distance.digits)} ${distance.symbol}`],
+      [t('report.fact.countingTime'), `${i18n.number(input.countingTimeS)} s`],
+      [t('report.fact.deadTime'), t(`deadTime.${input.deadTimeCorrection}`)],
+      [t('report.fact.seed'), String(input.seed)],
+    ],
+  });
+
+  sections.push({
+    heading: t('report.section.probes'),
+    table: {
+      headers: [
+        t('report.column.probe'), t('report.column.detector'), `d (${distance.symbol})`,
+        t('report.column.offset', { unit: distance.symbol }), `r (${distance.symbol})`, 'θ',
+        t('report.column.rotation'),
+      ],
+      numeric: [false, false, true, true, true, true, true],
+      rows: input.probes.map(p => [
+        p.label,
+        t(`detector.${p.detectorId}`),
+        length(p.distanceCm),
+        length(p.probeOffsetCm),
+        length(probeDistanceCm(p)),
+        `${i18n.fixed(probeAngleDeg(p), 0)}°`,
+        `${i18n.number(p.probeRotationDeg)}°`,
+      ]),
+    },
+  });
+
+  if (setup.slabs.length > 0) {
+    sections.push({
+      heading: t('report.section.shielding'),
+      table: {
+        headers: [
+          t('report.column.material'), t('report.column.thickness'), t('report.column.position', { unit: distance.symbol }),
+          t('report.column.height', { unit: distance.symbol }),
+        ],
+        numeric: [false, true, true, true],
+        rows: setup.slabs.map(s => [
+          MATERIALS[s.materialId].name, i18n.number(s.thicknessMm),
+          i18n.number(s.positionCm * distance.perCm, distance.digits), i18n.number(s.heightCm * distance.perCm, distance.digits),
+        ]),
+      },
+    });
+  }
+
+  const factors = modelParamFactors(units);
+  const paramUnits = modelUnitSymbols(units);
+  sections.push({
+    heading: t('report.section.model'),
+    formula: modelFormula(setup),
+    facts: [
+      ['K', `${i18n.fixed(params.K * factors.K, units.doseRate.digits)} ± ${i18n.fixed(setupKError(setup) * factors.K, units.doseRate.digits)} ${paramUnits.K}`],
+      ['μ', `${i18n.significant(params.mu * factors.mu, 2, true)} ${paramUnits.mu}`],
+      ['b', `${i18n.number(params.b * factors.b)} ${paramUnits.b} ${t('report.background')}`],
+    ],
+    paragraphs: origin > 0 ? [t('report.origin', { origin: `${length(origin)} ${distance.symbol}`, isotope: isotope.name })] : [],
+  });
+
+  sections.push({
+    heading: t('report.section.measurements'),
+    paragraphs: input.measurements.length === 0 ? [t('report.noReadings')] : [],
+    table: input.measurements.length === 0 ? undefined : {
+      headers: [
+        '#', t('report.column.probe'), `d (${distance.symbol})`, 'θ', t('report.column.source'),
+        `${QUANTITY_SYMBOLS[units.doseRate.quantity]} (${units.doseRate.symbol})`, `± (${units.doseRate.symbol})`,
+        t('report.column.counts'), 't (s)',
+      ],
+      numeric: [true, false, true, true, false, true, true, true, true],
+      rows: input.measurements.map((m, i) => {
+        const { doseRate } = measurementUnits(m, input.units);
+        return [
+          String(i + 1),
+          m.probeLabel,
+          i18n.number(m.distanceCm * distance.perCm, distance.digits + 1),
+          `${i18n.number(m.angleDeg)}°`,
+          t(m.sourceOpen ? 'report.openShort' : 'report.shieldedShort'),
+          i18n.fixed(m.doseRate * doseRate.perUSvH, doseRate.digits),
+          i18n.fixed(m.doseRateError * doseRate.perUSvH, doseRate.digits),
+          String(m.counts),
+          i18n.fixed(m.countingTimeS, 1),
+        ];
+      }),
+    },
+  });
+
+  sections.push(fitSection(input, i18n));
+
+  if (input.chartSvg) {
+    sections.push({
+      heading: t('report.section.plot'),
+      image: { kind: 'svg', data: input.chartSvg, caption: t('report.plotCaption') },
+    });
+  }
+  if (input.benchImage) {
+    sections.push({
+      heading: t('report.section.bench'),
+      image: { kind: 'png', data: input.benchImage, caption: t('report.benchCaption') },
+    });
+  }
+  return sections;
+};
+
+const subtitle = (input: LabReportInput, i18n: Translator): string =>
+  [input.meta.author, input.createdAt.toLocaleString(i18n.numberLocale)].filter(Boolean).join(' · ');
+
+// --- HTML ---
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const REPORT_CSS = `
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 900px; margin: 2rem auto; padding: 0 1rem; line-height: 1.45; }
+  h1 { margin-bottom: 0.2rem; }
+  .subtitle { color: #6b7280; margin-top: 0; }
+  section { margin-top: 1.5rem; }
+  h2 { font-size: 1.15rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.2rem; }
+  table { border-collapse: collapse; font-family: ui-monospace, monospace; font-size: 0.85rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; text-align: left; }
+  th { background: #f3f4f6; }
+  td.num, th.num { text-align: right; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2rem 1rem; margin: 0; }
+  dt { color: #4b5563; }
+  dd { margin: 0; font-family: ui-monospace, monospace; }
+  .formula { font-family: ui-monospace, monospace; background: #f3f4f6; padding: 0.5rem; display: inline-block; }
+  figure { margin: 0; }
+  figure svg, figure img { width: 100%; height: auto; border: 1px solid #d1d5db; background: #111827; }
+  figcaption { color: #6b7280; font-size: 0.85rem; }
+  @media print {
+    @page { margin: 15mm; }
+    body { margin: 0; max-width: none; }
+    section { break-inside: avoid; }
+    figure svg, figure img { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+const htmlSection = (section: ReportSection): string => {
+  const parts = [`<h2>${escapeHtml(section.heading)}</h2>`];
+  if (section.formula) parts.push(`<p class="formula">${escapeHtml(section.formula)}</p>`);
+  if (section.facts) {
+    parts.push(`<dl>${section.facts.map(([k, v]) => `<dt>${escapeHtml(k)}</dt><dd>${escapeHtml(v)}</dd>`).join('')}</dl>`);
+  }
+  section.paragraphs?.forEach(p => parts.push(`<p>${escapeHtml(p)}</p>`));
+  if (section.table) {
+    const { headers, rows, numeric } = section.table;
+    const cls = (i: number) => (numeric[i] ? ' class="num"' : '');
+    parts.push(
+      `<table><thead><tr>${headers.map((h, i) => `<th${cls(i)}>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+      `<tbody>${rows.map(r => `<tr>${r.map((c, i) => `<td${cls(i)}>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+    );
+  }
+  if (section.image) {
+    const { kind, data, caption } = section.image;
+    // The SVG markup comes from our own chart, so it is embedded as is
+    const media = kind === 'svg' ? data : `<img src="${data}" alt="${escapeHtml(caption)}">`;
+    parts.push(`<figure>${media}<figcaption>${escapeHtml(caption)}</figcaption></figure>`);
+  }
+  return `<section>${parts.join('\n')}</section>`;
+};
+
+export const labReportHtml = (input: LabReportInput, i18n: Translator): string => `<!DOCTYPE html>
+<html lang="${escapeHtml(i18n.localeId)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(input.meta.title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeHtml(input.meta.title)}</h1>
+<p class="subtitle">${escapeHtml(subtitle(input, i18n))}</p>
+${buildSections(input, i18n).map(htmlSection).join('\n')}
+</body>
+</html>
+`;
+
+// --- Markdown ---
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|');
+
+const markdownSection = (section: ReportSection): string => {
+  const parts = [`## ${section.heading}`];
+  if (section.formula) parts.push(`\`${section.formula}\``);
+  if (section.facts) parts.push(section.facts.map(([k, v]) => `- **${k}:** ${v}`).join('\n'));
+  section.paragraphs?.forEach(p => parts.push(p));
+  if (section.table) {
+    const { headers, rows, numeric } = section.table;
+    parts.push([
+      `| ${headers.map(escapeCell).join(' | ')} |`,
+      `|${numeric.map(n => (n ? ' ---: ' : ' --- ')).join('|')}|`,
+      ...rows.map(r => `| ${r.map(escapeCell).join(' | ')} |`),
+    ].join('\n'));
+  }
+  if (section.image) {
+    const { kind, data, caption } = section.image;
+    parts.push(`![${caption}](${kind === 'svg' ? svgDataUrl(data) : data})`);
+  }
+  return parts.join('\n\n');
+};
+
+export const labReportMarkdown = (input: LabReportInput, i18n: Translator): string =>
+  [`# ${input.meta.title}`, `_${subtitle(input, i18n)}_`, ...buildSections(input, i18n).map(markdownSection)].join('\n\n') + '\n';
+
+// --- Images ---
+
+const svgDataUrl = (svg: string): string => {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+// Standalone copy of an on-page chart: explicit size and a dark background, as the app shows it
+export const serialiseChart = (svg: SVGSVGElement): string => {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const [, , width, height] = (copy.getAttribute('viewBox') ?? '0 0 480 300').split(/\s+/);
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', width);
+  copy.setAttribute('height', height);
+  copy.setAttribute('font-family', 'ui-monospace, monospace');
+  copy.removeAttribute('class');
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#111827');
+  copy.insertBefore(background, copy.firstChild);
+  return new XMLSerializer().serializeToString(copy);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the image'));
+    reader.readAsDataURL(blob);
+  });
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/// <reference types="vite/client" />
+
+import { Catalogue, LocaleText, Translator, createTranslator } from './i18n';
+
+/*
+ * The languages the lab speaks. Every `locales/<id>.json` is picked up at build time, so adding a
+ * language means adding its catalogue and nothing else; keys it leaves out fall back to English.
+ * A catalogue names itself with `locale.name` and its number format with `locale.numberLocale`.
+ */
+
+export const DEFAULT_LOCALE_ID = 'en';
+
+const STORAGE_KEY = 'sr90-lab.locale';
+
+const CATALOGUES: Record<string, Catalogue> = Object.fromEntries(
+  Object.entries(import.meta.glob<Catalogue>('../locales/*.json', { eager: true, import: 'default' }))
+    .map(([path, catalogue]) => [path.replace(/^.*\/|\.json$/g, ''), catalogue])
+);
+
+export interface LocaleOption {
+  id: string;
+  name: string; // In its own language
+}
+
+export const LOCALES: LocaleOption[] = Object.keys(CATALOGUES)
+  .sort()
+  .map(id => ({ id, name: CATALOGUES[id]['locale.name'] ?? id }));
+
+const knownLocaleId = (id: string): string => (CATALOGUES[id] ? id : DEFAULT_LOCALE_ID);
+
+/**
+ * The locale's messages completed from English. With `prefixes`, only the keys starting with one of
+ * them, which keeps what is posted to the worker small.
+ */
+export const localeText = (id: string, prefixes?: string[]): LocaleText => {
+  const localeId = knownLocaleId(id);
+  const merged: Catalogue = { ...CATALOGUES[DEFAULT_LOCALE_ID], ...CATALOGUES[localeId] };
+  const messages = prefixes
+    ? Object.fromEntries(Object.entries(merged).filter(([key]) => prefixes.some(p => key.startsWith(p))))
+    : merged;
+  return { localeId, numberLocale: merged['locale.numberLocale'] ?? localeId, messages };
+};
+
+export const translatorFor = (id: string): Translator => createTranslator(localeText(id));
+
+// The saved choice, else the first browser language we have, else English
+export const preferredLocaleId = (): string => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (saved && CATALOGUES[saved]) return saved;
+  } catch {
+    // Storage can be blocked; the browser languages still apply
+  }
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    const tag = language.toLowerCase();
+    const match = CATALOGUES[tag] ? tag : CATALOGUES[tag.split('-')[0]] ? tag.split('-')[0] : null;
+    if (match) return match;
+  }
+  return DEFAULT_LOCALE_ID;
+};
+
+export const saveLocaleId = (id: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Not remembered then; nothing else depends on it
+  }
+};
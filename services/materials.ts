@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type MaterialId = 'pmma' | 'aluminium' | 'copper' | 'lead';
+
+export interface AttenuationPoint {
+  energyKeV: number;
+  value: number; // μ/ρ in cm²/g
+}
+
+export interface Material {
+  id: MaterialId;
+  name: string;
+  density: number; // g/cm³
+  effectiveZ: number; // For bremsstrahlung production
+  // NIST XCOM μ/ρ from the Am-241 line up to Co-60, sorted by energy; 200 keV is the bremsstrahlung energy
+  photonMassAttenuation: AttenuationPoint[];
+  color: string; // Canvas fill
+}
+
+const attenuationTable = (values: [number, number, number, number]): AttenuationPoint[] =>
+  [60, 200, 662, 1250].map((energyKeV, i) => ({ energyKeV, value: values[i] }));
+
+export const MATERIALS: Record<MaterialId, Material> = {
+  pmma: {
+    id: 'pmma', name: 'PMMA', density: 1.19, effectiveZ: 6.5,
+    photonMassAttenuation: attenuationTable([0.1924, 0.133, 0.0834, 0.0615]),
+    color: 'rgba(200, 230, 255, 0.3)',
+  },
+  aluminium: {
+    id: 'aluminium', name: 'Al', density: 2.70, effectiveZ: 13,
+    photonMassAttenuation: attenuationTable([0.2778, 0.122, 0.0746, 0.0550]),
+    color: 'rgba(180, 190, 200, 0.6)',
+  },
+  copper: {
+    id: 'copper', name: 'Cu', density: 8.96, effectiveZ: 29,
+    photonMassAttenuation: attenuationTable([1.593, 0.156, 0.0730, 0.0526]),
+    color: 'rgba(200, 117, 51, 0.6)',
+  },
+  lead: {
+    id: 'lead', name: 'Pb', density: 11.35, effectiveZ: 82,
+    photonMassAttenuation: attenuationTable([5.021, 0.999, 0.114, 0.0588]),
+    color: 'rgba(110, 115, 130, 0.8)',
+  },
+};
+
+export const MATERIAL_LIST: Material[] = Object.values(MATERIALS);
+
+export const REFERENCE_MATERIAL_ID: MaterialId = 'pmma';
+
+// Mean beta energies of the two members of the Sr-90/Y-90 chain (equal activity in equilibrium)
+const SR90_MEAN_BETA_MEV = 0.196;
+const Y90_MEAN_BETA_MEV = 0.934;
+
+// Sr-90/Y-90 betas: mass absorption μ/ρ ≈ 17·Emax^-1.14 cm²/g with Emax = 2.28 MeV, nearly Z-independent
+const BETA_MASS_ABSORPTION_CM2_G = 17 * Math.pow(2.28, -1.14);
+
+/**
+ * Fraction of an electron's energy radiated as bremsstrahlung while it stops in a medium of atomic
+ * number Z: Y ≈ 6×10⁻⁴·Z·E / (1 + 6×10⁻⁴·Z·E), E in MeV.
+ */
+export const bremsstrahlungYield = (effectiveZ: number, energyMeV: number): number => {
+  const x = 6e-4 * effectiveZ * energyMeV;
+  return x / (1 + x);
+};
+
+// Radiated fraction averaged over the Sr-90 and Y-90 betas
+export const sr90BremsstrahlungYield = (material: Material): number =>
+  0.5 * (bremsstrahlungYield(material.effectiveZ, SR90_MEAN_BETA_MEV) +
+         bremsstrahlungYield(material.effectiveZ, Y90_MEAN_BETA_MEV));
+
+// Bremsstrahlung output per stopped beta, relative to PMMA
+export const relativeBremsstrahlungYield = (material: Material): number =>
+  sr90BremsstrahlungYield(material) / sr90BremsstrahlungYield(MATERIALS[REFERENCE_MATERIAL_ID]);
+
+// Fraction of the betas entering a slab that are stopped in it (and so radiate)
+export const betaStoppedFraction = (material: Material, thicknessMm: number): number =>
+  1 - Math.exp(-BETA_MASS_ABSORPTION_CM2_G * material.density * (thicknessMm / 10));
+
+// μ/ρ at a photon energy, log-log interpolated and clamped at the table ends
+export const photonMassAttenuationAt = (material: Material, energyKeV: number): number => {
+  const table = material.photonMassAttenuation;
+  if (energyKeV <= table[0].energyKeV) return table[0].value;
+  if (energyKeV >= table[table.length - 1].energyKeV) return table[table.length - 1].value;
+
+  const upper = table.findIndex(p => p.energyKeV >= energyKeV);
+  const lo = table[upper - 1];
+  const hi = table[upper];
+  const f = Math.log(energyKeV / lo.energyKeV) / Math.log(hi.energyKeV / lo.energyKeV);
+  return Math.exp(Math.log(lo.value) + f * Math.log(hi.value / lo.value));
+};
+
+// Linear attenuation coefficient μ for photons of the given energy, in cm⁻¹
+export const photonAttenuationCoefficient = (material: Material, energyKeV: number): number =>
+  photonMassAttenuationAt(material, energyKeV) * material.density;
+
+// Thickness that halves the photon intensity, in mm
+export const halfValueLayerMm = (material: Material, energyKeV: number): number =>
+  (Math.LN2 / photonAttenuationCoefficient(material, energyKeV)) * 10;
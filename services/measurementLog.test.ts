@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { Measurement } from '../types';
+import { readingBench } from './fitting';
+import { exportFileStem, measurementsToCsv, measurementsToJson } from './measurementLog';
+import { REFERENCE_SETUP } from './simulation';
+
+const HEADER = 'timestamp,probe,distance_cm,angle_deg,source_open,detector,dose_rate_uSv_h,dose_rate_error_uSv_h,integration_time_s,counts,counting_time_s';
+
+const measurements: Measurement[] = [
+  {
+    id: 1, timestamp: '2024-05-01T10:15:00.000Z', probeLabel: 'A',
+    distanceCm: 20, angleDeg: 0, sourceOpen: true, detectorId: 'gm',
+    doseRate: 1.23456, doseRateError: 0.0456, integrationTimeS: 10, counts: 42, countingTimeS: 12.34,
+    bench: readingBench(REFERENCE_SETUP), photonOriginCm: 0,
+  },
+  {
+    id: 2, timestamp: '2024-05-01T10:16:00.000Z', probeLabel: 'B, "wall"',
+    distanceCm: 80, angleDeg: 30, sourceOpen: false, detectorId: 'nai',
+    doseRate: 0.15, doseRateError: 0.02, integrationTimeS: 5, counts: 3, countingTimeS: 5,
+    bench: readingBench(REFERENCE_SETUP), photonOriginCm: 0,
+  },
+];
+
+describe('measurementsToCsv', () => {
+  it('writes a header and one row per reading, quoting labels that need it', () => {
+    expect(measurementsToCsv(measurements)).toBe([
+      HEADER,
+      '2024-05-01T10:15:00.000Z,A,20,0,true,gm,1.235,0.046,10.0,42,12.3',
+      '2024-05-01T10:16:00.000Z,"B, ""wall""",80,30,false,nai,0.150,0.020,5.0,3,5.0',
+      '',
+    ].join('\n'));
+  });
+
+  it('still writes the header for an empty log', () => {
+    expect(measurementsToCsv([]).split('\n')[0]).toBe(HEADER);
+  });
+
+  it('writes distances and dose rates in the chosen units and names the columns after them', () => {
+    const [header, first, second] = measurementsToCsv(measurements, { doseRate: 'mrem/h', distance: 'm' }).split('\n');
+    expect(header).toContain(',distance_m,');
+    expect(header).toContain(',dose_rate_mrem_h,dose_rate_error_mrem_h,');
+    expect(first).toBe('2024-05-01T10:15:00.000Z,A,0.2,0,true,gm,0.1235,0.0046,10.0,42,12.3');
+    expect(second).toContain(',0.8,30,false,nai,0.0150,0.0020,');
+  });
+});
+
+describe('measurementsToJson', () => {
+  it('keeps every field but the row id and says which units each reading is in', () => {
+    const rows = JSON.parse(measurementsToJson(measurements));
+    expect(rows).toHaveLength(2);
+    const { id, distanceCm, ...rest } = measurements[0];
+    expect(rows[0]).toEqual({ ...rest, distance: distanceCm, distanceUnit: 'cm', doseRateUnit: 'µSv/h' });
+  });
+
+  it('converts the readings to the chosen units', () => {
+    const [row] = JSON.parse(measurementsToJson(measurements, { doseRate: 'mSv/h', distance: 'm' }));
+    expect(row).toMatchObject({ distance: 0.2, distanceUnit: 'm', doseRateUnit: 'mSv/h' });
+    expect(row.doseRate).toBeCloseTo(1.23456e-3, 12);
+    expect(row.doseRateError).toBeCloseTo(4.56e-5, 12);
+  });
+});
+
+describe('exportFileStem', () => {
+  it('is safe to use in a file name', () => {
+    expect(exportFileStem(new Date('2024-05-01T10:15:00.000Z'))).toBe('sr90-measurements-2024-05-01T10-15-00');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Measurement } from '../types';
+import { DETECTORS } from './detectors';
+import { PLAIN_NUMBERS } from './i18n';
+import { DEFAULT_UNITS, DisplayUnits, UnitSettings, displayUnits } from './units';
+
+// The distance and dose-rate columns are named after the units they are written in
+const csvHeader = (units: DisplayUnits): string[] => [
+  'timestamp',
+  'probe',
+  `distance_${units.distance.symbol}`,
+  'angle_deg',
+  'source_open',
+  'detector',
+  `dose_rate_${units.doseRate.fileKey}`,
+  `dose_rate_error_${units.doseRate.fileKey}`,
+  'integration_time_s',
+  'counts',
+  'counting_time_s',
+];
+
+// Counts per second depend on the detector that took the reading, so every row has its own scale
+export const measurementUnits = (m: Measurement, units: UnitSettings): DisplayUnits =>
+  displayUnits(units, DETECTORS[m.detectorId]);
+
+// Probe labels are typed by the user, so quote any that would break the row
+const csvField = (text: string): string =>
+  /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+export const measurementsToCsv = (measurements: Measurement[], units: UnitSettings = DEFAULT_UNITS): string => {
+  const rows = measurements.map(m => {
+    const { distance, doseRate } = measurementUnits(m, units);
+    return [
+      m.timestamp,
+      csvField(m.probeLabel),
+      PLAIN_NUMBERS.number(m.distanceCm * distance.perCm, distance.digits + 2),
+      m.angleDeg.toString(),
+      m.sourceOpen ? 'true' : 'false',
+      m.detectorId,
+      (m.doseRate * doseRate.perUSvH).toFixed(doseRate.digits),
+      (m.doseRateError * doseRate.perUSvH).toFixed(doseRate.digits),
+      m.integrationTimeS.toFixed(1),
+      m.counts.toString(),
+      m.countingTimeS.toFixed(1),
+    ].join(',');
+  });
+
+  // The column names do not depend on the detector, only the values do
+  return [csvHeader(displayUnits(units, DETECTORS.gm)).join(','), ...rows].join('\n') + '\n';
+};
+
+export const measurementsToJson = (measurements: Measurement[], units: UnitSettings = DEFAULT_UNITS): string => {
+  // Drop the in-memory id, it only exists to key table rows; readings say which units they are in
+  const rows = measurements.map(m => {
+    const { id, distanceCm, doseRate, doseRateError, ...rest } = m;
+    const scale = measurementUnits(m, units);
+    return {
+      ...rest,
+      distance: distanceCm * scale.distance.perCm,
+      distanceUnit: scale.distance.symbol,
+      doseRate: doseRate * scale.doseRate.perUSvH,
+      doseRateError: doseRateError * scale.doseRate.perUSvH,
+      doseRateUnit: scale.doseRate.symbol,
+    };
+  });
+  return JSON.stringify(rows, null, 2);
+};
+
+// Triggers a browser download of a text file without a round-trip to a server
+export const downloadTextFile = (filename: string, content: string, mimeType: string) =>
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// e.g. "sr90-measurements-2024-05-01T10-15-00"
+export const exportFileStem = (date: Date = new Date(), kind = 'measurements'): string =>
+  `sr90-${kind}-${date.toISOString().slice(0, 19).replace(/:/g, '-')}`;
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AnalysisProvider, LabAssistantError, LabAssistantErrorCode, streamChunks } from './labAssistant';
+
+// Scripted provider for tests and UI work: streams fixed chunks, or fails the way a real provider can
+export interface MockProviderScript {
+  chunks?: string[];
+  delayMs?: number; // Before each chunk
+  failWith?: LabAssistantErrorCode; // Thrown after the chunks have been streamed
+}
+
+export const createMockProvider = (script: MockProviderScript = {}): AnalysisProvider & { calls: number } => {
+  const provider = {
+    id: 'mock',
+    name: 'Mock',
+    needsNetwork: false,
+    calls: 0,
+    analyse: async (context, options) => {
+      provider.calls++;
+      const chunks = script.chunks ?? [`Mock analysis of probe ${context.probeLabel}: ${context.reading.doseRate.toFixed(3)} µSv/h.\n`];
+      const text = await streamChunks(chunks, options, script.delayMs ?? 0);
+      if (script.failWith) throw new LabAssistantError(script.failWith, `Mock provider failed with ${script.failWith}`);
+      return text;
+    },
+  } satisfies AnalysisProvider & { calls: number };
+  return provider;
+};
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { DetectorReading } from '../types';
+import { isCancellation, readingContext } from './labAssistant';
+import { translatorFor } from './locales';
+import { offlineAnalyser, offlineReport } from './offlineAnalyser';
+import { REFERENCE_SETUP, SimulationSetup } from './simulation';
+
+const en = translatorFor('en');
+
+// A reading `offsetSigma` standard deviations away from what the instrument should show
+const contextAt = (offsetSigma: number, setup: SimulationSetup = REFERENCE_SETUP) => {
+  const expected = readingContext(setup, 'A', { doseRate: 0, doseRateError: 0, counts: 0, timeS: 10 }, 10, 'none');
+  const doseRateError = 0.05 * expected.expectedReading;
+  const reading: DetectorReading = {
+    doseRate: expected.expectedReading + offsetSigma * Math.hypot(doseRateError, expected.expectedReadingError),
+    doseRateError,
+    counts: 400,
+    timeS: 10,
+  };
+  return readingContext(setup, 'A', reading, 10, 'none');
+};
+
+describe('offlineReport', () => {
+  it('finds a reading on the model consistent with it', () => {
+    const report = offlineReport(contextAt(0.2), en).join('');
+    expect(report).toContain(en.t('offline.verdict.oneSigma'));
+    expect(report).not.toContain(en.t('offline.suspect.setupChanged'));
+  });
+
+  it('names suspects for a reading far off the model', () => {
+    const report = offlineReport(contextAt(5), en).join('');
+    expect(report).toContain(en.t('offline.verdict.beyond'));
+    expect(report).toContain(en.t('offline.suspect.setupChanged'));
+  });
+
+  it('only discusses the background with the source shielded', () => {
+    const context = contextAt(0, { ...REFERENCE_SETUP, sourceOpen: false });
+    const report = offlineReport(context, en).join('');
+    expect(report).toContain(en.t('offline.backgroundOnly', { b: context.params.b }));
+    expect(report).not.toContain('Inverse square law');
+  });
+
+  it('writes every line in the chosen language', () => {
+    const es = translatorFor('es');
+    const lines = offlineReport(contextAt(0.2), es);
+    expect(lines[0]).toBe(`${es.t('offline.heading', { probe: 'A', detector: es.t(`detector.${REFERENCE_SETUP.detectorId}`) })}\n`);
+    expect(lines.join('')).toContain(es.t('offline.verdict.oneSigma'));
+  });
+
+  it('gives the same text for the same reading', () => {
+    expect(offlineReport(contextAt(1.5), en)).toEqual(offlineReport(contextAt(1.5), en));
+  });
+});
+
+describe('offlineAnalyser', () => {
+  it('streams the report line by line', async () => {
+    const context = contextAt(0.2);
+    const seen: string[] = [];
+    const text = await offlineAnalyser.analyse(context, { onText: chunk => seen.push(chunk) });
+    expect(seen).toEqual(offlineReport(context, en));
+    expect(text).toBe(seen.join(''));
+  });
+
+  it('stops streaming when cancelled', async () => {
+    const controller = new AbortController();
+    const seen: string[] = [];
+    const error = await offlineAnalyser.analyse(contextAt(0.2), {
+      signal: controller.signal,
+      onText: chunk => {
+        seen.push(chunk);
+        if (seen.length === 2) controller.abort();
+      },
+    }).catch(e => e);
+    expect(isCancellation(error)).toBe(true);
+    expect(seen).toHaveLength(2);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { formatDuration, timeForRelativeUncertainty } from './countingStatistics';
+import { Translator } from './i18n';
+import { AnalysisProvider, ReadingContext, readingDeviation, streamChunks } from './labAssistant';
+import { DEFAULT_LOCALE_ID, translatorFor } from './locales';
+
+/*
+ * Template-based lab report that needs no network: it works the model value out itself, compares the
+ * reading against it, and picks its comments from the numbers. The same reading always gives the same text.
+ */
+
+// Pause between lines, so the report appears the way a streamed answer does
+const LINE_DELAY_MS = 40;
+
+// Relative uncertainty the counting-time advice aims for
+const TARGET_RELATIVE_UNCERTAINTY = 0.05;
+
+const verdictKey = (zScore: number): string => {
+  const z = Math.abs(zScore);
+  if (z < 1) return 'offline.verdict.oneSigma';
+  if (z < 2) return 'offline.verdict.twoSigma';
+  if (z < 3) return 'offline.verdict.threeSigma';
+  return 'offline.verdict.beyond';
+};
+
+// Likely reasons for a reading well off the model, from what the set-up shows
+const suspectsFor = (context: ReadingContext, zScore: number, i18n: Translator): string[] => {
+  if (Math.abs(zScore) < 2) return [];
+  const { t } = i18n;
+  const suspects: string[] = [];
+  if (context.reading.timeS < context.countingTimeS - 1e-9) suspects.push(t('offline.suspect.window'));
+  if (context.incidenceDeg > 30) {
+    suspects.push(t('offline.suspect.incidence', { angle: i18n.fixed(context.incidenceDeg, 0) }));
+  }
+  if (context.reading.counts < 100) suspects.push(t('offline.suspect.fewCounts', { counts: String(context.reading.counts) }));
+  if (suspects.length === 0) suspects.push(t('offline.suspect.setupChanged'));
+  return suspects;
+};
+
+const signed = (text: string, value: number): string => (value >= 0 ? `+${text}` : text);
+
+export const offlineReport = (context: ReadingContext, i18n: Translator): string[] => {
+  const { t } = i18n;
+  const fmt = (value: number, digits = 3): string => i18n.fixed(value, digits);
+  const { reading, params } = context;
+  const deviation = readingDeviation(context);
+  const distanceM = (context.distanceCm + context.photonOriginCm) / 100;
+  const lines: string[] = [];
+
+  lines.push(t('offline.heading', { probe: context.probeLabel, detector: t(`detector.${context.detectorId}`) }));
+  lines.push(t('offline.setup', {
+    isotope: context.isotopeName,
+    activity: fmt(context.activityMBq, 1),
+    thickness: context.targetThicknessMm,
+    target: context.targetName,
+    slabs: context.slabCount > 0 ? i18n.plural('offline.slabs', context.slabCount) : '',
+  }));
+  lines.push(t('offline.position', {
+    distance: fmt(context.distanceCm, 1),
+    angle: fmt(context.angleDeg, 0),
+    state: t(context.sourceOpen ? 'offline.open' : 'offline.shielded'),
+  }));
+  lines.push('');
+
+  lines.push(t('offline.verification'));
+  if (context.sourceOpen) {
+    lines.push(t('offline.model', {
+      K: fmt(params.K),
+      kError: fmt(context.kError),
+      mu: i18n.significant(params.mu, 2, true),
+      b: params.b,
+      distance: fmt(distanceM),
+    }));
+  } else {
+    lines.push(t('offline.backgroundOnly', { b: params.b }));
+  }
+  lines.push(t('offline.modelRate', { rate: fmt(context.modelDoseRate) }));
+  if (Math.abs(context.expectedReading - context.modelDoseRate) > 0.001) {
+    lines.push(t('offline.expectedReading', { rate: fmt(context.expectedReading) }));
+  }
+  lines.push(t('offline.measured', {
+    rate: fmt(reading.doseRate),
+    error: fmt(reading.doseRateError),
+    counts: String(reading.counts),
+    time: fmt(reading.timeS, 1),
+  }));
+  lines.push(t('offline.deviation', {
+    difference: signed(fmt(deviation.difference), deviation.difference),
+    relative: signed(fmt(deviation.relative * 100, 1), deviation.relative),
+    z: fmt(Math.abs(deviation.zScore), 1),
+    sigma: fmt(deviation.sigma),
+  }));
+  lines.push(t(verdictKey(deviation.zScore)));
+  suspectsFor(context, deviation.zScore, i18n).forEach(s => lines.push(`- ${s}`));
+  lines.push('');
+
+  lines.push(t('offline.physics'));
+  lines.push(t(context.gammaSource ? 'offline.physics.gamma' : 'offline.physics.bremsstrahlung'));
+  if (context.sourceOpen) {
+    lines.push(t('offline.physics.inverseSquare', { distance: fmt(distanceM, 2) }));
+    lines.push(t('offline.physics.air', { transmission: fmt(Math.exp(-params.mu * distanceM), 4) }));
+  }
+  lines.push(t('offline.physics.background', {
+    b: params.b,
+    share: fmt(Math.min(params.b / Math.max(reading.doseRate, 1e-9), 1) * 100, 0),
+  }));
+  lines.push('');
+
+  lines.push(t('offline.safety'));
+  const net = reading.doseRate - params.b;
+  const netSigma = net / Math.max(reading.doseRateError, 1e-9);
+  if (netSigma < 2) {
+    lines.push(t('offline.safety.notSignificant', { net: fmt(net) }));
+  } else {
+    lines.push(t('offline.safety.significant', { net: fmt(net), z: fmt(netSigma, 1) }));
+  }
+
+  const rateCps = reading.timeS > 0 ? reading.counts / reading.timeS : 0;
+  const neededS = timeForRelativeUncertainty(rateCps, TARGET_RELATIVE_UNCERTAINTY);
+  if (isFinite(neededS) && neededS > reading.timeS) {
+    lines.push(t('offline.safety.countingTime', {
+      percent: TARGET_RELATIVE_UNCERTAINTY * 100,
+      time: formatDuration(neededS, i18n),
+    }));
+  }
+
+  return lines.map(line => `${line}\n`);
+};
+
+export const offlineAnalyser: AnalysisProvider = {
+  id: 'offline',
+  name: 'Offline analyser',
+  needsNetwork: false,
+  analyse: (context, options = {}) =>
+    streamChunks(offlineReport(context, options.i18n ?? translatorFor(DEFAULT_LOCALE_ID)), options, LINE_DELAY_MS),
+};
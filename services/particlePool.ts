@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TransportParticle, TransportParticleKind } from './transport';
+
+/*
+ * Struct-of-arrays particle storage. Live particles occupy slots 0 … count-1; removal moves the last
+ * particle into the freed slot, so nothing is allocated or shifted per frame. Each slot keeps a ring
+ * buffer of its recent positions for drawing trails.
+ */
+
+export const HISTORY_LENGTH = 10;
+export const DEFAULT_POOL_CAPACITY = 20000;
+
+export const PARTICLE_KINDS: TransportParticleKind[] = ['beta', 'transmitted_beta', 'photon', 'background_photon', 'gamma'];
+
+export interface ParticlePool {
+  capacity: number;
+  count: number;
+  kind: Uint8Array; // Index into PARTICLE_KINDS
+  x: Float64Array;
+  y: Float64Array;
+  ux: Float64Array;
+  uy: Float64Array;
+  energyMeV: Float64Array;
+  life: Float64Array;
+  inDetectors: Uint8Array; // Bitmask, see TransportParticle
+  historyX: Float32Array; // capacity × HISTORY_LENGTH
+  historyY: Float32Array;
+  historyStart: Uint8Array; // Ring-buffer slot of the oldest point
+  historyLength: Uint8Array;
+}
+
+export const createParticlePool = (capacity: number = DEFAULT_POOL_CAPACITY): ParticlePool => ({
+  capacity,
+  count: 0,
+  kind: new Uint8Array(capacity),
+  x: new Float64Array(capacity),
+  y: new Float64Array(capacity),
+  ux: new Float64Array(capacity),
+  uy: new Float64Array(capacity),
+  energyMeV: new Float64Array(capacity),
+  life: new Float64Array(capacity),
+  inDetectors: new Uint8Array(capacity),
+  historyX: new Float32Array(capacity * HISTORY_LENGTH),
+  historyY: new Float32Array(capacity * HISTORY_LENGTH),
+  historyStart: new Uint8Array(capacity),
+  historyLength: new Uint8Array(capacity),
+});
+
+export const clearPool = (pool: ParticlePool) => {
+  pool.count = 0;
+};
+
+// Copies a particle into slot i
+export const storeParticle = (pool: ParticlePool, i: number, p: TransportParticle) => {
+  pool.kind[i] = PARTICLE_KINDS.indexOf(p.kind);
+  pool.x[i] = p.x;
+  pool.y[i] = p.y;
+  pool.ux[i] = p.ux;
+  pool.uy[i] = p.uy;
+  pool.energyMeV[i] = p.energyMeV;
+  pool.life[i] = p.life;
+  pool.inDetectors[i] = p.inDetectors;
+};
+
+// Reads slot i into a caller-owned scratch object, so stepping a particle allocates nothing
+export const loadParticle = (pool: ParticlePool, i: number, out: TransportParticle): TransportParticle => {
+  out.kind = PARTICLE_KINDS[pool.kind[i]];
+  out.x = pool.x[i];
+  out.y = pool.y[i];
+  out.ux = pool.ux[i];
+  out.uy = pool.uy[i];
+  out.energyMeV = pool.energyMeV[i];
+  out.life = pool.life[i];
+  out.inDetectors = pool.inDetectors[i];
+  return out;
+};
+
+// Appends a particle with an empty trail; returns false (dropping it) when the pool is full
+export const addParticle = (pool: ParticlePool, p: TransportParticle): boolean => {
+  if (pool.count >= pool.capacity) return false;
+  const i = pool.count++;
+  storeParticle(pool, i, p);
+  pool.historyStart[i] = 0;
+  pool.historyLength[i] = 0;
+  return true;
+};
+
+export const removeParticle = (pool: ParticlePool, i: number) => {
+  const last = --pool.count;
+  if (i === last) return;
+
+  pool.kind[i] = pool.kind[last];
+  pool.x[i] = pool.x[last];
+  pool.y[i] = pool.y[last];
+  pool.ux[i] = pool.ux[last];
+  pool.uy[i] = pool.uy[last];
+  pool.energyMeV[i] = pool.energyMeV[last];
+  pool.life[i] = pool.life[last];
+  pool.inDetectors[i] = pool.inDetectors[last];
+  pool.historyX.copyWithin(i * HISTORY_LENGTH, last * HISTORY_LENGTH, (last + 1) * HISTORY_LENGTH);
+  pool.historyY.copyWithin(i * HISTORY_LENGTH, last * HISTORY_LENGTH, (last + 1) * HISTORY_LENGTH);
+  pool.historyStart[i] = pool.historyStart[last];
+  pool.historyLength[i] = pool.historyLength[last];
+};
+
+// Pushes the current position of slot i onto its trail, overwriting the oldest point when full
+export const recordHistory = (pool: ParticlePool, i: number) => {
+  const length = pool.historyLength[i];
+  const slot = (pool.historyStart[i] + length) % HISTORY_LENGTH;
+  pool.historyX[i * HISTORY_LENGTH + slot] = pool.x[i];
+  pool.historyY[i * HISTORY_LENGTH + slot] = pool.y[i];
+  if (length < HISTORY_LENGTH) {
+    pool.historyLength[i] = length + 1;
+  } else {
+    pool.historyStart[i] = (pool.historyStart[i] + 1) % HISTORY_LENGTH;
+  }
+};
+
+// Offset into historyX/historyY of the k-th trail point of slot i, oldest first
+export const historyIndex = (pool: ParticlePool, i: number, k: number): number =>
+  i * HISTORY_LENGTH + (pool.historyStart[i] + k) % HISTORY_LENGTH;
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DoseModelParams } from './doseModel';
+import { fieldDoseRate } from './doseField';
+import { SimulationSetup } from './simulation';
+
+/*
+ * Polar scan: the probe orbits the centre of the target face at a fixed radius, window towards it, and
+ * takes one full reading per angle. Plotted against the angle, the readings map how the radiation leaving
+ * the target is distributed, e.g. the forward-peaked bremsstrahlung from the PMMA.
+ */
+
+export interface PolarScanSettings {
+  radiusCm: number;
+  fromDeg: number; // Angles from the beam axis, positive below it in the bench view
+  toDeg: number;
+  stepDeg: number;
+}
+
+export const DEFAULT_POLAR_SCAN: PolarScanSettings = { radiusCm: 30, fromDeg: -80, toDeg: 80, stepDeg: 10 };
+
+// The orbit stays in front of the target and on the canvas
+export const POLAR_SCAN_LIMITS = {
+  radiusCm: { min: 10, max: 45 },
+  angleDeg: { min: -90, max: 90 },
+  stepDeg: { min: 1, max: 45 },
+};
+
+export interface PolarScanPoint {
+  angleDeg: number;
+  doseRate: number; // µSv/h as shown on the readout
+  doseRateError: number;
+}
+
+export type ProbePlacement = Pick<SimulationSetup, 'distanceCm' | 'probeOffsetCm' | 'probeRotationDeg'>;
+
+// Angles from `fromDeg` towards `toDeg` in steps, both ends included when the step lands on them
+export const polarScanAngles = (settings: PolarScanSettings): number[] => {
+  const step = Math.abs(settings.stepDeg);
+  if (!(step > 0)) throw new Error(`Invalid scan step: ${settings.stepDeg}°`);
+  const direction = settings.toDeg >= settings.fromDeg ? 1 : -1;
+  const count = Math.floor(Math.abs(settings.toDeg - settings.fromDeg) / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => settings.fromDeg + direction * i * step);
+};
+
+// Probe on the orbit at `angleDeg`, turned so its window faces the centre of the target face
+export const polarScanPlacement = (radiusCm: number, angleDeg: number): ProbePlacement => {
+  const angleRad = angleDeg * Math.PI / 180;
+  const round = (cm: number) => Math.round(cm * 100) / 100;
+  return {
+    distanceCm: round(radiusCm * Math.cos(angleRad)),
+    probeOffsetCm: round(radiusCm * Math.sin(angleRad)),
+    probeRotationDeg: angleDeg,
+  };
+};
+
+// H*(10) the model predicts on the orbit at `angleDeg`
+export const polarModelDoseRate = (
+  setup: SimulationSetup,
+  params: DoseModelParams,
+  radiusCm: number,
+  angleDeg: number
+): number => {
+  const placement = polarScanPlacement(radiusCm, angleDeg);
+  return fieldDoseRate(setup, params, placement.distanceCm, placement.probeOffsetCm);
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_DETECTOR_ID } from './detectors';
+import { ProbeState, SimulationSetup } from './simulation';
+
+/*
+ * Several probes can sit on the bench at once, each with its own instrument, position and reading.
+ * They count the same photons at the same time, so two positions can be compared without background
+ * fluctuations between separate runs, and a probe behind an absorber shows its shadow directly.
+ */
+
+export interface Probe extends ProbeState {
+  id: number;
+  label: string;
+}
+
+// Matches what the transport can track per particle; more would crowd the bench anyway
+export const MAX_PROBES = 4;
+
+// Label colours, by position in the probe list
+export const PROBE_COLORS = ['#facc15', '#38bdf8', '#f472b6', '#a3e635'];
+
+export const DEFAULT_PROBE: Probe = {
+  id: 1,
+  label: 'A',
+  detectorId: DEFAULT_DETECTOR_ID,
+  distanceCm: 80,
+  probeOffsetCm: 0,
+  probeRotationDeg: 0,
+};
+
+export const probeColor = (index: number): string => PROBE_COLORS[index % PROBE_COLORS.length];
+
+// Everything on the bench but the probes
+export type BenchSetup = Omit<SimulationSetup, keyof ProbeState>;
+
+// The set-up as this probe sees it
+export const probeSetup = (bench: BenchSetup, probe: ProbeState): SimulationSetup => ({
+  ...bench,
+  detectorId: probe.detectorId,
+  distanceCm: probe.distanceCm,
+  probeOffsetCm: probe.probeOffsetCm,
+  probeRotationDeg: probe.probeRotationDeg,
+});
+
+/**
+ * A new probe next to the last one: same instrument and distance, moved across the beam so the two do
+ * not overlap, and labelled with the next free letter.
+ */
+export const addProbe = (probes: Probe[], maxOffsetCm: number): Probe[] => {
+  if (probes.length >= MAX_PROBES) throw new Error(`At most ${MAX_PROBES} probes fit on the bench`);
+  const last = probes[probes.length - 1] ?? DEFAULT_PROBE;
+  const used = new Set(probes.map(p => p.label));
+  const label = 'ABCDEFGH'.split('').find(l => !used.has(l)) ?? String(probes.length + 1);
+  const offsetCm = last.probeOffsetCm + 15 <= maxOffsetCm ? last.probeOffsetCm + 15 : last.probeOffsetCm - 15;
+  const probe: Probe = {
+    ...last,
+    id: Math.max(0, ...probes.map(p => p.id)) + 1,
+    label,
+    probeOffsetCm: Math.max(-maxOffsetCm, offsetCm),
+  };
+  return [...probes, probe];
+};
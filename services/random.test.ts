@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SEED, MAX_SEED, createRandom, normaliseSeed } from './random';
+
+const take = (random: () => number, count: number) => Array.from({ length: count }, random);
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(take(createRandom(1234), 20)).toEqual(take(createRandom(1234), 20));
+  });
+
+  it('gives unrelated sequences for neighbouring seeds and for each stream', () => {
+    const first = take(createRandom(1), 20);
+    expect(take(createRandom(2), 20)).not.toEqual(first);
+    expect(take(createRandom(1, 'rateMeter'), 20)).not.toEqual(first);
+  });
+
+  it('stays in [0, 1) with a uniform mean', () => {
+    const values = take(createRandom(DEFAULT_SEED), 50_000);
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(Math.abs(mean - 0.5)).toBeLessThan(5 * Math.sqrt(1 / 12 / values.length));
+  });
+});
+
+describe('normaliseSeed', () => {
+  it('maps any number onto a 32-bit seed', () => {
+    expect(normaliseSeed(42.9)).toBe(42);
+    expect(normaliseSeed(-7)).toBe(7);
+    expect(normaliseSeed(MAX_SEED + 5)).toBe(4);
+    expect(normaliseSeed(NaN)).toBe(DEFAULT_SEED);
+    expect(normaliseSeed(Infinity)).toBe(DEFAULT_SEED);
+  });
+});
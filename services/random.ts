@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Uniform deviates in [0, 1), drop-in for Math.random
+export type RandomSource = () => number;
+
+export const MAX_SEED = 0xffffffff;
+export const DEFAULT_SEED = 90;
+
+// Independent streams derived from one seed, so e.g. the animation frame rate can't shift the readings
+export type RandomStream = 'particles' | 'rateMeter';
+
+const STREAM_OFFSETS: Record<RandomStream, number> = {
+  particles: 1,
+  rateMeter: 2,
+};
+
+export const normaliseSeed = (seed: number): number =>
+  Number.isFinite(seed) ? Math.floor(Math.abs(seed)) % (MAX_SEED + 1) : DEFAULT_SEED;
+
+// SplitMix32 finaliser: spreads nearby seeds over unrelated generator states
+const mixSeed = (value: number): number => {
+  let z = (value + 0x9e3779b9) | 0;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+  return (z ^ (z >>> 16)) >>> 0;
+};
+
+/**
+ * Mulberry32: a 32-bit generator that is fast, passes the usual statistical batteries at the sample
+ * sizes a lab session produces, and gives identical sequences in every JavaScript engine.
+ */
+export const createRandom = (seed: number, stream: RandomStream = 'particles'): RandomSource => {
+  let state = mixSeed(normaliseSeed(seed) + STREAM_OFFSETS[stream] * 0x632be5ab);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh seed for the "new seed" button; the only place the unseeded generator is used
+export const randomSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
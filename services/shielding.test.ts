@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV as E } from './detectors';
+import { MATERIALS, halfValueLayerMm } from './materials';
+import {
+  SLAB_THICKNESS_LIMITS, ShieldSlab, clampSlab, onAxisTransmission, pathTransmission, slabTransmission,
+} from './shielding';
+
+const lead = (changes: Partial<ShieldSlab> = {}): ShieldSlab =>
+  ({ id: 1, materialId: 'lead', thicknessMm: 1, positionCm: 20, heightCm: 30, ...changes });
+
+describe('slabTransmission', () => {
+  it('halves the photons every half-value layer', () => {
+    const hvl = halfValueLayerMm(MATERIALS.lead, E);
+    expect(slabTransmission(lead({ thicknessMm: hvl }), E)).toBeCloseTo(0.5, 9);
+    expect(slabTransmission(lead({ thicknessMm: 2 * hvl }), E)).toBeCloseTo(0.25, 9);
+  });
+});
+
+describe('pathTransmission', () => {
+  it('only attenuates points behind the slab', () => {
+    const slabs = [lead()];
+    expect(pathTransmission(slabs, 10, 0, E)).toBe(1);
+    expect(pathTransmission(slabs, 50, 0, E)).toBeCloseTo(slabTransmission(slabs[0], E), 12);
+    expect(onAxisTransmission(slabs, 50, E)).toBe(pathTransmission(slabs, 50, 0, E));
+  });
+
+  it('counts a partly crossed slab by the part crossed', () => {
+    const slab = lead({ thicknessMm: 20 });
+    expect(pathTransmission([slab], 21, 0, E)).toBeCloseTo(slabTransmission(lead({ thicknessMm: 10 }), E), 12);
+  });
+
+  it('lengthens the path of oblique rays by the secant', () => {
+    const slabs = [lead()];
+    const straight = -Math.log(pathTransmission(slabs, 40, 0, E));
+    const oblique = -Math.log(pathTransmission(slabs, 40, 10, E));
+    expect(oblique / straight).toBeCloseTo(Math.hypot(40, 10) / 40, 12);
+  });
+
+  it('traces oblique rays from an origin upstream of the target face', () => {
+    const slabs = [lead()];
+    const fromOrigin = pathTransmission(slabs, 30, 10, E, 10);
+    expect(-Math.log(fromOrigin)).toBeCloseTo(-Math.log(slabTransmission(slabs[0], E)) * Math.hypot(40, 10) / 40, 12);
+    expect(fromOrigin).toBeGreaterThan(pathTransmission(slabs, 30, 10, E));
+  });
+
+  it('lets rays pass above or below the slab', () => {
+    expect(pathTransmission([lead({ heightCm: 10 })], 40, 30, E)).toBe(1);
+  });
+
+  it('multiplies the transmissions of several slabs', () => {
+    const first = lead();
+    const second = lead({ id: 2, materialId: 'aluminium', thicknessMm: 10, positionCm: 30 });
+    expect(pathTransmission([first, second], 60, 0, E))
+      .toBeCloseTo(slabTransmission(first, E) * slabTransmission(second, E), 12);
+  });
+});
+
+describe('clampSlab', () => {
+  it('keeps the thickness within its limits and the slab on the bench', () => {
+    expect(clampSlab(lead({ thicknessMm: 0 }), 150).thicknessMm).toBe(SLAB_THICKNESS_LIMITS.min);
+    expect(clampSlab(lead({ thicknessMm: 500 }), 150).thicknessMm).toBe(SLAB_THICKNESS_LIMITS.max);
+    expect(clampSlab(lead({ positionCm: -5 }), 150).positionCm).toBe(0);
+    expect(clampSlab(lead({ thicknessMm: 20, positionCm: 149 }), 150).positionCm).toBe(148);
+  });
+});
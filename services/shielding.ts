@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MATERIALS, MaterialId, photonAttenuationCoefficient } from './materials';
+
+// An absorber slab standing between the target and the probe (or the target itself, for gamma sources)
+export interface ShieldSlab {
+  id: number;
+  materialId: MaterialId;
+  thicknessMm: number;
+  positionCm: number; // Upstream face, measured from the target's downstream face
+  heightCm: number;
+}
+
+export const SLAB_THICKNESS_LIMITS = { min: 0.5, max: 100, step: 0.5 };
+export const DEFAULT_SLAB_HEIGHT_CM = 30;
+
+export const slabEndCm = (slab: ShieldSlab): number => slab.positionCm + slab.thicknessMm / 10;
+
+// e^(-μx) for a photon of the given energy crossing the full slab head-on
+export const slabTransmission = (slab: ShieldSlab, energyKeV: number): number =>
+  Math.exp(-photonAttenuationCoefficient(MATERIALS[slab.materialId], energyKeV) * (slab.thicknessMm / 10));
+
+/**
+ * Fraction of photons reaching a point (dx, dy), in cm from the centre of the target face, after
+ * crossing every slab on the straight line from where they start: the centre of the target face, or a
+ * point `originCm` upstream of it. Oblique rays see a longer path.
+ */
+export const pathTransmission = (
+  slabs: ShieldSlab[],
+  dxCm: number,
+  dyCm: number,
+  energyKeV: number,
+  originCm = 0
+): number => {
+  const runCm = dxCm + originCm;
+  if (runCm <= 0 || slabs.length === 0) return 1;
+
+  const secant = Math.sqrt(runCm * runCm + dyCm * dyCm) / runCm;
+  let exponent = 0;
+
+  slabs.forEach(slab => {
+    const start = Math.max(slab.positionCm, -originCm);
+    const end = Math.min(slabEndCm(slab), dxCm);
+    if (end <= start) return;
+
+    // Height of the ray where it crosses the slab
+    const y = dyCm * ((start + end) / 2 + originCm) / runCm;
+    if (Math.abs(y) > slab.heightCm / 2) return;
+
+    exponent += photonAttenuationCoefficient(MATERIALS[slab.materialId], energyKeV) * (end - start) * secant;
+  });
+
+  return Math.exp(-exponent);
+};
+
+// Transmission along the beam axis to a probe at distance d, the e^(-μx) factors of the dose formula
+export const onAxisTransmission = (
+  slabs: ShieldSlab[],
+  distanceCm: number,
+  energyKeV: number,
+  originCm = 0
+): number => pathTransmission(slabs, distanceCm, 0, energyKeV, originCm);
+
+// Keeps the thickness within limits and the whole slab on the bench
+export const clampSlab = (slab: ShieldSlab, maxDistanceCm: number): ShieldSlab => {
+  const thicknessMm = Math.min(Math.max(slab.thicknessMm, SLAB_THICKNESS_LIMITS.min), SLAB_THICKNESS_LIMITS.max);
+  const positionCm = Math.min(Math.max(slab.positionCm, 0), Math.max(maxDistanceCm - thicknessMm / 10, 0));
+  return { ...slab, thicknessMm, positionCm };
+};
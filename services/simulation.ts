@@ -0,0 +1,330 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DetectorReading } from '../types';
+import { B_CONST, K_CONST, K_ERROR, REFERENCE_PARAMS, DoseModelParams, sourceDoseRate } from './doseModel';
+import {
+  SAMPLE_INTERVAL_S, CountSample, DeadTimeCorrection, DeadTimeModel, samplePoisson, readingFromSamples,
+} from './countingStatistics';
+import {
+  DETECTORS, DEFAULT_DETECTOR_ID, BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV, DetectorId, DetectorType,
+  energyResponseAt, angularResponseAt, observedCountRate,
+} from './detectors';
+import { LabGeometry, REFERENCE_GEOMETRY, modelParamsForSetup } from './geometry';
+import {
+  Isotope, IsotopeId, ISOTOPES, DEFAULT_ISOTOPE_ID, isGammaSource, gammaEmissions, emissionsPerDecay, photonEnergyKeV,
+  betaSpectraFor,
+} from './isotopes';
+import { MATERIALS, REFERENCE_MATERIAL_ID, MaterialId } from './materials';
+import { RandomSource } from './random';
+import { ShieldSlab, pathTransmission } from './shielding';
+import {
+  TransportScene, TransportDetector, MAX_DETECTORS, REFERENCE_PHOTON_WEIGHT, emitFromSource, emitBackgroundPhoton, stepParticles, airAttenuationCoefficient,
+  spectrumAveragedPhotons, bremsstrahlungAngularFactor,
+} from './transport';
+import { ParticlePool, createParticlePool, addParticle } from './particlePool';
+import { REFERENCE_ACTIVITY_MBQ, activityScale } from './sourceActivity';
+
+/*
+ * DOM-free simulation core shared by the lab UI and the command-line sweeps: the analytic rate meter
+ * and the particle transport for one bench set-up.
+ */
+
+export type DeadTimeCorrectionMode = 'none' | DeadTimeModel;
+
+// What a probe is and where it sits
+export interface ProbeState {
+  detectorId: DetectorId;
+  distanceCm: number; // Position along the beam axis, from the target face
+  probeOffsetCm: number; // Across the axis, positive downwards in the bench view
+  probeRotationDeg: number; // 0 with the window facing back along the axis, positive clockwise on screen
+}
+
+// The bench as one probe sees it; with several probes there is one set-up per probe
+export interface SimulationSetup extends ProbeState {
+  geometry: LabGeometry;
+  targetMaterialId: MaterialId;
+  slabs: ShieldSlab[];
+  sourceOpen: boolean;
+  isotopeId: IsotopeId;
+  activityMBq: number; // Current activity, after decay since the certificate date
+}
+
+export const REFERENCE_SETUP: SimulationSetup = {
+  geometry: REFERENCE_GEOMETRY,
+  targetMaterialId: REFERENCE_MATERIAL_ID,
+  detectorId: DEFAULT_DETECTOR_ID,
+  slabs: [],
+  distanceCm: 80,
+  probeOffsetCm: 0,
+  probeRotationDeg: 0,
+  sourceOpen: true,
+  isotopeId: DEFAULT_ISOTOPE_ID,
+  activityMBq: REFERENCE_ACTIVITY_MBQ,
+};
+
+// Published gamma dose-rate constants agree to within a few per cent
+const GAMMA_CONSTANT_RELATIVE_ERROR = 0.05;
+
+const bremsstrahlungPerDecay = (isotope: Isotope): number =>
+  emissionsPerDecay(isotope) * spectrumAveragedPhotons(MATERIALS[REFERENCE_MATERIAL_ID], betaSpectraFor(isotope));
+
+// Bremsstrahlung photons a beta source makes in the target per decay, relative to Sr-90/Y-90
+export const relativeBremsstrahlungPerDecay = (isotope: Isotope): number =>
+  bremsstrahlungPerDecay(isotope) / bremsstrahlungPerDecay(ISOTOPES[DEFAULT_ISOTOPE_ID]);
+
+/**
+ * Beta sources: K_CONST scaled by the bremsstrahlung yield of the set-up, the isotope's bremsstrahlung per
+ * decay and the activity. Gamma sources: K = Γ·A, with the air attenuation at the line energy.
+ */
+export const setupModelParams = (setup: SimulationSetup): DoseModelParams => {
+  const isotope = ISOTOPES[setup.isotopeId];
+  if (isGammaSource(isotope)) {
+    return {
+      ...REFERENCE_PARAMS,
+      K: isotope.gammaConstant! * setup.activityMBq,
+      mu: airAttenuationCoefficient(photonEnergyKeV(isotope) / 1000) * 100,
+    };
+  }
+  const params = modelParamsForSetup(setup.geometry, MATERIALS[setup.targetMaterialId]);
+  return { ...params, K: params.K * relativeBremsstrahlungPerDecay(isotope) * activityScale(setup.activityMBq) };
+};
+
+export const setupKError = (setup: SimulationSetup): number =>
+  setupModelParams(setup).K *
+  (isGammaSource(ISOTOPES[setup.isotopeId]) ? GAMMA_CONSTANT_RELATIVE_ERROR : K_ERROR / K_CONST);
+
+export const sourcePhotonEnergyKeV = (setup: SimulationSetup): number => photonEnergyKeV(ISOTOPES[setup.isotopeId]);
+
+/**
+ * How far upstream of the target face the photons reaching the probe start, in cm: bremsstrahlung comes
+ * from the target, gammas from the capsule behind it. The inverse square law counts from there.
+ */
+export const photonOriginCm = (setup: SimulationSetup): number =>
+  isGammaSource(ISOTOPES[setup.isotopeId])
+    ? setup.geometry.sourceToTargetCm + setup.geometry.targetThicknessMm / 10
+    : 0;
+
+// Absorbers on the photons' way: the slabs, and for gamma sources the target itself
+const photonAbsorbers = (setup: SimulationSetup): ShieldSlab[] => {
+  if (!isGammaSource(ISOTOPES[setup.isotopeId])) return setup.slabs;
+  const target: ShieldSlab = {
+    id: -1,
+    materialId: setup.targetMaterialId,
+    thicknessMm: setup.geometry.targetThicknessMm,
+    positionCm: -setup.geometry.targetThicknessMm / 10,
+    heightCm: setup.geometry.targetHeightCm,
+  };
+  return [target, ...setup.slabs];
+};
+
+// Fraction of the source photons reaching (dx, dy), in cm from the centre of the target face
+export const sourceTransmission = (setup: SimulationSetup, dxCm: number, dyCm: number): number =>
+  pathTransmission(photonAbsorbers(setup), dxCm, dyCm, sourcePhotonEnergyKeV(setup), photonOriginCm(setup));
+
+// Relative intensity of the source photons heading for (dx, dy): bremsstrahlung is forward-peaked, gammas isotropic
+export const sourceAngularFactor = (setup: SimulationSetup, dxCm: number, dyCm: number): number =>
+  isGammaSource(ISOTOPES[setup.isotopeId]) ? 1 : bremsstrahlungAngularFactor(Math.atan2(dyCm, dxCm));
+
+/**
+ * Source term at (dx, dy) with the source open: K·e^(-μr)/r² with r from where the photons start, times the
+ * transmission of any absorber on the way and the angular distribution of the emission.
+ */
+export const sourceDoseAt = (setup: SimulationSetup, params: DoseModelParams, dxCm: number, dyCm: number): number => {
+  const runCm = dxCm + photonOriginCm(setup);
+  return sourceDoseRate(Math.hypot(runCm, dyCm) / 100, params) *
+    sourceTransmission(setup, dxCm, dyCm) *
+    sourceAngularFactor(setup, dxCm, dyCm);
+};
+
+export const sourceDoseAtProbe = (setup: SimulationSetup, params: DoseModelParams = setupModelParams(setup)): number =>
+  sourceDoseAt(setup, params, setup.distanceCm, setup.probeOffsetCm);
+
+// Straight-line distance of the probe from the centre of the target face, cm
+export const probeDistanceCm = (probe: ProbeState): number => Math.hypot(probe.distanceCm, probe.probeOffsetCm);
+
+// Where the probe sits seen from the centre of the target face, degrees from the beam axis
+export const probeAngleDeg = (probe: ProbeState): number =>
+  Math.atan2(probe.probeOffsetCm, probe.distanceCm) * 180 / Math.PI;
+
+// Angle between the probe's window normal and the direction the source photons arrive from, 0 … 180°
+export const probeIncidenceDeg = (setup: SimulationSetup): number => {
+  const towardsOrigin = Math.atan2(-setup.probeOffsetCm, -(setup.distanceCm + photonOriginCm(setup)));
+  const windowNormal = Math.PI + setup.probeRotationDeg * Math.PI / 180;
+  const difference = towardsOrigin - windowNormal;
+  return Math.abs(Math.atan2(Math.sin(difference), Math.cos(difference))) * 180 / Math.PI;
+};
+
+// H*(d) the model predicts at the probe for the current source state
+export const expectedDoseRate = (setup: SimulationSetup, params: DoseModelParams = setupModelParams(setup)): number =>
+  params.b + (setup.sourceOpen ? sourceDoseAtProbe(setup, params) : 0);
+
+// Source dose rate as the instrument responds to it, given how the probe is turned towards the source
+export const probeResponseDose = (setup: SimulationSetup, params: DoseModelParams = setupModelParams(setup)): number =>
+  sourceDoseAtProbe(setup, params) * angularResponseAt(DETECTORS[setup.detectorId], probeIncidenceDeg(setup));
+
+// Count rate the instrument registers on average, after dead-time losses
+export const probeCountRate = (setup: SimulationSetup, params: DoseModelParams = setupModelParams(setup)): number =>
+  observedCountRate(
+    DETECTORS[setup.detectorId],
+    setup.sourceOpen ? probeResponseDose(setup, params) : 0,
+    B_CONST,
+    sourcePhotonEnergyKeV(setup)
+  );
+
+export const deadTimeCorrectionFor = (
+  detector: DetectorType,
+  mode: DeadTimeCorrectionMode
+): DeadTimeCorrection | undefined =>
+  mode === 'none' ? undefined : { deadTimeS: detector.deadTimeS, model: mode };
+
+// One rate-meter slice: Poisson counts over SAMPLE_INTERVAL_S at the given mean rate
+export const sampleCountSlice = (meanCps: number, random: RandomSource): CountSample => ({
+  counts: samplePoisson(meanCps * SAMPLE_INTERVAL_S, random),
+  durationS: SAMPLE_INTERVAL_S,
+});
+
+/**
+ * A reading integrated over the counting time, drawn slice by slice exactly as the live rate meter
+ * does, so the same seed reproduces the first full reading shown in the lab.
+ */
+export const simulateReading = (
+  setup: SimulationSetup,
+  countingTimeS: number,
+  correctionMode: DeadTimeCorrectionMode,
+  random: RandomSource
+): DetectorReading => {
+  const detector = DETECTORS[setup.detectorId];
+  const meanCps = probeCountRate(setup);
+  const slices = Math.max(1, Math.round(countingTimeS / SAMPLE_INTERVAL_S));
+  const samples: CountSample[] = [];
+  for (let i = 0; i < slices; i++) samples.push(sampleCountSlice(meanCps, random));
+  return readingFromSamples(samples, detector.calibrationCpsPerUSvH, deadTimeCorrectionFor(detector, correctionMode));
+};
+
+// --- Particle transport ---
+
+// Sr-90 betas per transport step at the reference activity, scaled far down from the real emission
+export const BETAS_PER_STEP = 3;
+export const BACKGROUND_PHOTON_PROBABILITY_PER_STEP = 0.3;
+
+// Simulated time one transport step stands for. The scales above were tuned at one step per 60 Hz
+// frame, so the bench looks the same at 1× speed whatever the display refresh rate.
+export const TRANSPORT_STEP_S = 1 / 60;
+
+// Region the transport runs in and the wall in front of the probe's sensitive volume
+export interface SceneView {
+  bounds: TransportScene['bounds'];
+  detectorWallCm: number;
+}
+
+// A view just large enough for the bench, for runs without a canvas
+export const benchView = (geometry: LabGeometry): SceneView => ({
+  bounds: {
+    xMin: -(geometry.sourceToTargetCm + geometry.targetThicknessMm / 10) - 20,
+    xMax: geometry.maxDistanceCm + 20,
+    yMin: -50,
+    yMax: 50,
+  },
+  detectorWallCm: 1,
+});
+
+/**
+ * Chance of counting a photon that crosses the sensitive volume. The instruments are calibrated at the
+ * bremsstrahlung energy and frontal incidence; other photons are counted as the energy and angular
+ * responses say.
+ */
+export const detectionProbabilityFor = (detector: DetectorType) => {
+  const referenceResponse = energyResponseAt(detector, BREMSSTRAHLUNG_EFFECTIVE_ENERGY_KEV);
+  return (energyKeV: number, incidenceDeg: number): number =>
+    Math.min(
+      1,
+      detector.intrinsicEfficiency * angularResponseAt(detector, incidenceDeg) *
+        energyResponseAt(detector, energyKeV) / referenceResponse
+    );
+};
+
+// Particles the source emits per transport step: none while shielded, otherwise in proportion to the
+// activity and to the betas (or, for gamma sources, gammas) per decay, on the scale set for Sr-90
+export const sourceEmissionsPerStep = (setup: SimulationSetup): number => {
+  if (!setup.sourceOpen) return 0;
+  const perDecay = emissionsPerDecay(ISOTOPES[setup.isotopeId]) / emissionsPerDecay(ISOTOPES[DEFAULT_ISOTOPE_ID]);
+  return BETAS_PER_STEP * activityScale(setup.activityMBq) * perDecay;
+};
+
+const transportDetector = (probe: ProbeState, view: SceneView): TransportDetector => {
+  const detector = DETECTORS[probe.detectorId];
+  const rotationRad = probe.probeRotationDeg * Math.PI / 180;
+  const axisX = Math.cos(rotationRad);
+  const axisY = Math.sin(rotationRad);
+  const centreDepthCm = view.detectorWallCm + detector.sensitiveWidthCm / 2; // Window to the middle of the volume
+  return {
+    centreXCm: probe.distanceCm + axisX * centreDepthCm,
+    centreYCm: probe.probeOffsetCm + axisY * centreDepthCm,
+    axisX,
+    axisY,
+    halfDepthCm: detector.sensitiveWidthCm / 2,
+    halfHeightCm: detector.sensitiveHeightCm / 2,
+    detectionProbability: detectionProbabilityFor(detector),
+  };
+};
+
+// The transport for a set-up; by default only its own probe counts, or pass every probe on the bench
+export const buildTransportScene = (
+  setup: SimulationSetup,
+  view: SceneView = benchView(setup.geometry),
+  probes: ProbeState[] = [setup]
+): TransportScene => {
+  if (probes.length > MAX_DETECTORS) throw new Error(`At most ${MAX_DETECTORS} probes can be simulated`);
+  const isotope = ISOTOPES[setup.isotopeId];
+  return {
+    sourceToTargetCm: setup.geometry.sourceToTargetCm,
+    targetThicknessCm: setup.geometry.targetThicknessMm / 10,
+    targetHeightCm: setup.geometry.targetHeightCm,
+    targetMaterial: MATERIALS[setup.targetMaterialId],
+    slabs: setup.slabs,
+    detectors: probes.map(probe => transportDetector(probe, view)),
+    bounds: view.bounds,
+    photonWeight: REFERENCE_PHOTON_WEIGHT,
+    photonEnergyKeV: photonEnergyKeV(isotope),
+    ...(isGammaSource(isotope) ? { gammaLines: gammaEmissions(isotope) } : { spectra: betaSpectraFor(isotope) }),
+  };
+};
+
+/**
+ * One step of the engine: source and background emission, then transport of every particle.
+ * A fractional `emissionsPerStep` emits the extra particle with that probability, so the mean rate is
+ * exact. Returns the photons each detector in the scene counted.
+ */
+export const advanceTransport = (
+  pool: ParticlePool,
+  scene: TransportScene,
+  emissionsPerStep: number,
+  random: RandomSource
+): number[] => {
+  const whole = Math.floor(emissionsPerStep);
+  const fraction = emissionsPerStep - whole;
+  const emitted = whole + (fraction > 0 && random() < fraction ? 1 : 0);
+  for (let i = 0; i < emitted; i++) addParticle(pool, emitFromSource(scene, random));
+  if (random() < BACKGROUND_PHOTON_PROBABILITY_PER_STEP) addParticle(pool, emitBackgroundPhoton(scene, random));
+  return stepParticles(pool, scene, random);
+};
+
+// Runs the transport for a number of steps and returns how many photons the probe counted
+export const runTransport = (
+  setup: SimulationSetup,
+  steps: number,
+  random: RandomSource,
+  view: SceneView = benchView(setup.geometry)
+): number => {
+  const scene = buildTransportScene(setup, view);
+  const pool = createParticlePool();
+  const emissionsPerStep = sourceEmissionsPerStep(setup);
+  let detected = 0;
+  for (let i = 0; i < steps; i++) {
+    detected += advanceTransport(pool, scene, emissionsPerStep, random)[0];
+  }
+  return detected;
+};
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  FrameTap, SimulationCommand, SimulationConfig, SimulationEvent, SimulationLoop, SimulationStats, TimeControl,
+  createSimulationLoop,
+} from './simulationLoop';
+
+/*
+ * Main-thread side of the simulation. The loop runs in a worker drawing to an OffscreenCanvas when the
+ * browser supports it, and directly on the page canvas otherwise; the UI sees the same handle either way.
+ */
+
+export interface SimulationHandle {
+  configure: (config: SimulationConfig) => void;
+  reset: (seed: number) => void;
+  clearParticles: () => void;
+  setTimeControl: (control: TimeControl) => void;
+  stepOnce: () => void;
+  snapshot: (scale?: number) => Promise<Blob>; // PNG of the bench as last drawn, re-rendered larger when scale > 1
+  setFrameTap: (tap: FrameTap | null) => void; // Receives a copy of every frame drawn while set
+  release: () => void;
+  inWorker: boolean;
+}
+
+interface AttachedSimulation {
+  handle: SimulationHandle;
+  onStats: (stats: SimulationStats) => void;
+  disposeTimer?: ReturnType<typeof setTimeout>;
+}
+
+/*
+ * A canvas can hand its control to an OffscreenCanvas only once, so the simulation stays attached to
+ * its canvas. Releasing waits a tick: a component that unmounts and immediately remounts (as React
+ * StrictMode does in development) gets the running simulation back.
+ */
+const attached = new WeakMap<HTMLCanvasElement, AttachedSimulation>();
+
+const supportsWorkerCanvas = (canvas: HTMLCanvasElement) =>
+  typeof Worker !== 'undefined' && typeof canvas.transferControlToOffscreen === 'function';
+
+const workerLoop = (
+  canvas: HTMLCanvasElement,
+  seed: number,
+  entry: () => AttachedSimulation
+): SimulationLoop => {
+  const worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+  const send = (command: SimulationCommand, transfer: Transferable[] = []) => worker.postMessage(command, transfer);
+
+  const offscreen = canvas.transferControlToOffscreen();
+  send({ type: 'init', canvas: offscreen, seed }, [offscreen]);
+  // Snapshots are answered asynchronously; each request waits for the reply carrying its id
+  const pendingSnapshots = new Map<number, (image: Blob | null) => void>();
+  let nextSnapshotId = 1;
+  let frameTap: FrameTap | null = null;
+  worker.onmessage = (event: MessageEvent<SimulationEvent>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'stats':
+        entry().onStats(message.stats);
+        break;
+      case 'snapshot':
+        pendingSnapshots.get(message.requestId)?.(message.image);
+        pendingSnapshots.delete(message.requestId);
+        break;
+      case 'frame':
+        // Frames still in flight when the tap was removed are dropped
+        if (frameTap) frameTap(message.image);
+        else message.image.close();
+        break;
+    }
+  };
+
+  return {
+    configure: config => send({ type: 'configure', config }),
+    reset: runSeed => send({ type: 'reset', seed: runSeed }),
+    clearParticles: () => send({ type: 'clear' }),
+    setTimeControl: control => send({ type: 'time', control }),
+    stepOnce: () => send({ type: 'step' }),
+    snapshot: (scale = 1) => new Promise((resolve, reject) => {
+      const requestId = nextSnapshotId++;
+      pendingSnapshots.set(requestId, image => (image ? resolve(image) : reject(new Error('Canvas snapshot failed'))));
+      send({ type: 'snapshot', requestId, scale });
+    }),
+    setFrameTap: tap => {
+      frameTap = tap;
+      send({ type: 'frames', enabled: tap !== null });
+    },
+    stop: () => {
+      send({ type: 'stop' });
+      worker.terminate();
+    },
+  };
+};
+
+export const attachSimulation = (
+  canvas: HTMLCanvasElement,
+  seed: number,
+  onStats: (stats: SimulationStats) => void
+): SimulationHandle => {
+  const existing = attached.get(canvas);
+  if (existing) {
+    clearTimeout(existing.disposeTimer);
+    existing.disposeTimer = undefined;
+    existing.onStats = onStats;
+    return existing.handle;
+  }
+
+  const inWorker = supportsWorkerCanvas(canvas);
+  let entry: AttachedSimulation;
+  const loop = inWorker
+    ? workerLoop(canvas, seed, () => entry)
+    : createSimulationLoop(canvas, seed, stats => entry.onStats(stats));
+
+  entry = {
+    onStats,
+    handle: {
+      configure: loop.configure,
+      reset: loop.reset,
+      clearParticles: loop.clearParticles,
+      setTimeControl: loop.setTimeControl,
+      stepOnce: loop.stepOnce,
+      snapshot: loop.snapshot,
+      setFrameTap: loop.setFrameTap,
+      release: () => {
+        clearTimeout(entry.disposeTimer);
+        entry.disposeTimer = setTimeout(() => {
+          loop.stop();
+          attached.delete(canvas);
+        }, 0);
+      },
+      inWorker,
+    },
+  };
+  attached.set(canvas, entry);
+  return entry.handle;
+};
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DETECTORS } from './detectors';
+import { localeText } from './locales';
+import { DEFAULT_PROBE } from './probes';
+import { REFERENCE_SETUP, TRANSPORT_STEP_S } from './simulation';
+import { SimulationConfig, SimulationStats, TimeControl, createSimulationLoop } from './simulationLoop';
+import { DEFAULT_UNITS, displayUnits } from './units';
+
+// A 2D context that takes every drawing call and draws nothing
+const stubCanvas = (): OffscreenCanvas => {
+  const ctx = new Proxy({}, { get: () => () => undefined, set: () => true });
+  return { getContext: () => ctx } as unknown as OffscreenCanvas;
+};
+
+const FRAME_MS = 1000 / 60;
+
+const benchConfig = (setup = REFERENCE_SETUP): SimulationConfig => ({
+  setup,
+  probes: [{
+    ...DEFAULT_PROBE,
+    detectorId: setup.detectorId,
+    distanceCm: setup.distanceCm,
+    probeOffsetCm: setup.probeOffsetCm,
+    probeRotationDeg: setup.probeRotationDeg,
+  }],
+  selectedProbeId: DEFAULT_PROBE.id,
+  showHeatmap: false,
+  isodoseLevels: [],
+  areaThresholds: null,
+  highlightedSlabId: null,
+  experimenter: null,
+  text: localeText('en'),
+  units: displayUnits(DEFAULT_UNITS, DETECTORS[setup.detectorId]),
+});
+
+/**
+ * Runs the loop for `frames` frames. The clock moves on by `workMs` each time it is read, so every
+ * frame takes `workMs` to step and draw and the next one starts `workMs` later.
+ */
+const runFrames = (frames: number, workMs: number, control?: TimeControl) => {
+  let now = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => (now += workMs));
+  const stats: SimulationStats[] = [];
+  const loop = createSimulationLoop(stubCanvas(), 1, s => stats.push(s));
+  loop.configure(benchConfig());
+  if (control) loop.setTimeControl(control);
+  vi.advanceTimersByTime(frames * FRAME_MS);
+  return { loop, stats };
+};
+
+const simulatedTotal = (stats: SimulationStats[]) => stats.reduce((sum, s) => sum + s.simulatedS, 0);
+
+const detectedTotal = (stats: SimulationStats[]) => stats.reduce((sum, s) => sum + (s.detected[DEFAULT_PROBE.id] ?? 0), 0);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createSimulationLoop', () => {
+  it('shrinks the particle budget while frames run over their time, down to a floor', () => {
+    const { loop, stats } = runFrames(300, 20);
+    loop.stop();
+    expect(stats.length).toBeGreaterThan(0);
+    expect(stats[stats.length - 1].budget).toBe(200);
+    expect(stats[stats.length - 1].frameMs).toBeGreaterThan(8);
+  });
+
+  it('keeps the budget while frames are quick', () => {
+    const { loop, stats } = runFrames(300, 1);
+    loop.stop();
+    expect(stats.length).toBeGreaterThan(0);
+    stats.forEach(s => expect(s.budget).toBeGreaterThanOrEqual(4000));
+    expect(stats[stats.length - 1].particles).toBeGreaterThan(0);
+  });
+
+  it('counts the same photons however long frames take to draw', () => {
+    // Paused, so the transport only moves on the explicit steps and both runs see the same steps
+    const countAfterSteps = (workMs: number) => {
+      const { loop, stats } = runFrames(300, workMs, { paused: true, speed: 1 });
+      for (let i = 0; i < 3000; i++) loop.stepOnce();
+      vi.advanceTimersByTime(100 * FRAME_MS);
+      loop.stop();
+      vi.restoreAllMocks();
+      return { detected: detectedTotal(stats), budget: stats[stats.length - 1].budget, particles: stats[stats.length - 1].particles };
+    };
+    const slow = countAfterSteps(20);
+    const quick = countAfterSteps(1);
+    expect(slow.budget).toBeLessThan(quick.budget);
+    expect(slow.particles).toBeGreaterThan(slow.budget);
+    expect(quick.detected).toBeGreaterThan(0);
+    expect(slow.detected).toBe(quick.detected);
+    expect(slow.particles).toBe(quick.particles);
+  });
+
+  it('schedules no more frames once stopped', () => {
+    const { loop, stats } = runFrames(100, 5);
+    loop.stop();
+    const reported = stats.length;
+    vi.advanceTimersByTime(100 * FRAME_MS);
+    expect(stats).toHaveLength(reported);
+  });
+
+  it('empties the bench on reset', () => {
+    const { loop, stats } = runFrames(100, 5);
+    loop.reset(2);
+    loop.configure(benchConfig({ ...REFERENCE_SETUP, sourceOpen: false }));
+    const reported = stats.length;
+    vi.advanceTimersByTime(300 * FRAME_MS);
+    loop.stop();
+    expect(stats.length).toBeGreaterThan(reported);
+    // With the source shut only the odd background photon is in flight
+    expect(stats[stats.length - 1].particles).toBeLessThan(stats[reported - 1].particles);
+  });
+
+  it('advances simulated time in proportion to the speed', () => {
+    const normal = runFrames(200, 5, { paused: false, speed: 1 });
+    normal.loop.stop();
+    vi.restoreAllMocks();
+    const fast = runFrames(200, 5, { paused: false, speed: 4 });
+    fast.loop.stop();
+    expect(simulatedTotal(normal.stats)).toBeGreaterThan(0);
+    expect(simulatedTotal(fast.stats) / simulatedTotal(normal.stats)).toBeCloseTo(4, 1);
+  });
+
+  it('stands still while paused and steps once on request', () => {
+    const { loop, stats } = runFrames(100, 5, { paused: true, speed: 1 });
+    expect(simulatedTotal(stats)).toBe(0);
+    loop.stepOnce();
+    loop.stepOnce();
+    loop.stepOnce();
+    vi.advanceTimersByTime(100 * FRAME_MS);
+    loop.stop();
+    expect(simulatedTotal(stats)).toBeCloseTo(3 * TRANSPORT_STEP_S, 12);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  CANVAS_WIDTH, CANVAS_HEIGHT, BenchContext, BenchFrame, HeatmapImage, canvasSceneView, drawBench, heatmapKey,
+  renderHeatmap, areaOverlayKey, renderAreaOverlay, renderBenchImage,
+} from './benchRenderer';
+import { AreaThresholds } from './areaClassification';
+import { computeLayout } from './geometry';
+import { createParticlePool, clearPool } from './particlePool';
+import { RandomSource, createRandom } from './random';
+import {
+  SimulationSetup, TRANSPORT_STEP_S, advanceTransport, buildTransportScene, setupModelParams, sourceEmissionsPerStep,
+} from './simulation';
+import { TransportScene } from './transport';
+import { Probe } from './probes';
+import { LocaleText, createTranslator } from './i18n';
+import { DisplayUnits } from './units';
+
+/*
+ * The animation loop behind the bench canvas. The transport advances in fixed steps of simulated time,
+ * as many per frame as the elapsed time and speed call for, and each redraw interpolates between the
+ * last two steps. It runs inside the simulation worker, or on the main thread where OffscreenCanvas
+ * is unavailable.
+ */
+
+// Everything the loop needs from the UI; plain data so it can be posted to a worker
+export interface SimulationConfig {
+  setup: SimulationSetup; // As the selected probe sees it
+  probes: Probe[]; // Every probe on the bench, all counting
+  selectedProbeId: number;
+  showHeatmap: boolean;
+  isodoseLevels: number[]; // µSv/h
+  areaThresholds: AreaThresholds | null; // Shows the area classification when set
+  highlightedSlabId: number | null;
+  experimenter: BenchFrame['experimenter'];
+  text: LocaleText; // For the labels drawn on the bench
+  units: DisplayUnits; // Of the selected probe's detector, for the field labels
+}
+
+export interface TimeControl {
+  paused: boolean;
+  speed: number; // Simulated seconds per real second
+}
+
+export const SPEED_OPTIONS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 25, 50, 100];
+export const DEFAULT_TIME_CONTROL: TimeControl = { paused: false, speed: 1 };
+
+export interface SimulationStats {
+  detected: Record<number, number>; // Photons counted since the previous report, by probe id
+  simulatedS: number; // Simulated time advanced since the previous report
+  fps: number;
+  particles: number;
+  budget: number; // Most particles drawn per frame; the transport follows them all
+  frameMs: number; // Smoothed time spent stepping and drawing one frame
+}
+
+// Messages from the main thread to the simulation worker
+export type SimulationCommand =
+  | { type: 'init'; canvas: OffscreenCanvas; seed: number }
+  | { type: 'configure'; config: SimulationConfig }
+  | { type: 'reset'; seed: number }
+  | { type: 'clear' }
+  | { type: 'time'; control: TimeControl }
+  | { type: 'step' }
+  | { type: 'snapshot'; requestId: number; scale: number }
+  | { type: 'frames'; enabled: boolean }
+  | { type: 'stop' };
+
+// Messages from the simulation worker back to the main thread
+export type SimulationEvent =
+  | { type: 'stats'; stats: SimulationStats }
+  | { type: 'snapshot'; requestId: number; image: Blob | null } // null when the canvas could not be encoded
+  | { type: 'frame'; image: ImageBitmap };
+
+export interface SimulationLoop {
+  configure: (config: SimulationConfig) => void;
+  reset: (seed: number) => void;
+  clearParticles: () => void;
+  setTimeControl: (control: TimeControl) => void;
+  stepOnce: () => void; // Advances one transport step, typically while paused
+  snapshot: (scale?: number) => Promise<Blob>; // PNG of the bench as last drawn, re-rendered larger when scale > 1
+  setFrameTap: (tap: FrameTap | null) => void; // Receives a copy of every frame drawn while set
+  stop: () => void;
+}
+
+export type FrameTap = (image: ImageBitmap) => void;
+
+// Adaptive drawing budget: shrink while frames take longer than the target, regrow slowly when well under
+const TARGET_FRAME_MS = 8;
+const MIN_PARTICLE_BUDGET = 200;
+const INITIAL_PARTICLE_BUDGET = 4000;
+const BUDGET_SHRINK = 0.9;
+const BUDGET_GROWTH = 1.05;
+const FRAME_TIME_SMOOTHING = 0.1;
+const STATS_INTERVAL_MS = 250;
+
+// Frames after a stall (hidden tab, debugger) catch up at most this much; fast speeds are capped per frame
+const MAX_FRAME_ELAPSED_S = 0.25;
+const MAX_STEPS_PER_FRAME = 200;
+
+interface CachedLayer {
+  key: string;
+  image: HeatmapImage;
+}
+
+const cachedLayer = (cached: CachedLayer | null, key: string, render: () => HeatmapImage): CachedLayer =>
+  cached?.key === key ? cached : { key, image: render() };
+
+// requestAnimationFrame exists in dedicated workers in current browsers; a timer stands in elsewhere
+const scheduleFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(callback, 1000 / 60);
+  return () => clearTimeout(id);
+};
+
+const canvasToPng = (canvas: HeatmapImage): Promise<Blob> => {
+  if (!('toBlob' in canvas)) return canvas.convertToBlob({ type: 'image/png' });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas snapshot failed'))), 'image/png');
+  });
+};
+
+export const createSimulationLoop = (
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  seed: number,
+  onStats: (stats: SimulationStats) => void
+): SimulationLoop => {
+  const ctx = canvas.getContext('2d') as BenchContext | null;
+  if (!ctx) throw new Error('2D canvas context unavailable');
+
+  const pool = createParticlePool();
+  let random: RandomSource = createRandom(seed, 'particles');
+  let frame: BenchFrame | null = null;
+  let scene: TransportScene | null = null;
+  // Field layers, rendered only when what they show changes
+  let heatmap: CachedLayer | null = null;
+  let areaOverlay: CachedLayer | null = null;
+  let budget = Math.min(INITIAL_PARTICLE_BUDGET, pool.capacity);
+  let frameMs = 0;
+  let timeControl = DEFAULT_TIME_CONTROL;
+  let accumulatorS = 0; // Simulated time owed to the transport, less than one step after each frame
+  let lastFrame = performance.now();
+
+  let detected: Record<number, number> = {};
+  let simulatedS = 0;
+  let frames = 0;
+  let statsStart = lastFrame;
+
+  const adaptBudget = (workMs: number) => {
+    frameMs += (workMs - frameMs) * FRAME_TIME_SMOOTHING;
+    if (frameMs > TARGET_FRAME_MS) {
+      budget = Math.max(MIN_PARTICLE_BUDGET, Math.floor(budget * BUDGET_SHRINK));
+    } else if (frameMs < TARGET_FRAME_MS / 2 && pool.count > budget) {
+      // Grow only while the budget leaves particles undrawn
+      budget = Math.min(pool.capacity, Math.ceil(budget * BUDGET_GROWTH));
+    }
+  };
+
+  const reportStats = (now: number) => {
+    const elapsedMs = now - statsStart;
+    if (elapsedMs < STATS_INTERVAL_MS) return;
+    const stats: SimulationStats = {
+      detected,
+      simulatedS,
+      fps: (frames * 1000) / elapsedMs,
+      particles: pool.count,
+      budget,
+      frameMs,
+    };
+    detected = {};
+    simulatedS = 0;
+    frames = 0;
+    statsStart = now;
+    onStats(stats);
+  };
+
+  const step = () => {
+    if (!frame || !scene) return;
+    const { probes } = frame;
+    const hits = advanceTransport(pool, scene, sourceEmissionsPerStep(frame.setup), random);
+    hits.forEach((count, i) => {
+      if (count > 0) detected[probes[i].id] = (detected[probes[i].id] ?? 0) + count;
+    });
+    simulatedS += TRANSPORT_STEP_S;
+  };
+
+  let stopped = false;
+  let frameTap: FrameTap | null = null;
+  const tick = () => {
+    const start = performance.now();
+    const elapsedS = Math.min((start - lastFrame) / 1000, MAX_FRAME_ELAPSED_S);
+    lastFrame = start;
+
+    if (frame && scene) {
+      if (!timeControl.paused) accumulatorS += elapsedS * timeControl.speed;
+      let steps = Math.floor(accumulatorS / TRANSPORT_STEP_S);
+      if (steps > MAX_STEPS_PER_FRAME) {
+        // Drop what cannot be simulated this frame rather than falling ever further behind
+        steps = MAX_STEPS_PER_FRAME;
+        accumulatorS = steps * TRANSPORT_STEP_S;
+      }
+      for (let i = 0; i < steps; i++) step();
+      accumulatorS -= steps * TRANSPORT_STEP_S;
+
+      frame.alpha = accumulatorS / TRANSPORT_STEP_S;
+      frame.drawLimit = budget;
+      drawBench(ctx, frame);
+      // A capture can fail while the canvas is resized or loses its context; the recording just misses that frame
+      if (frameTap) createImageBitmap(canvas).then(frameTap).catch(() => {});
+      adaptBudget(performance.now() - start);
+    }
+    frames++;
+    reportStats(start);
+    if (!stopped) cancelFrame = scheduleFrame(tick);
+  };
+
+  let cancelFrame = scheduleFrame(tick);
+
+  return {
+    configure: config => {
+      const layout = computeLayout(config.setup.geometry, CANVAS_WIDTH, CANVAS_HEIGHT);
+      const modelParams = setupModelParams(config.setup);
+      const i18n = createTranslator(config.text);
+      scene = buildTransportScene(config.setup, canvasSceneView(layout, config.setup.geometry), config.probes);
+
+      if (config.showHeatmap) {
+        heatmap = cachedLayer(heatmap, heatmapKey(config.setup, config.isodoseLevels, config.text, config.units), () =>
+          renderHeatmap(config.setup, layout, modelParams, config.isodoseLevels, i18n, config.units));
+      }
+      const thresholds = config.areaThresholds;
+      if (thresholds) {
+        areaOverlay = cachedLayer(areaOverlay, areaOverlayKey(config.setup, thresholds, config.text, config.units), () =>
+          renderAreaOverlay(config.setup, layout, modelParams, thresholds, i18n, config.units));
+      }
+
+      frame = {
+        setup: config.setup,
+        layout,
+        modelParams,
+        heatmap: config.showHeatmap && heatmap ? heatmap.image : null,
+        areaOverlay: thresholds && areaOverlay ? areaOverlay.image : null,
+        highlightedSlabId: config.highlightedSlabId,
+        experimenter: config.experimenter,
+        probes: config.probes,
+        selectedProbeId: config.selectedProbeId,
+        pool,
+        drawLimit: budget,
+        alpha: frame?.alpha ?? 0,
+        i18n,
+        units: config.units,
+      };
+    },
+    reset: runSeed => {
+      random = createRandom(runSeed, 'particles');
+      clearPool(pool);
+      accumulatorS = 0;
+      detected = {};
+      simulatedS = 0;
+    },
+    clearParticles: () => clearPool(pool),
+    setTimeControl: control => {
+      timeControl = control;
+    },
+    stepOnce: step,
+    snapshot: (scale = 1) => canvasToPng(scale !== 1 && frame ? renderBenchImage(frame, scale) : canvas),
+    setFrameTap: tap => {
+      frameTap = tap;
+    },
+    stop: () => {
+      stopped = true;
+      cancelFrame();
+    },
+  };
+};
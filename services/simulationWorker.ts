@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SimulationCommand, SimulationEvent, SimulationLoop, SimulationStats, createSimulationLoop } from './simulationLoop';
+
+/*
+ * Worker entry: owns the transferred OffscreenCanvas and runs the simulation loop off the main thread.
+ */
+
+const scope = self as unknown as Worker;
+let loop: SimulationLoop | null = null;
+
+const post = (event: SimulationEvent, transfer: Transferable[] = []) => scope.postMessage(event, transfer);
+
+scope.onmessage = (event: MessageEvent<SimulationCommand>) => {
+  const command = event.data;
+  switch (command.type) {
+    case 'init':
+      loop = createSimulationLoop(command.canvas, command.seed, (stats: SimulationStats) => {
+        post({ type: 'stats', stats });
+      });
+      break;
+    case 'configure':
+      loop?.configure(command.config);
+      break;
+    case 'reset':
+      loop?.reset(command.seed);
+      break;
+    case 'clear':
+      loop?.clearParticles();
+      break;
+    case 'time':
+      loop?.setTimeControl(command.control);
+      break;
+    case 'step':
+      loop?.stepOnce();
+      break;
+    case 'snapshot': {
+      // Every request gets a reply, so the main thread never waits forever
+      const reply = (image: Blob | null) => post({ type: 'snapshot', requestId: command.requestId, image });
+      if (loop) loop.snapshot(command.scale).then(reply, () => reply(null));
+      else reply(null);
+      break;
+    }
+    case 'frames':
+      loop?.setFrameTap(command.enabled ? image => post({ type: 'frame', image }, [image]) : null);
+      break;
+    case 'stop':
+      loop?.stop();
+      loop = null;
+      break;
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ISOTOPES } from './isotopes';
+import {
+  REFERENCE_ACTIVITY_MBQ, activityScale, decayedActivityMBq, formatActivity, isoDate, yearsSince,
+} from './sourceActivity';
+
+const SR90_HALF_LIFE_Y = ISOTOPES.sr90.halfLifeY;
+
+describe('yearsSince', () => {
+  it('counts Julian years between calendar dates', () => {
+    expect(yearsSince('2000-01-01', '2001-01-01')).toBeCloseTo(366 / 365.25, 12);
+    expect(yearsSince('2024-06-01', '2024-06-01')).toBe(0);
+  });
+
+  it('is negative before the reference date', () => {
+    expect(yearsSince('2024-01-01', '2023-01-01')).toBeCloseTo(-365 / 365.25, 12);
+  });
+
+  it('rejects malformed dates', () => {
+    expect(() => yearsSince('01/02/2024', '2024-01-01')).toThrow(/Invalid date/);
+  });
+});
+
+describe('decayedActivityMBq', () => {
+  const certificate = { activityMBq: 37, referenceDate: '2000-01-01' };
+
+  it('halves over one half-life', () => {
+    // Pick the date one half-life on, to the nearest day
+    const days = Math.round(SR90_HALF_LIFE_Y * 365.25);
+    const onDate = isoDate(new Date(2000, 0, 1 + days));
+    expect(decayedActivityMBq(certificate, onDate, SR90_HALF_LIFE_Y)).toBeCloseTo(18.5, 2);
+  });
+
+  it('grows when projected back before the reference date', () => {
+    expect(decayedActivityMBq(certificate, '1990-01-01', SR90_HALF_LIFE_Y)).toBeGreaterThan(37);
+  });
+
+  it('keeps the certified activity on the reference date', () => {
+    expect(decayedActivityMBq(certificate, '2000-01-01', SR90_HALF_LIFE_Y)).toBe(37);
+  });
+});
+
+describe('activityScale', () => {
+  it('is 1 at the activity K was measured with', () => {
+    expect(activityScale(REFERENCE_ACTIVITY_MBQ)).toBe(1);
+    expect(activityScale(5)).toBe(0.25);
+  });
+});
+
+describe('formatActivity', () => {
+  it('keeps two decimals below 10 MBq and one above', () => {
+    expect(formatActivity(0.037)).toBe('0.04 MBq');
+    expect(formatActivity(37)).toBe('37.0 MBq');
+  });
+});
+
+describe('isoDate', () => {
+  it('pads the local calendar date', () => {
+    expect(isoDate(new Date(2024, 2, 5))).toBe('2024-03-05');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { NumberFormat, PLAIN_NUMBERS } from './i18n';
+
+/*
+ * Activity of the check source from its certificate. Short-lived daughters (Y-90, Ba-137m) stay in
+ * secular equilibrium, so the source decays with the parent's half-life.
+ */
+
+const DAYS_PER_YEAR = 365.25;
+const MS_PER_DAY = 86400000;
+
+// K_CONST was measured with the Sr-90 source at this activity
+export const REFERENCE_ACTIVITY_MBQ = 20;
+
+export interface SourceCertificate {
+  activityMBq: number; // Certified activity on the reference date
+  referenceDate: string; // YYYY-MM-DD
+}
+
+// Local calendar date as YYYY-MM-DD
+export const isoDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const todayIso = (): string => isoDate(new Date());
+
+export const DEFAULT_SOURCE_CERTIFICATE: SourceCertificate = {
+  activityMBq: REFERENCE_ACTIVITY_MBQ,
+  referenceDate: todayIso(),
+};
+
+const parseIsoDate = (text: string): number => {
+  const time = Date.parse(`${text}T00:00:00Z`);
+  if (isNaN(time)) throw new Error(`Invalid date: "${text}"`);
+  return time;
+};
+
+// Years from the reference date to `onDate`, negative before it
+export const yearsSince = (referenceDate: string, onDate: string): number =>
+  (parseIsoDate(onDate) - parseIsoDate(referenceDate)) / MS_PER_DAY / DAYS_PER_YEAR;
+
+// A(t) = A₀ · 2^(−t / T½)
+export const decayedActivityMBq = (certificate: SourceCertificate, onDate: string, halfLifeY: number): number =>
+  certificate.activityMBq * Math.pow(2, -yearsSince(certificate.referenceDate, onDate) / halfLifeY);
+
+// Everything the source emits scales with this: K in the dose formula and the simulated emission rate
+export const activityScale = (activityMBq: number): number => activityMBq / REFERENCE_ACTIVITY_MBQ;
+
+export const formatActivity = (activityMBq: number, numbers: NumberFormat = PLAIN_NUMBERS): string =>
+  `${numbers.fixed(activityMBq, activityMBq < 10 ? 2 : 1)} MBq`;
@@ -0,0 +1,476 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { samplePoisson } from './countingStatistics';
+import { BetaSpectrum, SR90_CHAIN_SPECTRA, csdaRange, energyForRange, electronBeta, sampleChainBetaEnergy } from './betaSpectrum';
+import { BETA_BEAM_HALF_ANGLE_RAD } from './geometry';
+import { GammaEmission } from './isotopes';
+import { Material, MATERIALS, REFERENCE_MATERIAL_ID, bremsstrahlungYield, photonAttenuationCoefficient } from './materials';
+import { ShieldSlab, slabEndCm } from './shielding';
+import { ParticlePool, addParticle, loadParticle, storeParticle, removeParticle, recordHistory } from './particlePool';
+
+/*
+ * Monte Carlo transport on the bench plane. Coordinates are in cm with x along the beam axis,
+ * x = 0 at the downstream face of the target (where the probe distance d is measured from), and
+ * y = 0 on the axis. Time advances in steps during which light travels LIGHT_SPEED_CM_PER_STEP.
+ */
+
+export const LIGHT_SPEED_CM_PER_STEP = 1.5;
+export const AIR_DENSITY_G_CM3 = 1.205e-3;
+export const BREMSSTRAHLUNG_CUTOFF_MEV = 0.01; // Softer photons are absorbed before they leave the target
+
+const BETA_LIFE_STEPS = 200;
+const BACKGROUND_LIFE_STEPS = 400;
+const GAMMA_LIFE_STEPS = 400;
+const PHOTON_EMISSION_HALF_ANGLE_RAD = Math.PI / 3; // Forward-peaked bremsstrahlung
+
+export type TransportParticleKind = 'beta' | 'transmitted_beta' | 'photon' | 'background_photon' | 'gamma';
+
+export interface TransportParticle {
+  kind: TransportParticleKind;
+  x: number; // cm
+  y: number; // cm
+  ux: number; // Unit direction
+  uy: number;
+  energyMeV: number; // Kinetic energy for betas, photon energy for photons
+  life: number; // Remaining steps
+  inDetectors: number; // Bit i set while inside detector i, so detection is only rolled once per crossing
+}
+
+// Sensitive volume of one probe: a rectangle around its centre, `axis` pointing from the window into the probe
+export interface TransportDetector {
+  centreXCm: number;
+  centreYCm: number;
+  axisX: number;
+  axisY: number;
+  halfDepthCm: number; // Along the axis
+  halfHeightCm: number; // Across it
+  // Per crossing of the sensitive volume; incidence is 0 for a photon arriving straight onto the window
+  detectionProbability: (energyKeV: number, incidenceDeg: number) => number;
+}
+
+// Crossings are tracked in one byte per particle
+export const MAX_DETECTORS = 8;
+
+export interface TransportScene {
+  sourceToTargetCm: number; // Emitter to the upstream face of the target
+  targetThicknessCm: number;
+  targetHeightCm: number;
+  targetMaterial: Material;
+  slabs: ShieldSlab[];
+  detectors: TransportDetector[]; // At most MAX_DETECTORS
+  bounds: { xMin: number; xMax: number; yMin: number; yMax: number }; // Particles leaving are dropped
+  photonWeight: number; // Simulated photons per real bremsstrahlung photon
+  photonEnergyKeV: number; // Of the source photons, for their attenuation in absorbers
+  spectra?: BetaSpectrum[];
+  gammaLines?: GammaEmission[]; // Set for gamma sources, which emit these instead of betas
+}
+
+/**
+ * Relative bremsstrahlung intensity leaving the target at `angleRad` to the beam axis, as emitted here:
+ * a uniform fan of ±PHOTON_EMISSION_HALF_ANGLE_RAD around each beta, whose own directions spread over
+ * ±BETA_BEAM_HALF_ANGLE_RAD. The convolution of the two is flat in the middle with linear shoulders.
+ */
+export const bremsstrahlungAngularFactor = (angleRad: number): number => {
+  const angle = Math.abs(angleRad);
+  const shoulderStart = PHOTON_EMISSION_HALF_ANGLE_RAD - BETA_BEAM_HALF_ANGLE_RAD;
+  const shoulderEnd = PHOTON_EMISSION_HALF_ANGLE_RAD + BETA_BEAM_HALF_ANGLE_RAD;
+  if (angle <= shoulderStart) return 1;
+  if (angle >= shoulderEnd) return 0;
+  return (shoulderEnd - angle) / (shoulderEnd - shoulderStart);
+};
+
+// --- Photon attenuation in air ---
+
+// NIST XCOM μ/ρ for dry air, cm²/g
+const AIR_MASS_ATTENUATION: { energyKeV: number; value: number }[] = [
+  { energyKeV: 10, value: 5.120 },
+  { energyKeV: 15, value: 1.614 },
+  { energyKeV: 20, value: 0.7779 },
+  { energyKeV: 30, value: 0.3538 },
+  { energyKeV: 40, value: 0.2485 },
+  { energyKeV: 50, value: 0.2080 },
+  { energyKeV: 60, value: 0.1875 },
+  { energyKeV: 80, value: 0.1662 },
+  { energyKeV: 100, value: 0.1541 },
+  { energyKeV: 150, value: 0.1356 },
+  { energyKeV: 200, value: 0.1233 },
+  { energyKeV: 300, value: 0.1067 },
+  { energyKeV: 500, value: 0.08712 },
+  { energyKeV: 800, value: 0.07074 },
+  { energyKeV: 1000, value: 0.06358 },
+  { energyKeV: 1500, value: 0.05175 },
+  { energyKeV: 2000, value: 0.04447 },
+  { energyKeV: 3000, value: 0.03581 },
+];
+
+// Linear attenuation coefficient of air in cm⁻¹, log-log interpolated and clamped at the table ends
+export const airAttenuationCoefficient = (energyMeV: number): number => {
+  const table = AIR_MASS_ATTENUATION;
+  const energyKeV = energyMeV * 1000;
+  let massAttenuation: number;
+  if (energyKeV <= table[0].energyKeV) {
+    massAttenuation = table[0].value;
+  } else if (energyKeV >= table[table.length - 1].energyKeV) {
+    massAttenuation = table[table.length - 1].value;
+  } else {
+    const upper = table.findIndex(p => p.energyKeV >= energyKeV);
+    const lo = table[upper - 1];
+    const hi = table[upper];
+    const f = Math.log(energyKeV / lo.energyKeV) / Math.log(hi.energyKeV / lo.energyKeV);
+    massAttenuation = Math.exp(Math.log(lo.value) + f * Math.log(hi.value / lo.value));
+  }
+  return massAttenuation * AIR_DENSITY_G_CM3;
+};
+
+// --- Bremsstrahlung ---
+
+/**
+ * Thick-target (Kramers) bremsstrahlung of an electron stopping with energy T: dN/dk ∝ (T − k)/k,
+ * normalised so the radiated energy is the yield Y(Z, T)·T. Counts photons above the cutoff.
+ */
+export const meanBremsstrahlungPhotons = (kineticMeV: number, effectiveZ: number): number => {
+  const kMin = BREMSSTRAHLUNG_CUTOFF_MEV;
+  if (kineticMeV <= kMin) return 0;
+  const yieldFraction = bremsstrahlungYield(effectiveZ, kineticMeV);
+  return (2 * yieldFraction / kineticMeV) *
+    (kineticMeV * Math.log(kineticMeV / kMin) - (kineticMeV - kMin));
+};
+
+// Photon energy from the Kramers spectrum: log-uniform proposal, accepted with probability (T − k)/T
+export const sampleBremsstrahlungEnergy = (kineticMeV: number, random: () => number = Math.random): number => {
+  const kMin = BREMSSTRAHLUNG_CUTOFF_MEV;
+  while (true) {
+    const k = kMin * Math.pow(kineticMeV / kMin, random());
+    if (random() < (kineticMeV - k) / kineticMeV) return k;
+  }
+};
+
+// Real photons per stopped beta, averaged over the Sr-90/Y-90 spectra
+export const spectrumAveragedPhotons = (material: Material, spectra: BetaSpectrum[] = SR90_CHAIN_SPECTRA): number => {
+  let sum = 0;
+  spectra.forEach(spectrum => {
+    for (let i = 1; i < spectrum.energiesMeV.length; i++) {
+      const mid = (spectrum.energiesMeV[i - 1] + spectrum.energiesMeV[i]) / 2;
+      sum += (spectrum.cdf[i] - spectrum.cdf[i - 1]) * meanBremsstrahlungPhotons(mid, material.effectiveZ);
+    }
+  });
+  return sum / spectra.length;
+};
+
+// Weight that makes the reference PMMA target emit one simulated photon per stopped beta on average
+export const REFERENCE_PHOTON_WEIGHT = 1 / spectrumAveragedPhotons(MATERIALS[REFERENCE_MATERIAL_ID]);
+
+// --- Emission ---
+
+const stepLength = (p: TransportParticle): number =>
+  p.kind === 'photon' || p.kind === 'background_photon' || p.kind === 'gamma'
+    ? LIGHT_SPEED_CM_PER_STEP
+    : electronBeta(p.energyMeV) * LIGHT_SPEED_CM_PER_STEP;
+
+// A beta from the source, emitted into the collimated cone towards the target
+export const emitBeta = (scene: TransportScene, random: () => number = Math.random): TransportParticle => {
+  const angle = (random() - 0.5) * 2 * BETA_BEAM_HALF_ANGLE_RAD;
+  return {
+    kind: 'beta',
+    x: -(scene.sourceToTargetCm + scene.targetThicknessCm),
+    y: 0,
+    ux: Math.cos(angle),
+    uy: Math.sin(angle),
+    energyMeV: sampleChainBetaEnergy(scene.spectra, random),
+    life: BETA_LIFE_STEPS,
+    inDetectors: 0,
+  };
+};
+
+const sampleGammaLine = (lines: GammaEmission[], random: () => number): number => {
+  let u = random() * lines.reduce((sum, line) => sum + line.yield, 0);
+  for (const line of lines) {
+    if (u < line.yield) return line.energyKeV / 1000;
+    u -= line.yield;
+  }
+  return lines[lines.length - 1].energyKeV / 1000;
+};
+
+// A gamma from the capsule; the housing does not collimate it, so it leaves in any direction
+export const emitGamma = (
+  scene: TransportScene,
+  lines: GammaEmission[],
+  random: () => number = Math.random
+): TransportParticle => {
+  const angle = random() * 2 * Math.PI;
+  return {
+    kind: 'gamma',
+    x: -(scene.sourceToTargetCm + scene.targetThicknessCm),
+    y: 0,
+    ux: Math.cos(angle),
+    uy: Math.sin(angle),
+    energyMeV: sampleGammaLine(lines, random),
+    life: GAMMA_LIFE_STEPS,
+    inDetectors: 0,
+  };
+};
+
+// Whatever the source on the bench emits: gammas for gamma sources, betas otherwise
+export const emitFromSource = (scene: TransportScene, random: () => number = Math.random): TransportParticle =>
+  scene.gammaLines ? emitGamma(scene, scene.gammaLines, random) : emitBeta(scene, random);
+
+// Terrestrial and cosmic background lines, with a scattered low-energy continuum
+const BACKGROUND_LINES_MEV: { energyMeV: number; weight: number }[] = [
+  { energyMeV: 0.609, weight: 0.25 }, // Bi-214
+  { energyMeV: 1.461, weight: 0.2 }, // K-40
+  { energyMeV: 2.614, weight: 0.1 }, // Tl-208
+];
+
+const sampleBackgroundEnergy = (random: () => number): number => {
+  let u = random();
+  for (const line of BACKGROUND_LINES_MEV) {
+    if (u < line.weight) return line.energyMeV;
+    u -= line.weight;
+  }
+  return 0.05 + random() * 0.45; // Compton-scattered continuum
+};
+
+// An ambient photon entering through a random edge of the scene
+export const emitBackgroundPhoton = (scene: TransportScene, random: () => number = Math.random): TransportParticle => {
+  const { xMin, xMax, yMin, yMax } = scene.bounds;
+  const edge = Math.floor(random() * 4);
+  // Heading inwards, spread over the half-plane
+  const angle = (random() - 0.5) * Math.PI + [Math.PI / 2, Math.PI, -Math.PI / 2, 0][edge];
+  const along = random();
+
+  let x: number, y: number;
+  switch (edge) {
+    case 0: x = xMin + along * (xMax - xMin); y = yMin; break; // Top
+    case 1: x = xMax; y = yMin + along * (yMax - yMin); break; // Right
+    case 2: x = xMin + along * (xMax - xMin); y = yMax; break; // Bottom
+    default: x = xMin; y = yMin + along * (yMax - yMin); break; // Left
+  }
+
+  return {
+    kind: 'background_photon',
+    x,
+    y,
+    ux: Math.cos(angle),
+    uy: Math.sin(angle),
+    energyMeV: sampleBackgroundEnergy(random),
+    life: BACKGROUND_LIFE_STEPS,
+    inDetectors: 0,
+  };
+};
+
+// --- Transport ---
+
+// Working copy of the particle being stepped
+const SCRATCH: TransportParticle = { kind: 'beta', x: 0, y: 0, ux: 1, uy: 0, energyMeV: 0, life: 0, inDetectors: 0 };
+
+interface Absorber {
+  xMin: number;
+  xMax: number;
+  halfHeight: number;
+  material: Material;
+  mu: number; // Photon linear attenuation, cm⁻¹
+  isTarget: boolean;
+}
+
+const sceneAbsorbers = (scene: TransportScene): Absorber[] => [
+  {
+    xMin: -scene.targetThicknessCm,
+    xMax: 0,
+    halfHeight: scene.targetHeightCm / 2,
+    material: scene.targetMaterial,
+    mu: photonAttenuationCoefficient(scene.targetMaterial, scene.photonEnergyKeV),
+    isTarget: true,
+  },
+  ...scene.slabs.map(slab => {
+    const material = MATERIALS[slab.materialId];
+    return {
+      xMin: slab.positionCm,
+      xMax: slabEndCm(slab),
+      halfHeight: slab.heightCm / 2,
+      material,
+      mu: photonAttenuationCoefficient(material, scene.photonEnergyKeV),
+      isTarget: false,
+    };
+  }),
+];
+
+// Bremsstrahlung from an electron coming to rest at (x, y) in the given material
+const radiate = (
+  beta: TransportParticle,
+  x: number,
+  y: number,
+  material: Material,
+  scene: TransportScene,
+  random: () => number,
+  created: TransportParticle[]
+) => {
+  const count = samplePoisson(meanBremsstrahlungPhotons(beta.energyMeV, material.effectiveZ) * scene.photonWeight, random);
+  for (let i = 0; i < count; i++) {
+    const angle = Math.atan2(beta.uy, beta.ux) + (random() - 0.5) * 2 * PHOTON_EMISSION_HALF_ANGLE_RAD;
+    created.push({
+      kind: 'photon',
+      x,
+      y,
+      ux: Math.cos(angle),
+      uy: Math.sin(angle),
+      energyMeV: sampleBremsstrahlungEnergy(beta.energyMeV, random),
+      life: beta.life,
+      inDetectors: 0,
+    });
+  }
+};
+
+/**
+ * Moves a beta one step. Energy is lost continuously in air (CSDA); an absorber face crossed during
+ * the step is traversed at once, the beta either stopping inside it (and radiating) or leaving the
+ * far face with the energy corresponding to its residual range.
+ */
+const stepBeta = (
+  p: TransportParticle,
+  absorbers: Absorber[],
+  scene: TransportScene,
+  random: () => number,
+  created: TransportParticle[]
+) => {
+  let remaining = stepLength(p);
+
+  while (remaining > 0 && p.life > 0) {
+    // Nearest absorber whose upstream face lies ahead within this step
+    let hit: Absorber | null = null;
+    let hitDistance = remaining;
+    if (p.ux > 0) {
+      for (const a of absorbers) {
+        const t = (a.xMin - p.x) / p.ux;
+        if (t < 0 || t > hitDistance || Math.abs(p.y + p.uy * t) > a.halfHeight) continue;
+        hit = a;
+        hitDistance = t;
+      }
+    }
+
+    // Air between here and the face (or the end of the step)
+    const airRange = csdaRange(p.energyMeV) - AIR_DENSITY_G_CM3 * hitDistance;
+    if (airRange <= 0) {
+      p.life = 0; // Stopped in air; the bremsstrahlung of such soft electrons is negligible
+      break;
+    }
+    p.energyMeV = energyForRange(airRange);
+    p.x += p.ux * hitDistance;
+    p.y += p.uy * hitDistance;
+    remaining -= hitDistance;
+    if (!hit) break;
+
+    const absorber = hit;
+    const pathCm = (absorber.xMax - absorber.xMin) / p.ux;
+    const residualRange = csdaRange(p.energyMeV) - absorber.material.density * pathCm;
+    if (residualRange <= 0) {
+      const depthCm = csdaRange(p.energyMeV) / absorber.material.density;
+      radiate(p, p.x + p.ux * depthCm, p.y + p.uy * depthCm, absorber.material, scene, random, created);
+      p.life = 0;
+      break;
+    }
+
+    p.energyMeV = energyForRange(residualRange);
+    p.x = absorber.xMax;
+    p.y += p.uy * pathCm;
+    if (absorber.isTarget) p.kind = 'transmitted_beta';
+    remaining = Math.max(remaining - 1e-6, 0); // Guarantee progress past the exit face
+  }
+};
+
+/**
+ * Moves a photon one step, with survival e^(−μ·l) for the path l in air and in any slab.
+ * Photons born in the target are not re-attenuated by it, while gammas from the source cross it;
+ * background photons are ambient and isotropic, so a slab shadows only a negligible part of them.
+ */
+const stepPhoton = (p: TransportParticle, absorbers: Absorber[], random: () => number): void => {
+  const length = stepLength(p);
+  const x0 = p.x;
+  p.x += p.ux * length;
+  p.y += p.uy * length;
+
+  let exponent = airAttenuationCoefficient(p.energyMeV) * length;
+  if (p.kind === 'photon' || p.kind === 'gamma') {
+    const stepXMin = Math.min(x0, p.x);
+    const stepXMax = Math.max(x0, p.x);
+    absorbers.forEach(a => {
+      if ((a.isTarget && p.kind === 'photon') || Math.abs(p.y) > a.halfHeight) return;
+      const overlap = Math.min(stepXMax, a.xMax) - Math.max(stepXMin, a.xMin);
+      if (overlap <= 0) return;
+      const path = Math.abs(p.ux) > 1e-6 ? overlap / Math.abs(p.ux) : length;
+      exponent += a.mu * path;
+    });
+  }
+
+  if (random() > Math.exp(-exponent)) {
+    p.life = 0; // Absorbed or scattered out of view
+  }
+};
+
+/**
+ * Advances every particle in the pool one step, in place, and returns how many photons each detector
+ * counted, in scene order. A photon counted by one probe is absorbed in it, so a probe in front shadows
+ * the ones behind. New bremsstrahlung photons join the pool after the step (and are dropped if it is full).
+ */
+export const stepParticles = (
+  pool: ParticlePool,
+  scene: TransportScene,
+  random: () => number = Math.random
+): number[] => {
+  const absorbers = sceneAbsorbers(scene);
+  const { detectors, bounds } = scene;
+  const created: TransportParticle[] = [];
+  const p = SCRATCH;
+  const detected = detectors.map(() => 0);
+
+  let i = 0;
+  while (i < pool.count) {
+    loadParticle(pool, i, p);
+
+    if (p.kind === 'beta' || p.kind === 'transmitted_beta') {
+      stepBeta(p, absorbers, scene, random, created);
+    } else {
+      stepPhoton(p, absorbers, random);
+
+      let inside = 0;
+      for (let d = 0; d < detectors.length && p.life > 0; d++) {
+        // Position in the probe's own frame: depth along its axis, height across it
+        const detector = detectors[d];
+        const relX = p.x - detector.centreXCm;
+        const relY = p.y - detector.centreYCm;
+        if (
+          Math.abs(relX * detector.axisX + relY * detector.axisY) > detector.halfDepthCm ||
+          Math.abs(relY * detector.axisX - relX * detector.axisY) > detector.halfHeightCm
+        ) continue;
+
+        inside |= 1 << d;
+        if (p.inDetectors & (1 << d)) continue;
+        const cosIncidence = Math.max(-1, Math.min(1, p.ux * detector.axisX + p.uy * detector.axisY));
+        const incidenceDeg = Math.acos(cosIncidence) * 180 / Math.PI;
+        if (random() < detector.detectionProbability(p.energyMeV * 1000, incidenceDeg)) {
+          detected[d]++;
+          p.life = 0;
+        }
+      }
+      p.inDetectors = inside;
+    }
+
+    p.life -= 1;
+    if (p.x < bounds.xMin || p.x > bounds.xMax || p.y < bounds.yMin || p.y > bounds.yMax) {
+      p.life = 0;
+    }
+
+    if (p.life > 0) {
+      storeParticle(pool, i, p);
+      recordHistory(pool, i);
+      i++;
+    } else {
+      removeParticle(pool, i); // The last particle moves into slot i and is stepped next
+    }
+  }
+
+  created.forEach(photon => addParticle(pool, photon));
+  return detected;
+};
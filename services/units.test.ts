@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { REFERENCE_PARAMS, doseRateAt } from './doseModel';
+import { DETECTORS } from './detectors';
+import {
+  DEFAULT_UNITS, DisplayUnits, H10_PER_AIR_KERMA, displayUnits, distanceScale, doseRateScale, doseUnits,
+  modelUnitSymbols, scaleModelParams,
+} from './units';
+
+const gm = DETECTORS.gm;
+
+describe('doseRateScale', () => {
+  it('converts µSv/h into each unit', () => {
+    expect(doseRateScale('uSv/h', gm).perUSvH).toBe(1);
+    expect(doseRateScale('mSv/h', gm).perUSvH).toBe(1e-3);
+    expect(doseRateScale('mrem/h', gm).perUSvH).toBe(0.1);
+    expect(doseRateScale('uGy/h', gm)).toMatchObject({ quantity: 'kerma', perUSvH: 1 / H10_PER_AIR_KERMA });
+  });
+
+  it('goes back to counts through the detector calibration', () => {
+    const scale = doseRateScale('cps', gm);
+    expect(scale.quantity).toBe('counts');
+    expect(scale.perUSvH).toBe(gm.calibrationCpsPerUSvH);
+  });
+});
+
+describe('doseUnits', () => {
+  it('follows the dose-rate unit', () => {
+    expect(doseUnits('mrem/h')).toMatchObject({ doseRate: { symbol: 'mrem/h' }, dose: { symbol: 'mrem', annualPerMSv: 100 } });
+  });
+
+  it('stays in µSv for counts per second', () => {
+    expect(doseUnits('cps')).toEqual(doseUnits('uSv/h'));
+  });
+});
+
+describe('distanceScale', () => {
+  it('converts centimetres into each unit', () => {
+    expect(distanceScale('cm').perCm).toBe(1);
+    expect(distanceScale('m').perCm).toBe(0.01);
+    expect(100 * distanceScale('in').perCm).toBeCloseTo(39.37, 2);
+  });
+});
+
+describe('scaleModelParams', () => {
+  // The converted model must give the converted dose rate at the converted distance
+  it.each([
+    ['uSv/h', 'cm'],
+    ['mrem/h', 'in'],
+    ['uGy/h', 'm'],
+  ] as const)('keeps the model consistent in %s and %s', (doseRate, distance) => {
+    const units: DisplayUnits = displayUnits({ doseRate, distance }, gm);
+    const scaled = scaleModelParams(REFERENCE_PARAMS, units);
+    const distanceM = 0.25;
+    const modelDistance = distanceM * units.distance.modelPerM;
+    const expected = doseRateAt(distanceM, true, REFERENCE_PARAMS) * units.doseRate.perUSvH;
+    const shape = Math.exp(-scaled.mu * modelDistance) / (modelDistance * modelDistance);
+    expect(scaled.K * shape + scaled.b).toBeCloseTo(expected, 12);
+  });
+
+  it('labels the constants in the same units', () => {
+    expect(modelUnitSymbols(displayUnits({ doseRate: 'mrem/h', distance: 'in' }, gm)))
+      .toEqual({ K: 'ft²·mrem/h', mu: 'ft⁻¹', b: 'mrem/h' });
+    expect(modelUnitSymbols(displayUnits(DEFAULT_UNITS, gm))).toEqual({ K: 'm²·µSv/h', mu: 'm⁻¹', b: 'µSv/h' });
+  });
+});
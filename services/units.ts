@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DetectorType } from './detectors';
+import { DoseModelParams } from './doseModel';
+
+/*
+ * Display units. Everything is computed in µSv/h of H*(10) and in centimetres; these scales only
+ * turn the results into what the user picked, on screen, on the bench and in the exported files.
+ */
+
+export type DoseRateUnitId = 'uSv/h' | 'mSv/h' | 'mrem/h' | 'uGy/h' | 'cps';
+export type DistanceUnitId = 'cm' | 'm' | 'in';
+
+export interface UnitSettings {
+  doseRate: DoseRateUnitId;
+  distance: DistanceUnitId;
+}
+
+export const DEFAULT_UNITS: UnitSettings = { doseRate: 'uSv/h', distance: 'cm' };
+
+// h*(10)/Kₐ at 662 keV, where the instruments are calibrated (ICRU 57), Sv/Gy
+export const H10_PER_AIR_KERMA = 1.2;
+
+// What a dose-rate unit measures, which decides how the readout is titled
+export type DoseRateQuantity = 'dose' | 'kerma' | 'counts';
+
+export interface DoseRateScale {
+  unit: DoseRateUnitId;
+  quantity: DoseRateQuantity;
+  symbol: string;
+  fileKey: string; // Column suffix in exported files, e.g. dose_rate_mrem_h
+  perUSvH: number; // Value of 1 µSv/h of H*(10) in this unit
+  digits: number; // Decimals of a readout
+}
+
+export interface DistanceScale {
+  unit: DistanceUnitId;
+  symbol: string;
+  perCm: number;
+  digits: number; // Decimals of a position
+  // The model constants use a larger length so K and μ stay readable: m for metric, ft for inches
+  modelSymbol: string;
+  modelPerM: number;
+}
+
+// Both scales together, as the bench labels need them
+export interface DisplayUnits {
+  doseRate: DoseRateScale;
+  distance: DistanceScale;
+}
+
+const DOSE_RATE_UNITS: Record<Exclude<DoseRateUnitId, 'cps'>, Omit<DoseRateScale, 'unit'>> = {
+  'uSv/h': { quantity: 'dose', symbol: 'µSv/h', fileKey: 'uSv_h', perUSvH: 1, digits: 3 },
+  'mSv/h': { quantity: 'dose', symbol: 'mSv/h', fileKey: 'mSv_h', perUSvH: 1e-3, digits: 6 },
+  'mrem/h': { quantity: 'dose', symbol: 'mrem/h', fileKey: 'mrem_h', perUSvH: 0.1, digits: 4 },
+  'uGy/h': { quantity: 'kerma', symbol: 'µGy/h', fileKey: 'uGy_h', perUSvH: 1 / H10_PER_AIR_KERMA, digits: 3 },
+};
+
+const DISTANCE_UNITS: Record<DistanceUnitId, Omit<DistanceScale, 'unit'>> = {
+  cm: { symbol: 'cm', perCm: 1, digits: 1, modelSymbol: 'm', modelPerM: 1 },
+  m: { symbol: 'm', perCm: 0.01, digits: 3, modelSymbol: 'm', modelPerM: 1 },
+  in: { symbol: 'in', perCm: 1 / 2.54, digits: 1, modelSymbol: 'ft', modelPerM: 1 / 0.3048 },
+};
+
+// Integrated dose in the unit family of a dose rate, with the larger unit annual limits are set in
+export interface DoseScale {
+  symbol: string;
+  perUSv: number;
+  digits: number; // Decimals of an accumulated dose
+  annualSymbol: string;
+  annualPerMSv: number;
+}
+
+const DOSE_UNITS: Record<Exclude<DoseRateUnitId, 'cps'>, DoseScale> = {
+  'uSv/h': { symbol: 'µSv', perUSv: 1, digits: 3, annualSymbol: 'mSv/y', annualPerMSv: 1 },
+  'mSv/h': { symbol: 'mSv', perUSv: 1e-3, digits: 6, annualSymbol: 'mSv/y', annualPerMSv: 1 },
+  'mrem/h': { symbol: 'mrem', perUSv: 0.1, digits: 4, annualSymbol: 'mrem/y', annualPerMSv: 100 },
+  'uGy/h': { symbol: 'µGy', perUSv: 1 / H10_PER_AIR_KERMA, digits: 3, annualSymbol: 'mGy/y', annualPerMSv: 1 / H10_PER_AIR_KERMA },
+};
+
+export const DOSE_RATE_UNIT_IDS: DoseRateUnitId[] = ['uSv/h', 'mSv/h', 'mrem/h', 'uGy/h', 'cps'];
+export const DISTANCE_UNIT_IDS: DistanceUnitId[] = ['cm', 'm', 'in'];
+
+/**
+ * Counts per second are what the detector's rate meter turns into its µSv/h reading, so they go back
+ * through its calibration and differ from one instrument to the next.
+ */
+export const doseRateScale = (unit: DoseRateUnitId, detector: DetectorType): DoseRateScale =>
+  unit === 'cps'
+    ? { unit, quantity: 'counts', symbol: 'cps', fileKey: 'cps', perUSvH: detector.calibrationCpsPerUSvH, digits: 2 }
+    : { unit, ...DOSE_RATE_UNITS[unit] };
+
+/**
+ * Dose and dose rate as a personal dosimeter or a dose limit gives them. Neither has a count rate,
+ * so with counts per second picked they stay in µSv.
+ */
+export const doseUnits = (unit: DoseRateUnitId): { doseRate: DoseRateScale; dose: DoseScale } => {
+  const id = unit === 'cps' ? 'uSv/h' : unit;
+  return { doseRate: { unit: id, ...DOSE_RATE_UNITS[id] }, dose: DOSE_UNITS[id] };
+};
+
+export const distanceScale = (unit: DistanceUnitId): DistanceScale => ({ unit, ...DISTANCE_UNITS[unit] });
+
+export const displayUnits = (settings: UnitSettings, detector: DetectorType): DisplayUnits => ({
+  doseRate: doseRateScale(settings.doseRate, detector),
+  distance: distanceScale(settings.distance),
+});
+
+// What each model constant is multiplied by to go from K [m²·µSv/h], μ [m⁻¹] and b [µSv/h] to the chosen units
+export const modelParamFactors = (units: DisplayUnits): DoseModelParams => {
+  const { doseRate, distance } = units;
+  return { K: doseRate.perUSvH * distance.modelPerM ** 2, mu: 1 / distance.modelPerM, b: doseRate.perUSvH };
+};
+
+export const scaleModelParams = (params: DoseModelParams, units: DisplayUnits): DoseModelParams => {
+  const factors = modelParamFactors(units);
+  return { K: params.K * factors.K, mu: params.mu * factors.mu, b: params.b * factors.b };
+};
+
+export const modelUnitSymbols = (units: DisplayUnits): Record<keyof DoseModelParams, string> => ({
+  K: `${units.distance.modelSymbol}²·${units.doseRate.symbol}`,
+  mu: `${units.distance.modelSymbol}⁻¹`,
+  b: units.doseRate.symbol,
+});
+
+// Symbol of the quantity a reading is in, for column headings and the legend
+export const QUANTITY_SYMBOLS: Record<DoseRateQuantity, string> = { dose: 'H*(10)', kerma: 'Kₐ', counts: 'ṅ' };
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(bytes('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+});
+
+describe('createZip', () => {
+  it('stores each file with its checksum and ends with the central directory', async () => {
+    const data = bytes('hello');
+    const zip = new Uint8Array(await createZip([{ name: 'a.txt', data }], new Date(2024, 0, 2, 3, 4, 6)).arrayBuffer());
+    const view = new DataView(zip.buffer);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(data));
+    expect(view.getUint32(18, true)).toBe(data.length);
+    expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+    expect(view.getUint16(zip.length - 12, true)).toBe(1);
+  });
+});
@@ -2,3 +2,44 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import { DetectorId } from './services/detectors';
+import { LabGeometry } from './services/geometry';
+import { IsotopeId } from './services/isotopes';
+import { MaterialId } from './services/materials';
+import { ShieldSlab } from './services/shielding';
+
+// The bench a reading was taken on, everything but the probe; only readings on the same bench are fitted together
+export interface ReadingBench {
+  isotopeId: IsotopeId;
+  activityMBq: number;
+  targetMaterialId: MaterialId;
+  geometry: LabGeometry;
+  slabs: ShieldSlab[];
+}
+
+// A single reading captured with "Record reading" in the measurement log.
+export interface Measurement {
+  id: number;
+  timestamp: string; // ISO 8601
+  probeLabel: string; // Which probe on the bench took the reading
+  distanceCm: number; // From the centre of the PMMA face to the probe
+  angleDeg: number; // Direction of the probe from the beam axis, seen from the PMMA face
+  sourceOpen: boolean;
+  detectorId: DetectorId;
+  doseRate: number; // µSv/h as shown on the readout
+  doseRateError: number; // 1-sigma counting uncertainty, µSv/h
+  integrationTimeS: number; // Counting time the reading was integrated over
+  counts: number; // Particles detected since the last reset
+  countingTimeS: number; // Seconds since the last reset
+  bench: ReadingBench;
+  photonOriginCm: number; // Where the inverse square law counted from for this reading, upstream of the PMMA face
+}
+
+// Output of the rate meter: counts integrated over a counting time, converted to dose
+export interface DetectorReading {
+  doseRate: number; // µSv/h
+  doseRateError: number; // 1-sigma Poisson uncertainty, µSv/h
+  counts: number;
+  timeS: number;
+}